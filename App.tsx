@@ -1,180 +1,370 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { CalculationResult, VlsmCalculationResult, CalculationPayload, VlsmCalculationPayload } from './types';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import {
+  AddressFamily, CalculationResult, VlsmCalculationResult, CalculationPayload, VlsmCalculationPayload,
+  Ipv6CalculationPayload, Ipv6CalculationResult, Ipv6VlsmCalculationPayload, Ipv6VlsmCalculationResult,
+  CalculationResultUnion, ExportSource, SummarizationPayload, SummarizationResult, CidrSetPayload, CidrSetResult,
+  AuditPayload, AuditResult, CalculationProgress, SubnetPage, WorkerRequest,
+} from './types';
 import ResultsTable from './components/ResultsTable';
+import SubnetPages from './components/SubnetPages';
+import ProgressPanel from './components/ProgressPanel';
 import StandardCalculator from './components/StandardCalculator';
 import VlsmCalculator from './components/VlsmCalculator';
 import Summary from './components/Summary';
 import VlsmResults from './components/VlsmResults';
-import { workerScript } from './worker';
+import ConfigSnippets from './components/ConfigSnippets';
+import PlanDiff from './components/PlanDiff';
+import PlanComparison from './components/PlanComparison';
+import Ipv6Calculator from './components/Ipv6Calculator';
+import Ipv6VlsmCalculator from './components/Ipv6VlsmCalculator';
+import Ipv6Summary from './components/Ipv6Summary';
+import Ipv6VlsmResults from './components/Ipv6VlsmResults';
+import SummarizationCalculator from './components/SummarizationCalculator';
+import SummarizationResults from './components/SummarizationResults';
+import CidrSetCalculator from './components/CidrSetCalculator';
+import CidrSetResults from './components/CidrSetResults';
+import AuditCalculator from './components/AuditCalculator';
+import AuditResults from './components/AuditResults';
+import SavedPlans from './components/SavedPlans';
+import AddressLookup from './components/AddressLookup';
+import { decodeRequest, encodeRequest } from './urlState';
+import { JobHandlers, createWorkerClient } from './workerClient';
+import { standardPlanLocator } from './addressLookup';
+import { parsePlanDocument } from './planFormat';
+import { ExportFile, Exporter, getExporters } from './exporters';
+import { SavedPlan, createPlan, duplicatePlan, exportLibrary, loadPlans, mergePlans, parseLibrary, savePlans } from './planLibrary';
 
-declare const XLSX: any;
+type CalculatorType = 'standard' | 'vlsm' | 'summarize' | 'cidrset' | 'audit';
 
-type CalculatorType = 'standard' | 'vlsm';
+const CALCULATOR_TABS: { type: CalculatorType; label: string }[] = [
+  { type: 'standard', label: 'Standard Calculator' },
+  { type: 'vlsm', label: 'VLSM Calculator' },
+  { type: 'summarize', label: 'Route Summarization' },
+  { type: 'cidrset', label: 'CIDR Sets' },
+  { type: 'audit', label: 'Plan Audit' },
+];
 
 const App: React.FC = () => {
   const [calculatorType, setCalculatorType] = useState<CalculatorType>('standard');
+  const [addressFamily, setAddressFamily] = useState<AddressFamily>(AddressFamily.IPV4);
   const [standardResult, setStandardResult] = useState<CalculationResult | null>(null);
   const [vlsmResult, setVlsmResult] = useState<VlsmCalculationResult | null>(null);
+  const [ipv6Result, setIpv6Result] = useState<Ipv6CalculationResult | null>(null);
+  const [ipv6VlsmResult, setIpv6VlsmResult] = useState<Ipv6VlsmCalculationResult | null>(null);
+  const [summaryResult, setSummaryResult] = useState<SummarizationResult | null>(null);
+  const [cidrSetResult, setCidrSetResult] = useState<CidrSetResult | null>(null);
+  const [auditResult, setAuditResult] = useState<AuditResult | null>(null);
+  // Plan a locked VLSM recalculation started from, compared with its result.
+  const [vlsmBaseline, setVlsmBaseline] = useState<VlsmCalculationResult | null>(null);
+  // Standard subnet picked by the address lookup.
+  const [highlightedSubnetId, setHighlightedSubnetId] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [originalIp, setOriginalIp] = useState<string>('');
-  const workerRef = useRef<{ worker: Worker; url: string } | null>(null);
+  // Calculation restored from the URL; forms are remounted via formKey to pick it up.
+  const [restoredRequest, setRestoredRequest] = useState<WorkerRequest | null>(null);
+  const [formKey, setFormKey] = useState(0);
+  // Inputs behind the results currently on screen, so they can be saved as a plan.
+  const [lastRequest, setLastRequest] = useState<WorkerRequest | null>(null);
+  const [library] = useState(() => loadPlans());
+  const [plans, setPlans] = useState<SavedPlan[]>(library.plans);
+  const unreadableLibrary = library.readable ? null : `${library.errors[0]} The stored plans are left untouched, so changes to the library are not saved.`;
+  const [libraryError, setLibraryError] = useState<string | null>(() => {
+    if (unreadableLibrary) return unreadableLibrary;
+    return library.skipped.length > 0 ? `${library.skipped.length} saved plan(s) could not be read and are not shown. ${library.errors.join(' ')}` : null;
+  });
+  const planFileInputRef = useRef<HTMLInputElement>(null);
+  // One worker runs every calculation and subnet page; a calculation reports progress while it runs.
+  const [workerClient] = useState(() => createWorkerClient(() => new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' })));
+  const [progress, setProgress] = useState<CalculationProgress | null>(null);
+  // Job id of the calculation in progress.
+  const activeJobRef = useRef<number | null>(null);
 
   useEffect(() => {
-    return () => {
-      if (workerRef.current) {
-        workerRef.current.worker.terminate();
-        URL.revokeObjectURL(workerRef.current.url);
-      }
-    };
-  }, []);
+    return () => workerClient.dispose();
+  }, [workerClient]);
 
-  const startWorker = () => {
-    if (workerRef.current) {
-        workerRef.current.worker.terminate();
-        URL.revokeObjectURL(workerRef.current.url);
-        workerRef.current = null;
-    }
-    const blob = new Blob([workerScript], { type: 'application/javascript' });
-    const workerUrl = URL.createObjectURL(blob);
-    const worker = new Worker(workerUrl);
-    workerRef.current = { worker, url: workerUrl };
-    return worker;
-  }
-
-  const cleanupWorker = () => {
-      if (workerRef.current) {
-          workerRef.current.worker.terminate();
-          URL.revokeObjectURL(workerRef.current.url);
-          workerRef.current = null;
-      }
+  const cancelCalculation = () => {
+    if (activeJobRef.current !== null) workerClient.cancel(activeJobRef.current);
+    activeJobRef.current = null;
+    setLoading(false);
+    setProgress(null);
   };
-  
-  const handleCalculate = useCallback((payload: CalculationPayload) => {
-    setLoading(true);
-    setError(null);
+
+  const clearResults = () => {
     setStandardResult(null);
     setVlsmResult(null);
-    setOriginalIp(payload.ipAddress);
+    setIpv6Result(null);
+    setIpv6VlsmResult(null);
+    setSummaryResult(null);
+    setCidrSetResult(null);
+    setAuditResult(null);
+    setHighlightedSubnetId(null);
+  };
 
-    const worker = startWorker();
+  const runCalculation = useCallback(<T extends CalculationResultUnion,>(request: WorkerRequest, onResult: (result: T) => void) => {
+    // A new calculation (e.g. from the back button) replaces one still running.
+    cancelCalculation();
+    setLoading(true);
+    setError(null);
+    clearResults();
 
-    worker.onmessage = (event: MessageEvent<{ result?: CalculationResult; error?: string }>) => {
-      const { result, error: workerError } = event.data;
-      if (workerError) setError(workerError);
-      else if (result) setStandardResult(result);
+    const finish = () => {
+      activeJobRef.current = null;
       setLoading(false);
-      cleanupWorker();
+      setProgress(null);
     };
+    activeJobRef.current = workerClient.run<T>(request, {
+      onResult: (result) => {
+        finish();
+        onResult(result);
+      },
+      onError: (message) => {
+        finish();
+        setError(message);
+      },
+      onProgress: setProgress,
+    });
+  }, [workerClient]);
 
-    worker.onerror = (event) => {
-      setError(`An unexpected error occurred: ${event.message}`);
-      setLoading(false);
-      cleanupWorker();
-    };
+  // Standard results carry only their layout; the worker generates the page of subnets on screen.
+  const loadSubnetPage = useCallback((result: CalculationResult, offset: number, limit: number, handlers: JobHandlers<SubnetPage>) => {
+    const id = workerClient.run<SubnetPage>({ calculator: 'subnet-page', payload: { result, offset, limit } }, handlers);
+    return () => workerClient.cancel(id);
+  }, [workerClient]);
+
+  useEffect(() => {
+    // Nothing to write until the library changes; an unreadable one is never overwritten.
+    if (plans === library.plans) return;
+    if (unreadableLibrary) {
+      setLibraryError(unreadableLibrary);
+      return;
+    }
+    try {
+      savePlans(plans, window.localStorage, library.skipped);
+    } catch (e) {
+      setLibraryError(e instanceof Error ? e.message : 'Could not save plans.');
+    }
+  }, [plans, library, unreadableLibrary]);
 
-    worker.postMessage({ calculator: 'standard', payload });
-  }, []);
+  const dispatchRequest = useCallback((request: WorkerRequest) => {
+    setLastRequest(request);
+    if (request.calculator === 'standard') {
+      setOriginalIp(request.payload.ipAddress);
+      runCalculation<CalculationResult>(request, setStandardResult);
+    } else if (request.calculator === 'vlsm') {
+      runCalculation<VlsmCalculationResult>(request, setVlsmResult);
+    } else if (request.calculator === 'standard6') {
+      runCalculation<Ipv6CalculationResult>(request, setIpv6Result);
+    } else if (request.calculator === 'vlsm6') {
+      runCalculation<Ipv6VlsmCalculationResult>(request, setIpv6VlsmResult);
+    } else if (request.calculator === 'summarize') {
+      runCalculation<SummarizationResult>(request, setSummaryResult);
+    } else if (request.calculator === 'cidrset') {
+      runCalculation<CidrSetResult>(request, setCidrSetResult);
+    } else {
+      runCalculation<AuditResult>(request, setAuditResult);
+    }
+  }, [runCalculation]);
 
-  const handleVlsmCalculate = useCallback((payload: VlsmCalculationPayload) => {
-    setLoading(true);
+  // User-initiated calculations get their own history entry so back/forward steps through them.
+  const submitRequest = useCallback((request: WorkerRequest) => {
+    const hash = `#${encodeRequest(request)}`;
+    if (window.location.hash !== hash) {
+      window.history.pushState(null, '', hash);
+    }
+    dispatchRequest(request);
+  }, [dispatchRequest]);
+
+  // Switches to the calculator a request belongs to and remounts its form seeded with the inputs.
+  const showRequestForm = (request: WorkerRequest) => {
+    const isStandard = request.calculator === 'standard' || request.calculator === 'standard6';
+    const isIpv6 = request.calculator === 'standard6' || request.calculator === 'vlsm6';
+    setRestoredRequest(request);
+    setFormKey(key => key + 1);
+    setCalculatorType(request.calculator === 'summarize' || request.calculator === 'cidrset' || request.calculator === 'audit' ? request.calculator : isStandard ? 'standard' : 'vlsm');
+    setAddressFamily(isIpv6 ? AddressFamily.IPV6 : AddressFamily.IPV4);
+  };
+
+  const restoreFromUrl = useCallback(() => {
+    const request = decodeRequest(window.location.hash);
+    setVlsmBaseline(null);
+    if (!request) {
+      setRestoredRequest(null);
+      setFormKey(key => key + 1);
+      setError(null);
+      clearResults();
+      return;
+    }
+    showRequestForm(request);
+    dispatchRequest(request);
+  }, [dispatchRequest]);
+
+  useEffect(() => {
+    restoreFromUrl();
+    window.addEventListener('popstate', restoreFromUrl);
+    return () => window.removeEventListener('popstate', restoreFromUrl);
+  }, [restoreFromUrl]);
+
+  const standardLocator = useMemo(() => (standardResult ? standardPlanLocator(standardResult) : null), [standardResult]);
+
+  const currentResult: CalculationResultUnion | null = standardResult ?? vlsmResult ?? ipv6Result ?? ipv6VlsmResult ?? summaryResult ?? cidrSetResult ?? auditResult;
+
+  const handleSavePlan = (name: string) => {
+    if (!lastRequest || !currentResult) return;
+    setLibraryError(null);
+    setPlans([...plans, createPlan(name, lastRequest, currentResult)]);
+  };
+
+  // Puts a calculation on screen, reusing a known result instead of rerunning the worker when there is one.
+  const showCalculation = (request: WorkerRequest, result: CalculationResultUnion | null) => {
+    const hash = `#${encodeRequest(request)}`;
+    if (window.location.hash !== hash) {
+      window.history.pushState(null, '', hash);
+    }
+    showRequestForm(request);
+    if (!result) {
+      dispatchRequest(request);
+      return;
+    }
+    cancelCalculation();
     setError(null);
-    setStandardResult(null);
-    setVlsmResult(null);
-    
-    const worker = startWorker();
-    
-    worker.onmessage = (event: MessageEvent<{ result?: VlsmCalculationResult; error?: string }>) => {
-        const { result, error: workerError } = event.data;
-        if (workerError) setError(workerError);
-        else if (result) setVlsmResult(result);
-        setLoading(false);
-        cleanupWorker();
-    };
+    clearResults();
+    setLastRequest(request);
+    if (request.calculator === 'standard') {
+      setOriginalIp(request.payload.ipAddress);
+      setStandardResult(result as CalculationResult);
+    } else if (request.calculator === 'vlsm') {
+      setVlsmResult(result as VlsmCalculationResult);
+    } else if (request.calculator === 'standard6') {
+      setIpv6Result(result as Ipv6CalculationResult);
+    } else if (request.calculator === 'vlsm6') {
+      setIpv6VlsmResult(result as Ipv6VlsmCalculationResult);
+    } else if (request.calculator === 'summarize') {
+      setSummaryResult(result as SummarizationResult);
+    } else if (request.calculator === 'cidrset') {
+      setCidrSetResult(result as CidrSetResult);
+    } else {
+      setAuditResult(result as AuditResult);
+    }
+  };
 
-    worker.onerror = (event) => {
-        setError(`An unexpected error occurred: ${event.message}`);
-        setLoading(false);
-        cleanupWorker();
-    };
+  const handleOpenPlan = (plan: SavedPlan) => {
+    showCalculation(plan.request, plan.result);
+  };
+
+  const handleDeletePlan = (plan: SavedPlan) => {
+    if (!window.confirm(`Delete the saved plan '${plan.name}'?`)) return;
+    setPlans(plans.filter(p => p.id !== plan.id));
+  };
+
+  const downloadFile = ({ filename, mimeType, content, openInNewTab }: ExportFile) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    if (openInNewTab) {
+      // The tab needs the URL until it has loaded; it is released with the page.
+      window.open(url, '_blank');
+      return;
+    }
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
-    worker.postMessage({ calculator: 'vlsm', payload });
-  }, []);
-
-  const handleExportToExcel = useCallback(() => {
-    if (typeof XLSX === 'undefined') return;
-
-    const workbook = XLSX.utils.book_new();
-    let filename = 'IPv4_Subnet_Plan.xlsx';
-
-    if (calculatorType === 'standard' && standardResult) {
-        const summaryData = [
-          ["Calculation Summary", ""],
-          ["Original IP Address", originalIp],
-          ["IP Class", standardResult.ipClass],
-          ["Default Mask", standardResult.defaultMask],
-          ["Subnet Mask", standardResult.subnetMask],
-          ["CIDR Notation", `/${standardResult.cidr}`],
-          ["Total Subnets", standardResult.totalSubnets],
-          ["Usable Hosts per Subnet", standardResult.hostsPerSubnet],
-        ];
-
-        const worksheet = XLSX.utils.aoa_to_sheet(summaryData);
-
-        const subnetTableData = [['Subnet', 'Network Address', 'Usable Host Range', 'Broadcast Address']];
-        standardResult.subnets.forEach(subnet => {
-            subnetTableData.push([`Subnet ${subnet.id}`, subnet.networkAddress, subnet.usableHostRange, subnet.broadcastAddress]);
-        });
-
-        XLSX.utils.sheet_add_aoa(worksheet, subnetTableData, { origin: 'A10' });
-        worksheet['!cols'] = [{ wch: 25 }, { wch: 25 }, { wch: 35 }, { wch: 20 }];
-        worksheet['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: 1 } }];
-        
-        XLSX.utils.book_append_sheet(workbook, worksheet, 'Subnet Plan');
-        filename = `IPv4_Subnet_Plan_${originalIp.replace(/\./g, '_')}_${standardResult.cidr}.xlsx`;
-
-    } else if (calculatorType === 'vlsm' && vlsmResult) {
-        const summaryData = [
-            ["VLSM Calculation Summary", ""],
-            ["Base Network", vlsmResult.baseNetwork],
-            ["Total Hosts in Block", vlsmResult.totalHostsInBlock],
-            ["Total Required Hosts", vlsmResult.totalRequiredHosts],
-            ["Total Allocated Hosts", vlsmResult.totalAllocatedHosts],
-            ["Address Utilization Efficiency", `${vlsmResult.efficiency.toFixed(2)}%`],
-        ];
-
-        const worksheet = XLSX.utils.aoa_to_sheet(summaryData);
-
-        const subnetTableData = [['Subnet Name', 'Required Hosts', 'Allocated Hosts', 'Network Address', 'Subnet Mask', 'CIDR', 'Usable Host Range', 'Broadcast Address']];
-        vlsmResult.allocatedSubnets.forEach(subnet => {
-            // Fix: Convert numbers to strings to avoid type errors when pushing to subnetTableData.
-            subnetTableData.push([
-                subnet.name, String(subnet.requiredHosts), String(subnet.allocatedHosts), subnet.networkAddress,
-                subnet.subnetMask, `/${subnet.cidr}`, subnet.usableHostRange, subnet.broadcastAddress
-            ]);
-        });
-
-        XLSX.utils.sheet_add_aoa(worksheet, [['Allocated Subnets']], { origin: 'A8' });
-        XLSX.utils.sheet_add_aoa(worksheet, subnetTableData, { origin: 'A9' });
-
-        worksheet['!cols'] = [
-          { wch: 20 }, { wch: 15 }, { wch: 15 }, { wch: 20 }, { wch: 20 },
-          { wch: 10 }, { wch: 40 }, { wch: 20 }
-        ];
-        worksheet['!merges'] = [
-            { s: { r: 0, c: 0 }, e: { r: 0, c: 1 } },
-            { s: { r: 7, c: 0 }, e: { r: 7, c: 7 } }
-        ];
-
-        XLSX.utils.book_append_sheet(workbook, worksheet, 'VLSM Plan');
-        filename = `VLSM_Plan_${vlsmResult.baseNetwork.replace(/[./]/g, '_')}.xlsx`;
+  const handleExportLibrary = () => {
+    downloadFile({
+      filename: `Subnet_Plans_${new Date().toISOString().slice(0, 10)}.json`,
+      mimeType: 'application/json',
+      content: exportLibrary(plans),
+    });
+  };
+
+  const handleImportLibrary = async (file: File) => {
+    setLibraryError(null);
+    try {
+      const imported = parseLibrary(await file.text());
+      setPlans(current => mergePlans(current, imported));
+    } catch (e) {
+      setLibraryError(e instanceof Error ? e.message : 'Could not import the library.');
     }
-    
-    if (workbook.SheetNames.length > 0) {
-      XLSX.writeFile(workbook, filename);
+  };
+
+  const handleImportPlan = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow re-importing the same file after fixing it.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePlanDocument(await file.text());
+      showCalculation({ calculator: 'vlsm', payload: imported.payload }, imported.result);
+    } catch (err) {
+      clearResults();
+      setError(err instanceof Error ? err.message : 'Could not import the plan.');
     }
-  }, [standardResult, vlsmResult, originalIp, calculatorType]);
-  
+  };
+
+  const handleCalculate = useCallback((payload: CalculationPayload) => {
+    submitRequest({ calculator: 'standard', payload });
+  }, [submitRequest]);
+
+  const handleVlsmCalculate = useCallback((payload: VlsmCalculationPayload) => {
+    setVlsmBaseline(payload.locked ? vlsmResult : null);
+    submitRequest({ calculator: 'vlsm', payload });
+  }, [submitRequest, vlsmResult]);
+
+  const handleIpv6Calculate = useCallback((payload: Ipv6CalculationPayload) => {
+    submitRequest({ calculator: 'standard6', payload });
+  }, [submitRequest]);
+
+  const handleIpv6VlsmCalculate = useCallback((payload: Ipv6VlsmCalculationPayload) => {
+    submitRequest({ calculator: 'vlsm6', payload });
+  }, [submitRequest]);
+
+  const handleSummarize = useCallback((payload: SummarizationPayload) => {
+    submitRequest({ calculator: 'summarize', payload });
+  }, [submitRequest]);
+
+  const handleCidrSetCalculate = useCallback((payload: CidrSetPayload) => {
+    submitRequest({ calculator: 'cidrset', payload });
+  }, [submitRequest]);
+
+  const handleAudit = useCallback((payload: AuditPayload) => {
+    submitRequest({ calculator: 'audit', payload });
+  }, [submitRequest]);
+
+  // The result on screen paired with its inputs; the tab check skips results left over from the other tab.
+  const exportSource = ((): ExportSource | null => {
+    if (lastRequest?.calculator === 'standard' && standardResult && calculatorType === 'standard') {
+      return { calculator: 'standard', payload: lastRequest.payload, result: standardResult };
+    }
+    if (lastRequest?.calculator === 'vlsm' && vlsmResult && calculatorType === 'vlsm') {
+      return { calculator: 'vlsm', payload: lastRequest.payload, result: vlsmResult };
+    }
+    if (lastRequest?.calculator === 'standard6' && ipv6Result && calculatorType === 'standard') {
+      return { calculator: 'standard6', payload: lastRequest.payload, result: ipv6Result };
+    }
+    if (lastRequest?.calculator === 'vlsm6' && ipv6VlsmResult && calculatorType === 'vlsm') {
+      return { calculator: 'vlsm6', payload: lastRequest.payload, result: ipv6VlsmResult };
+    }
+    if (lastRequest?.calculator === 'summarize' && summaryResult && calculatorType === 'summarize') {
+      return { calculator: 'summarize', payload: lastRequest.payload, result: summaryResult };
+    }
+    if (lastRequest?.calculator === 'cidrset' && cidrSetResult && calculatorType === 'cidrset') {
+      return { calculator: 'cidrset', payload: lastRequest.payload, result: cidrSetResult };
+    }
+    if (lastRequest?.calculator === 'audit' && auditResult && calculatorType === 'audit') {
+      return { calculator: 'audit', payload: lastRequest.payload, result: auditResult };
+    }
+    return null;
+  })();
+  const exporters = exportSource ? getExporters(exportSource) : [];
+
+  const handleExport = (exporter: Exporter) => {
+    if (!exportSource) return;
+    downloadFile(exporter.export(exportSource));
+  };
+
   const renderResults = () => {
       if(error) {
           return (
@@ -183,36 +373,74 @@ const App: React.FC = () => {
               </div>
           );
       }
-      if (!standardResult && !vlsmResult) return null;
-
-      const canExport = (calculatorType === 'standard' && standardResult) || (calculatorType === 'vlsm' && vlsmResult);
+      if (!currentResult) return null;
 
       return (
           <div className="mt-8 pt-6 border-t border-gray-700">
-              <div className="flex justify-between items-center mb-6">
+              <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
                 <h2 className="text-2xl font-semibold">Calculation Results</h2>
-                {canExport && (
-                    <button
-                      onClick={handleExportToExcel}
-                      className="bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300 flex items-center gap-2 text-sm"
-                      aria-label="Export results to Excel"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L11 12.586V3a1 1 0 112 0v9.586l3.293-3.293a1 1 0 111.414 1.414l-5 5a1 1 0 01-1.414 0l-5-5a1 1 0 010-1.414z" clipRule="evenodd" />
-                      </svg>
-                      Export to Excel
-                    </button>
+                {exporters.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Export results">
+                    <span className="text-sm text-gray-400">Export:</span>
+                    {exporters.map(exporter => (
+                      <button
+                        key={exporter.id}
+                        onClick={() => handleExport(exporter)}
+                        className={`${exporter.id === 'xlsx' ? 'bg-emerald-600 hover:bg-emerald-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'} font-bold py-2 px-3 rounded-lg transition-colors duration-300 text-sm`}
+                      >
+                        {exporter.label}
+                      </button>
+                    ))}
+                  </div>
                 )}
               </div>
 
               {standardResult && calculatorType === 'standard' && (
                   <>
                       <Summary result={standardResult} />
-                      <ResultsTable subnets={standardResult.subnets} />
+                      <div className="mt-6">
+                          <AddressLookup
+                              locate={standardLocator!}
+                              onSelect={(location) => setHighlightedSubnetId(location.kind === 'subnet' ? Number(location.rowId) : null)}
+                          />
+                      </div>
+                      <SubnetPages
+                          result={standardResult} loadPage={loadSubnetPage}
+                          highlightedId={highlightedSubnetId} onHighlight={setHighlightedSubnetId}
+                      />
                   </>
               )}
               {vlsmResult && calculatorType === 'vlsm' && (
-                  <VlsmResults result={vlsmResult} />
+                  <div className="space-y-8">
+                      {vlsmBaseline && lastRequest?.calculator === 'vlsm' && lastRequest.payload.locked && (
+                          <PlanDiff
+                              before={vlsmBaseline} after={vlsmResult}
+                              beforeLabel="Previous plan" afterLabel="Recalculated plan"
+                              title="Changes from the Previous Plan" onDownload={downloadFile}
+                          />
+                      )}
+                      <VlsmResults result={vlsmResult} />
+                      <PlanComparison current={vlsmResult} plans={plans} onDownload={downloadFile} />
+                      <ConfigSnippets result={vlsmResult} />
+                  </div>
+              )}
+              {ipv6Result && calculatorType === 'standard' && (
+                  <>
+                      <Ipv6Summary result={ipv6Result} />
+                      <ResultsTable subnets={ipv6Result.subnets} addressFamily={AddressFamily.IPV6} />
+                  </>
+              )}
+              {ipv6VlsmResult && calculatorType === 'vlsm' && (
+                  <Ipv6VlsmResults result={ipv6VlsmResult} />
+              )}
+              {summaryResult && calculatorType === 'summarize' && (
+                  <SummarizationResults result={summaryResult} />
+              )}
+              {cidrSetResult && calculatorType === 'cidrset' && (
+                  <CidrSetResults result={cidrSetResult} />
+              )}
+              {auditResult && calculatorType === 'audit' && (
+                  <AuditResults result={auditResult} />
               )}
           </div>
       )
@@ -226,45 +454,118 @@ const App: React.FC = () => {
             IPv4 Subnet Calculator
           </h1>
           <p className="mt-2 text-lg text-gray-400">
-            A simple and elegant tool for all your IPv4 subnetting needs.
+            A simple and elegant tool for all your IPv4 and IPv6 subnetting needs.
           </p>
         </header>
 
         <main className="bg-gray-800 shadow-2xl rounded-xl p-6 sm:p-8 mb-8">
-            <div className="mb-6 border-b border-gray-700">
+            <div className="mb-6 border-b border-gray-700 flex justify-between items-center">
                 <nav className="-mb-px flex space-x-6" aria-label="Tabs">
-                    <button
-                        onClick={() => { setCalculatorType('standard'); setError(null); setVlsmResult(null); setStandardResult(null); }}
-                        className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
-                            calculatorType === 'standard' ? 'border-blue-500 text-blue-400' : 'border-transparent text-gray-400 hover:text-gray-200 hover:border-gray-500'
-                        }`}
-                    >
-                        Standard Calculator
-                    </button>
-                    <button
-                        onClick={() => { setCalculatorType('vlsm'); setError(null); setStandardResult(null); setVlsmResult(null); }}
-                        className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
-                            calculatorType === 'vlsm' ? 'border-blue-500 text-blue-400' : 'border-transparent text-gray-400 hover:text-gray-200 hover:border-gray-500'
-                        }`}
-                    >
-                        VLSM Calculator
-                    </button>
+                    {CALCULATOR_TABS.map(tab => (
+                        <button
+                            key={tab.type}
+                            onClick={() => { setCalculatorType(tab.type); setError(null); clearResults(); }}
+                            className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                                calculatorType === tab.type ? 'border-blue-500 text-blue-400' : 'border-transparent text-gray-400 hover:text-gray-200 hover:border-gray-500'
+                            }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
                 </nav>
+                <div className="flex bg-gray-700 rounded-lg p-1" role="group" aria-label="Address family">
+                    {[AddressFamily.IPV4, AddressFamily.IPV6].map(family => (
+                        <button
+                            key={family}
+                            onClick={() => { setAddressFamily(family); setError(null); clearResults(); }}
+                            className={`py-1 px-3 text-xs font-medium rounded-md transition-colors duration-200 ${
+                                addressFamily === family ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'
+                            }`}
+                        >
+                            {family === AddressFamily.IPV4 ? 'IPv4' : 'IPv6'}
+                        </button>
+                    ))}
+                </div>
             </div>
 
-            {calculatorType === 'standard' && <StandardCalculator onCalculate={handleCalculate} loading={loading}/>}
-            {calculatorType === 'vlsm' && <VlsmCalculator onCalculate={handleVlsmCalculate} loading={loading} />}
+            {calculatorType === 'standard' && addressFamily === AddressFamily.IPV4 && (
+                <StandardCalculator
+                    key={formKey} onCalculate={handleCalculate} loading={loading}
+                    initialPayload={restoredRequest?.calculator === 'standard' ? restoredRequest.payload : undefined}
+                />
+            )}
+            {calculatorType === 'vlsm' && addressFamily === AddressFamily.IPV4 && (
+                <div className="flex justify-end mb-4">
+                    <button
+                        type="button"
+                        onClick={() => planFileInputRef.current?.click()}
+                        className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-2 px-3 rounded-lg transition-colors text-sm"
+                    >
+                        Import Plan (JSON)
+                    </button>
+                    <input ref={planFileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportPlan} />
+                </div>
+            )}
+            {calculatorType === 'vlsm' && addressFamily === AddressFamily.IPV4 && (
+                <VlsmCalculator
+                    key={formKey} onCalculate={handleVlsmCalculate} loading={loading}
+                    initialPayload={restoredRequest?.calculator === 'vlsm' ? restoredRequest.payload : undefined}
+                    lockSource={vlsmResult}
+                />
+            )}
+            {calculatorType === 'standard' && addressFamily === AddressFamily.IPV6 && (
+                <Ipv6Calculator
+                    key={formKey} onCalculate={handleIpv6Calculate} loading={loading}
+                    initialPayload={restoredRequest?.calculator === 'standard6' ? restoredRequest.payload : undefined}
+                />
+            )}
+            {calculatorType === 'vlsm' && addressFamily === AddressFamily.IPV6 && (
+                <Ipv6VlsmCalculator
+                    key={formKey} onCalculate={handleIpv6VlsmCalculate} loading={loading}
+                    initialPayload={restoredRequest?.calculator === 'vlsm6' ? restoredRequest.payload : undefined}
+                />
+            )}
+            {calculatorType === 'summarize' && addressFamily === AddressFamily.IPV4 && (
+                <SummarizationCalculator
+                    key={formKey} onCalculate={handleSummarize} loading={loading}
+                    initialPayload={restoredRequest?.calculator === 'summarize' ? restoredRequest.payload : undefined}
+                />
+            )}
+            {calculatorType === 'cidrset' && addressFamily === AddressFamily.IPV4 && (
+                <CidrSetCalculator
+                    key={formKey} onCalculate={handleCidrSetCalculate} loading={loading}
+                    initialPayload={restoredRequest?.calculator === 'cidrset' ? restoredRequest.payload : undefined}
+                />
+            )}
+            {calculatorType === 'audit' && addressFamily === AddressFamily.IPV4 && (
+                <AuditCalculator
+                    key={formKey} onCalculate={handleAudit} loading={loading}
+                    initialPayload={restoredRequest?.calculator === 'audit' ? restoredRequest.payload : undefined}
+                />
+            )}
+            {(calculatorType === 'summarize' || calculatorType === 'cidrset' || calculatorType === 'audit') && addressFamily === AddressFamily.IPV6 && (
+                <p className="p-4 bg-gray-900/50 rounded-lg text-center text-gray-400">This tool works on IPv4 networks only.</p>
+            )}
             
             {(loading) ? (
-                <div className="mt-8 pt-6 border-t border-gray-700 text-center">
-                    <div className="flex justify-center items-center">
-                        <svg className="animate-spin mr-3 h-8 w-8 text-blue-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                        <p className="text-lg text-gray-300">Calculating, please wait...</p>
-                    </div>
+                <div className="mt-8 pt-6 border-t border-gray-700">
+                    <ProgressPanel progress={progress} onCancel={cancelCalculation} />
                 </div>
             ) : renderResults()
             }
         </main>
+
+        <SavedPlans
+          plans={plans}
+          canSave={!loading && !!lastRequest && !!currentResult}
+          error={libraryError}
+          onSave={handleSavePlan}
+          onOpen={handleOpenPlan}
+          onDuplicate={(plan) => setPlans([...plans, duplicatePlan(plan, plans)])}
+          onDelete={handleDeletePlan}
+          onExport={handleExportLibrary}
+          onImport={handleImportLibrary}
+        />
       </div>
       <footer className="w-full max-w-4xl mx-auto text-center py-6 text-gray-500 text-sm border-t border-gray-700">
         <p>&copy; {new Date().getFullYear()} Majid hadji. All Rights Reserved.</p>
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { auditAddressPlan } from './addressAudit';
+import { auditSubnetsFromPlan, auditSubnetsFromSheet, formatAuditText, parseAuditText } from './auditImport';
+import { calculateVlsm } from './calculations';
+import { createPlanDocument } from './planFormat';
+import { buildPlanReport, renderCsv } from './planReport';
+import { AuditSubnetInput, VlsmCalculationPayload } from './types';
+
+const audit = (...lines: string[]) => auditAddressPlan({ subnets: parseAuditText(lines.join('\n')) });
+const kinds = (lines: string[]) => audit(...lines).issues.map(i => i.kind);
+
+describe('address plan audit', () => {
+  it('passes a plan without conflicts', () => {
+    const result = audit('Users, 10.0.0.0/24', 'Voice, 10.0.1.0 255.255.255.128', 'DHCP, 10.0.2.10 - 10.0.2.99');
+    expect(result).toMatchObject({ issues: [], errorCount: 0, warningCount: 0 });
+    expect(result.subnets.map(s => [s.block, s.addresses, s.status])).toEqual([
+      ['10.0.0.0/24', 256, 'ok'], ['10.0.1.0/25', 128, 'ok'], ['10.0.2.10 - 10.0.2.99', 90, 'ok'],
+    ]);
+  });
+
+  it('tells host addresses from misaligned networks and suggests the block', () => {
+    const { issues, subnets } = audit('Gateway, 10.0.0.1/24', 'Half, 10.0.1.128/24');
+    expect(issues).toEqual([
+      {
+        kind: 'host-address', severity: 'error', subnets: [0], suggestion: '10.0.0.0/24',
+        message: "'Gateway' (10.0.0.1/24) is a host address, not a network address for the /24 block.",
+      },
+      {
+        kind: 'misaligned', severity: 'error', subnets: [1], suggestion: '10.0.1.0/24',
+        message: "'Half' (10.0.1.128/24) is not aligned to a /24 boundary.",
+      },
+    ]);
+    // Audited as the block they fall in.
+    expect(subnets.map(s => s.block)).toEqual(['10.0.0.0/24', '10.0.1.0/24']);
+  });
+
+  it('reports entries it cannot parse and leaves them out of the comparisons', () => {
+    const { issues, subnets } = audit('Broken, 10.0.0.300/24', 'Users, 10.0.0.0/24');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: 'invalid', subnets: [0] });
+    expect(issues[0].message).toMatch(/^'Broken': /);
+    expect(subnets[0]).toEqual({ index: 0, name: 'Broken', entered: '10.0.0.300/24', status: 'error' });
+  });
+
+  it('groups identical blocks into one duplicate', () => {
+    const { issues, subnets } = audit('A, 10.0.0.0/24', 'B, 10.0.0.0 255.255.255.0', 'C, 10.0.0.0 - 10.0.0.255', 'Site, 10.0.0.0/16');
+    expect(issues.map(i => [i.kind, i.subnets])).toEqual([['duplicate', [0, 1, 2]], ['containment', [3, 0]]]);
+    expect(issues[0].message).toBe("'A', 'B', 'C' are the same block 10.0.0.0/24.");
+    expect(subnets.map(s => s.parentIndex)).toEqual([3, 3, 3, undefined]);
+  });
+
+  it('links each block to the smallest block containing it', () => {
+    const { issues, subnets } = audit('Region, 10.0.0.0/16', 'Site, 10.0.4.0/22', 'Users, 10.0.5.0/24', 'Other, 10.1.0.0/24');
+    expect(issues.map(i => i.message)).toEqual([
+      "'Site' (10.0.4.0/22) lies inside 'Region' (10.0.0.0/16).",
+      "'Users' (10.0.5.0/24) lies inside 'Site' (10.0.4.0/22).",
+    ]);
+    expect(issues.every(i => i.severity === 'warning')).toBe(true);
+    expect(subnets.map(s => [s.parentIndex, s.status])).toEqual([[undefined, 'warning'], [0, 'warning'], [1, 'warning'], [undefined, 'ok']]);
+  });
+
+  it('reports ranges that partially overlap', () => {
+    const { issues } = audit('Pool, 10.0.0.100 - 10.0.1.20', 'Servers, 10.0.1.0/24');
+    expect(issues).toEqual([{
+      kind: 'overlap', severity: 'error', subnets: [0, 1], message: "'Pool' and 'Servers' overlap in 10.0.1.0 - 10.0.1.20.",
+    }]);
+  });
+
+  it('warns about names used more than once', () => {
+    expect(kinds(['Users, 10.0.0.0/24', 'Users, 10.0.1.0/24'])).toEqual(['duplicate-name']);
+    // Unnamed entries are numbered instead.
+    expect(audit('10.0.0.0/24', '10.0.1.0/24').subnets.map(s => s.name)).toEqual(['#1', '#2']);
+  });
+
+  it('rejects an empty list', () => {
+    expect(() => auditAddressPlan({ subnets: [] })).toThrow('Please enter at least one subnet to audit.');
+  });
+
+  it('flags exactly the blocks that share an address with another block', () => {
+    const block = fc.record({ octet: fc.integer({ min: 0, max: 15 }), cidr: fc.integer({ min: 24, max: 30 }) })
+      .map(({ octet, cidr }) => {
+        const size = 2 ** (32 - cidr);
+        const start = Math.floor((octet * 16) / size) * size;
+        return { start, end: start + size - 1, network: `10.0.0.${start}/${cidr}` };
+      });
+    fc.assert(fc.property(fc.array(block, { minLength: 1, maxLength: 8 }), blocks => {
+      const result = auditAddressPlan({ subnets: blocks.map((b, i) => ({ name: `S${i}`, network: b.network })) });
+      blocks.forEach((b, i) => {
+        const collides = blocks.some((o, j) => j !== i && o.start <= b.end && b.start <= o.end);
+        expect(result.subnets[i].status !== 'ok').toBe(collides);
+      });
+    }));
+  });
+});
+
+describe('audit input', () => {
+  it('reads one named subnet per line in either order', () => {
+    expect(parseAuditText('HQ Users, 10.0.0.0/24\n\n10.0.1.0 255.255.255.0 Voice\nDHCP: 10.0.2.10 - 10.0.2.99\n10.0.3.0/24\nnonsense')).toEqual([
+      { name: 'HQ Users', network: '10.0.0.0/24' },
+      { name: 'Voice', network: '10.0.1.0 255.255.255.0' },
+      { name: 'DHCP', network: '10.0.2.10 - 10.0.2.99' },
+      { name: '', network: '10.0.3.0/24' },
+      { name: '', network: 'nonsense' },
+    ]);
+  });
+
+  it('formats subnets back into the same text', () => {
+    const subnets: AuditSubnetInput[] = [{ name: 'Site / Users', network: '10.0.0.0/24' }, { name: '', network: '10.0.1.0/24' }];
+    expect(parseAuditText(formatAuditText(subnets))).toEqual(subnets);
+  });
+
+  it('imports the allocations and reservations of a saved plan by path', () => {
+    const payload: VlsmCalculationPayload = {
+      ipAddress: '10.0.0.0',
+      cidr: 22,
+      subnets: [{ id: 'site', name: 'Site', hosts: 0, count: 1, children: [{ id: 'users', name: 'Users', hosts: 100, count: 1 }] }],
+      reservations: [{ range: '10.0.3.0/24', name: 'Future' }],
+    };
+    const text = JSON.stringify(createPlanDocument(payload, calculateVlsm(payload), { name: 'Branch' }));
+    expect(auditSubnetsFromPlan(text)).toEqual([
+      { name: 'Site / Users', network: '10.0.0.0/25' },
+      { name: 'Reserved: Future', network: '10.0.3.0/24' },
+    ]);
+    expect(() => auditSubnetsFromPlan(JSON.stringify(createPlanDocument(payload, null, { name: 'Draft' }))))
+      .toThrow('The plan file has no allocations to audit.');
+  });
+
+  it('imports the CSV export of a VLSM plan without its container rows', () => {
+    const payload: VlsmCalculationPayload = {
+      ipAddress: '10.0.0.0',
+      cidr: 22,
+      subnets: [{ id: 'site', name: 'Site', hosts: 0, count: 1, children: [{ id: 'users', name: 'Users', hosts: 100, count: 2 }] }],
+    };
+    const csv = renderCsv(buildPlanReport({ calculator: 'vlsm', payload, result: calculateVlsm(payload) }));
+    const rows = csv.trim().split('\r\n').map(line => line.split(','));
+    expect(auditSubnetsFromSheet(rows)).toEqual([
+      { name: 'Site / Users 1', network: '10.0.0.0/25' },
+      { name: 'Site / Users 2', network: '10.0.0.128/25' },
+    ]);
+  });
+
+  it('combines a bare network column with a mask column', () => {
+    expect(auditSubnetsFromSheet([['Title'], ['Name', 'Network', 'Mask'], ['LAN', '10.0.0.0', '255.255.255.0'], ['', '', '']]))
+      .toEqual([{ name: 'LAN', network: '10.0.0.0 255.255.255.0' }]);
+    expect(() => auditSubnetsFromSheet([['Name', 'Hosts']])).toThrow("No column named 'Network Address' or 'Prefix' was found.");
+  });
+});
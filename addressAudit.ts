@@ -0,0 +1,163 @@
+// Audits an existing address plan, e.g. before merging the plans of two sites: every named
+// subnet is checked on its own (is it a network address?) and against all the others
+// (duplicates, overlaps, nesting).
+import { AuditIssue, AuditIssueKind, AuditPayload, AuditResult, AuditedSubnet } from './types';
+import { IPV4_BITS, bigIntToIp, blockSize, formatIpv4Range, networkAddress, parseIp, parseMask } from './ipv4';
+import { parseNetworkEntry } from './cidrSets';
+
+// A block address is taken for a misaligned network when at least this many of its low bits
+// are zero (it starts a /30 or larger); anything else looks like a host or gateway address.
+const MIN_NETWORK_ZERO_BITS = 2;
+
+const trailingZeroBits = (value: bigint): number => {
+  let bits = 0;
+  while (bits < IPV4_BITS && (value & (1n << BigInt(bits))) === 0n) bits++;
+  return bits;
+};
+
+// "10.0.4.0/22", "10.0.4.0/255.255.252.0" or "10.0.4.0 255.255.252.0"; unlike parseNetworkEntry,
+// the address may have host bits set so they can be reported instead of rejected.
+const BLOCK_ENTRY = /^([\d.]+)\s*(?:\/\s*|\s+)([\d.]+)$/;
+
+export const AUDIT_ISSUE_LABELS: Record<AuditIssueKind, string> = {
+  'invalid': 'Invalid entry',
+  'host-address': 'Host address',
+  'misaligned': 'Misaligned network',
+  'duplicate': 'Duplicate block',
+  'duplicate-name': 'Duplicate name',
+  'overlap': 'Overlap',
+  'containment': 'Containment',
+};
+
+interface Block {
+  index: number;
+  start: bigint;
+  end: bigint;
+}
+
+export const auditAddressPlan = (payload: AuditPayload): AuditResult => {
+  if (payload.subnets.length === 0) {
+    throw new Error("Please enter at least one subnet to audit.");
+  }
+
+  const issues: AuditIssue[] = [];
+  const blocks: Block[] = [];
+
+  const subnets = payload.subnets.map(({ name, network }, index): AuditedSubnet => {
+    const label = name.trim() || `#${index + 1}`;
+    const entered = network.trim();
+    const subnet: AuditedSubnet = { index, name: label, entered, status: 'ok' };
+
+    let start: bigint;
+    let end: bigint;
+    const block = BLOCK_ENTRY.exec(entered);
+    try {
+      if (block) {
+        const ip = parseIp(block[1]);
+        const prefix = parseMask(block[2]);
+        start = networkAddress(ip, prefix);
+        end = start + blockSize(prefix) - 1n;
+        if (start !== ip) {
+          const kind = trailingZeroBits(ip) >= MIN_NETWORK_ZERO_BITS ? 'misaligned' : 'host-address';
+          const suggestion = `${bigIntToIp(start)}/${prefix}`;
+          issues.push({
+            kind,
+            severity: 'error',
+            subnets: [index],
+            message: kind === 'misaligned'
+              ? `'${label}' (${entered}) is not aligned to a /${prefix} boundary.`
+              : `'${label}' (${entered}) is a host address, not a network address for the /${prefix} block.`,
+            suggestion,
+          });
+        }
+      } else {
+        ({ start, end } = parseNetworkEntry(entered));
+      }
+    } catch (e) {
+      issues.push({ kind: 'invalid', severity: 'error', subnets: [index], message: `'${label}': ${(e as Error).message}` });
+      return { ...subnet, status: 'error' };
+    }
+
+    blocks.push({ index, start, end });
+    return {
+      ...subnet,
+      block: formatIpv4Range(start, end),
+      firstAddress: bigIntToIp(start),
+      lastAddress: bigIntToIp(end),
+      addresses: Number(end - start + 1n),
+    };
+  });
+
+  const nameOf = (index: number) => `'${subnets[index].name}'`;
+  const names = new Map<string, number[]>();
+  subnets.forEach(s => names.set(s.name, [...(names.get(s.name) ?? []), s.index]));
+  names.forEach((indexes, name) => {
+    if (indexes.length > 1) {
+      issues.push({ kind: 'duplicate-name', severity: 'warning', subnets: indexes, message: `The name '${name}' is used by ${indexes.length} subnets.` });
+    }
+  });
+
+  // Identical blocks are reported once; the first of them stands in for the rest below.
+  const representatives = new Map<string, Block[]>();
+  blocks.forEach(b => {
+    const key = `${b.start}-${b.end}`;
+    representatives.set(key, [...(representatives.get(key) ?? []), b]);
+  });
+  representatives.forEach(copies => {
+    if (copies.length > 1) {
+      issues.push({
+        kind: 'duplicate',
+        severity: 'error',
+        subnets: copies.map(b => b.index),
+        message: `${copies.map(b => nameOf(b.index)).join(', ')} are the same block ${formatIpv4Range(copies[0].start, copies[0].end)}.`,
+      });
+    }
+  });
+
+  // Sweep in address order, larger blocks first, keeping the blocks that are still open.
+  const sorted = [...representatives.values()].map(copies => copies[0])
+    .sort((a, b) => (a.start !== b.start ? (a.start < b.start ? -1 : 1) : a.end > b.end ? -1 : a.end < b.end ? 1 : 0));
+  let open: Block[] = [];
+  for (const current of sorted) {
+    open = open.filter(o => o.end >= current.start);
+    // Open blocks are ordered by start, so the last one containing `current` is the smallest.
+    let parent: Block | undefined;
+    for (const o of open) {
+      if (o.end >= current.end) {
+        parent = o;
+      } else {
+        issues.push({
+          kind: 'overlap',
+          severity: 'error',
+          subnets: [o.index, current.index],
+          message: `${nameOf(o.index)} and ${nameOf(current.index)} overlap in ${formatIpv4Range(current.start, o.end)}.`,
+        });
+      }
+    }
+    if (parent) {
+      const inner = subnets[current.index];
+      const outer = subnets[parent.index];
+      representatives.get(`${current.start}-${current.end}`)!.forEach(b => { subnets[b.index].parentIndex = parent!.index; });
+      issues.push({
+        kind: 'containment',
+        severity: 'warning',
+        subnets: [parent.index, current.index],
+        message: `'${inner.name}' (${inner.block}) lies inside '${outer.name}' (${outer.block}).`,
+      });
+    }
+    open.push(current);
+  }
+
+  for (const issue of issues) {
+    for (const index of issue.subnets) {
+      if (issue.severity === 'error') subnets[index].status = 'error';
+      else if (subnets[index].status === 'ok') subnets[index].status = 'warning';
+    }
+  }
+  return {
+    subnets,
+    issues,
+    errorCount: issues.filter(i => i.severity === 'error').length,
+    warningCount: issues.filter(i => i.severity === 'warning').length,
+  };
+};
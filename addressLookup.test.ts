@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { describeLocation, lookupAddresses, standardPlanLocator, vlsmPlanLocator } from './addressLookup';
+import { calculateSubnetting, calculateVlsm, standardSubnetAt } from './calculations';
+import { bigIntToIp, blockSize, ipToBigInt } from './ipv4';
+import { AddressingMode, CalculationMode } from './types';
+
+const standard = calculateSubnetting({
+  calculationMode: CalculationMode.SUBNETS, addressingMode: AddressingMode.CLASSLESS, ipAddress: '172.16.0.0', parentCidr: 16, requiredSubnets: 1024,
+});
+
+const vlsm = calculateVlsm({
+  ipAddress: '10.0.0.0',
+  cidr: 22,
+  subnets: [
+    { id: 'site', name: 'Site', hosts: 0, count: 1, growth: 100, children: [{ id: 'users', name: 'Users', hosts: 100, count: 1 }] },
+    { id: 'wan', name: 'WAN', hosts: 2, count: 2 },
+  ],
+  reservations: [{ range: '10.0.3.0/25', name: 'Printers' }],
+});
+
+describe('standard plan lookup', () => {
+  it('finds the subnet and offset of a host arithmetically', () => {
+    const [host, network, broadcast] = lookupAddresses('172.16.37.201 172.16.37.192\n172.16.37.255', standardPlanLocator(standard));
+    expect(host).toEqual({
+      input: '172.16.37.201', address: '172.16.37.201', kind: 'subnet', rowId: '152', name: 'Subnet 152', block: '172.16.37.192/26', offset: 9, role: 'host',
+    });
+    expect(standardSubnetAt(standard, 152).networkAddress).toBe('172.16.37.192');
+    expect([network, broadcast].map(r => 'role' in r && r.role)).toEqual(['network', 'broadcast']);
+    expect(describeLocation(standardPlanLocator(standard)(ipToBigInt('172.16.37.201')))).toBe('Subnet 152 (172.16.37.192/26), host +9');
+  });
+
+  it('treats every address of a /31 or /32 as a host only in point-to-point plans', () => {
+    const links = calculateSubnetting({
+      calculationMode: CalculationMode.MASK, addressingMode: AddressingMode.CLASSLESS, ipAddress: '10.0.0.0', parentCidr: 24, mask: '/31', pointToPoint: true,
+    });
+    const roles = (result: typeof links) => lookupAddresses('10.0.0.4 10.0.0.5', standardPlanLocator(result)).map(r => 'role' in r && r.role);
+    expect(roles(links)).toEqual(['host', 'host']);
+    expect(roles({ ...links, pointToPoint: undefined })).toEqual(['network', 'broadcast']);
+  });
+
+  it('reports addresses outside the parent network and invalid entries', () => {
+    const [outside, invalid] = lookupAddresses('172.17.0.1, 300.1.1.1', standardPlanLocator(standard));
+    expect(outside).toEqual({ input: '172.17.0.1', address: '172.17.0.1', kind: 'outside', block: '172.16.0.0/16' });
+    expect(invalid).toMatchObject({ input: '300.1.1.1', error: expect.stringContaining('Invalid IPv4 format') });
+  });
+});
+
+describe('VLSM plan lookup', () => {
+  const locate = vlsmPlanLocator(vlsm);
+  const find = (address: string) => describeLocation(locate(ipToBigInt(address)));
+
+  it('tells subnets, reservations, free space and unused container space apart', () => {
+    expect(find('10.0.0.10')).toBe('Site / Users (10.0.0.0/25), host +10');
+    expect(find('10.0.1.3')).toBe('WAN 1 (10.0.1.0/30), broadcast address');
+    expect(find('10.0.3.5')).toBe("Reserved range 'Printers' (10.0.3.0/25), offset +5");
+    expect(find('10.0.2.1')).toBe('Unallocated space 10.0.2.0/24');
+    expect(find('10.0.0.200')).toBe('Unused space in Site (10.0.0.0/24)');
+    expect(find('10.0.4.0')).toBe('Outside the plan (10.0.0.0/22)');
+  });
+
+  it('treats both addresses of a point-to-point link as hosts', () => {
+    const links = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 30, subnets: [{ id: 'wan', name: 'WAN', hosts: 2, count: 2, kind: 'p2p' }] });
+    const locateLink = vlsmPlanLocator(links);
+    expect(describeLocation(locateLink(ipToBigInt('10.0.0.2')))).toBe('WAN 2 (10.0.0.2/31), host +0');
+    expect(describeLocation(locateLink(ipToBigInt('10.0.0.3')))).toBe('WAN 2 (10.0.0.2/31), host +1');
+  });
+
+  it('returns the row to highlight', () => {
+    expect(locate(ipToBigInt('10.0.0.10'))).toMatchObject({ kind: 'subnet', rowId: vlsm.allocatedSubnets[0].id });
+    expect(locate(ipToBigInt('10.0.3.127'))).toMatchObject({ kind: 'reserved', rowId: '0' });
+    expect(locate(ipToBigInt('10.0.2.255'))).toMatchObject({ kind: 'unallocated', rowId: '10.0.2.0' });
+  });
+
+  it('agrees with a scan of the allocated subnets', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 1023 }), offset => {
+      const address = ipToBigInt('10.0.0.0') + BigInt(offset);
+      const owner = vlsm.allocatedSubnets.find(s => {
+        const start = ipToBigInt(s.networkAddress);
+        return address >= start && address < start + blockSize(s.cidr);
+      });
+      const location = locate(address);
+      expect(location.kind === 'subnet' ? location.rowId : undefined).toBe(owner?.id);
+      if (owner && location.kind === 'subnet') {
+        expect(bigIntToIp(ipToBigInt(owner.networkAddress) + BigInt(location.offset))).toBe(bigIntToIp(address));
+      }
+    }));
+  });
+});
@@ -0,0 +1,146 @@
+// Finds the part of a plan on screen that owns an address. Plans are indexed once so each lookup
+// is arithmetic (standard plans) or a binary search (VLSM plans) instead of a scan of every subnet.
+import { CalculationResult, VlsmCalculationResult } from './types';
+import { bigIntToIp, blockSize, ipToBigInt, parseIp, parseIpv4Range } from './ipv4';
+import { buildVlsmTree, flattenVlsmTree, formatPath } from './vlsmTree';
+
+// Where an address sits in its subnet. Point-to-point /31 links and /32 host routes have no
+// network or broadcast address.
+export type AddressRole = 'network' | 'broadcast' | 'host';
+
+// `rowId` identifies the table row to highlight: the subnet id, the reservation index or the
+// free prefix.
+export type AddressLocation =
+  | { kind: 'subnet'; rowId: string; name: string; block: string; offset: number; role: AddressRole }
+  | { kind: 'reserved'; rowId: string; name: string; block: string; offset: number }
+  | { kind: 'unallocated'; rowId: string; block: string }
+  // Free space left inside a container of a hierarchical plan.
+  | { kind: 'container'; rowId: string; name: string; block: string }
+  // Not in the plan's network at all; `block` is that network.
+  | { kind: 'outside'; block: string };
+
+export type AddressLookupResult = { input: string; address: string } & AddressLocation | { input: string; error: string };
+
+export type AddressLocator = (address: bigint) => AddressLocation;
+
+const roleOf = (offset: bigint, cidr: number, pointToPoint: boolean): AddressRole => {
+  if (pointToPoint && cidr >= 31) return 'host';
+  if (offset === 0n) return 'network';
+  return offset === blockSize(cidr) - 1n ? 'broadcast' : 'host';
+};
+
+// Subnets of a standard plan are consecutive equal blocks, so the owner follows from the offset.
+export const standardPlanLocator = (result: CalculationResult): AddressLocator => {
+  const base = parseIpv4Range(result.parentNetwork);
+  const size = blockSize(result.cidr);
+  return (address) => {
+    if (address < base.start || address > base.end) return { kind: 'outside', block: result.parentNetwork };
+    const index = (address - base.start) / size;
+    const network = base.start + index * size;
+    const offset = address - network;
+    return {
+      kind: 'subnet',
+      rowId: String(index + 1n),
+      name: `Subnet ${index + 1n}`,
+      block: `${bigIntToIp(network)}/${result.cidr}`,
+      offset: Number(offset),
+      role: roleOf(offset, result.cidr, result.pointToPoint ?? false),
+    };
+  };
+};
+
+interface Interval {
+  start: bigint;
+  end: bigint;
+  locate: (address: bigint) => AddressLocation;
+}
+
+// Subnets, reservations and free prefixes are disjoint, so one sorted list covers them all.
+// Space they leave is inside a container, which is found among the (few) containers.
+export const vlsmPlanLocator = (result: VlsmCalculationResult): AddressLocator => {
+  const base = parseIpv4Range(result.baseNetwork);
+  // Full path of every subnet and container by id.
+  const paths = new Map(flattenVlsmTree(buildVlsmTree(result)).map(node => [node.block.id, formatPath(node.path)]));
+  const intervals: Interval[] = [
+    ...result.allocatedSubnets.map((s): Interval => {
+      const start = ipToBigInt(s.networkAddress);
+      return {
+        start,
+        end: start + blockSize(s.cidr) - 1n,
+        locate: (address) => ({
+          kind: 'subnet', rowId: s.id, name: paths.get(s.id) ?? s.name, block: `${s.networkAddress}/${s.cidr}`,
+          offset: Number(address - start), role: roleOf(address - start, s.cidr, s.kind !== undefined),
+        }),
+      };
+    }),
+    ...(result.reservedRanges ?? []).map((r, i): Interval => {
+      const start = ipToBigInt(r.firstAddress);
+      return {
+        start,
+        end: ipToBigInt(r.lastAddress),
+        locate: (address) => ({ kind: 'reserved', rowId: String(i), name: r.name, block: r.range, offset: Number(address - start) }),
+      };
+    }),
+    ...result.unallocatedRanges.map((r): Interval => {
+      const start = ipToBigInt(r.networkAddress);
+      const block = `${r.networkAddress}/${r.cidr}`;
+      return { start, end: start + blockSize(r.cidr) - 1n, locate: () => ({ kind: 'unallocated', rowId: r.networkAddress, block }) };
+    }),
+  ].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  // Smallest first, so the first container holding an address is the innermost one.
+  const containers = [...(result.containers ?? [])].sort((a, b) => b.cidr - a.cidr);
+
+  return (address) => {
+    if (address < base.start || address > base.end) return { kind: 'outside', block: result.baseNetwork };
+    let low = 0;
+    let high = intervals.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (intervals[mid].start <= address) low = mid + 1;
+      else high = mid - 1;
+    }
+    const candidate = intervals[high];
+    if (candidate && candidate.end >= address) return candidate.locate(address);
+
+    const container = containers.find(c => {
+      const start = ipToBigInt(c.networkAddress);
+      return address >= start && address < start + blockSize(c.cidr);
+    });
+    if (container) {
+      return { kind: 'container', rowId: container.id, name: paths.get(container.id) ?? container.name, block: `${container.networkAddress}/${container.cidr}` };
+    }
+    // Not reachable for consistent plans: allocations, reservations, free space and containers
+    // tile the base network.
+    return { kind: 'outside', block: result.baseNetwork };
+  };
+};
+
+// Looks up every address of a list separated by spaces, commas, semicolons or new lines.
+export const lookupAddresses = (text: string, locate: AddressLocator): AddressLookupResult[] =>
+  text.split(/[\s,;]+/).filter(entry => entry.length > 0).map(input => {
+    let address: bigint;
+    try {
+      address = parseIp(input);
+    } catch (e) {
+      return { input, error: (e as Error).message };
+    }
+    return { input, address: bigIntToIp(address), ...locate(address) };
+  });
+
+const ROLE_LABELS: Record<AddressRole, string> = { network: 'network address', broadcast: 'broadcast address', host: 'host' };
+
+// One-line answer for the lookup list, e.g. "Subnet 149 (172.16.37.192/26), host +9".
+export const describeLocation = (location: AddressLocation): string => {
+  switch (location.kind) {
+    case 'subnet':
+      return `${location.name} (${location.block}), ${location.role === 'host' ? `host +${location.offset}` : ROLE_LABELS[location.role]}`;
+    case 'reserved':
+      return `Reserved range '${location.name}' (${location.block}), offset +${location.offset}`;
+    case 'unallocated':
+      return `Unallocated space ${location.block}`;
+    case 'container':
+      return `Unused space in ${location.name} (${location.block})`;
+    case 'outside':
+      return `Outside the plan (${location.block})`;
+  }
+};
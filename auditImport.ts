@@ -0,0 +1,61 @@
+// Turns pasted text, exported CSV/XLSX tables and plan JSON files into named subnets for the
+// address plan audit.
+import { AuditSubnetInput } from './types';
+import { parsePlanDocument } from './planFormat';
+import { subnetPaths } from './vlsmTree';
+
+// An address, optionally followed by a prefix, a mask or the rest of a range.
+const NETWORK_PATTERN = /\d{1,3}(?:\.\d{1,3}){3}(?:\s*\/\s*[\d.]+|\s+\d{1,3}(?:\.\d{1,3}){3}(?![\d.])|\s*-\s*\d{1,3}(?:\.\d{1,3}){3})?/;
+
+// Reads one subnet per line, as "Name, network", "network Name" or just the network. Lines
+// without anything that looks like an address are kept whole as the network so the audit
+// reports them.
+export const parseAuditText = (text: string): AuditSubnetInput[] =>
+  text.split('\n').map(line => line.trim()).filter(line => line.length > 0).map(line => {
+    const match = NETWORK_PATTERN.exec(line);
+    if (!match) return { name: '', network: line };
+    const name = (line.slice(0, match.index) + ' ' + line.slice(match.index + match[0].length))
+      .replace(/^[\s,;:\t]+|[\s,;:\t]+$/g, '')
+      .replace(/\s+/g, ' ');
+    return { name, network: match[0] };
+  });
+
+// Inverse of parseAuditText, used to put imported subnets into the text box.
+export const formatAuditText = (subnets: AuditSubnetInput[]): string =>
+  subnets.map(s => (s.name ? `${s.name}, ${s.network}` : s.network)).join('\n');
+
+// Allocated subnets and reservations of a saved plan, named by their full path.
+export const auditSubnetsFromPlan = (text: string): AuditSubnetInput[] => {
+  const { result } = parsePlanDocument(text);
+  if (!result) throw new Error("The plan file has no allocations to audit. Calculate and export the plan first.");
+  const paths = subnetPaths(result);
+  return [
+    ...result.allocatedSubnets.map(s => ({ name: paths.get(s.id) ?? s.name, network: `${s.networkAddress}/${s.cidr}` })),
+    ...(result.reservedRanges ?? []).map(r => ({ name: `Reserved: ${r.name}`, network: r.range })),
+  ];
+};
+
+const findColumn = (header: string[], pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+
+// Subnet tables such as the CSV export of a VLSM plan: the first row naming a network column is
+// the header; the prefix comes from a CIDR or mask column when the network column lacks one.
+// Container rows of hierarchical plans are skipped since their subnets are listed too.
+export const auditSubnetsFromSheet = (rows: string[][]): AuditSubnetInput[] => {
+  const headerIndex = rows.findIndex(row => findColumn(row, /network|prefix/i) !== -1);
+  if (headerIndex === -1) throw new Error("No column named 'Network Address' or 'Prefix' was found.");
+  const header = rows[headerIndex];
+  const network = findColumn(header, /network|prefix/i);
+  const name = findColumn(header, /name|path/i);
+  const cidr = findColumn(header, /^cidr$/i);
+  const mask = findColumn(header, /mask/i);
+  const type = findColumn(header, /^type$/i);
+
+  return rows.slice(headerIndex + 1)
+    .filter(row => (row[network] ?? '').trim() && !(type !== -1 && /container/i.test(row[type] ?? '')))
+    .map(row => {
+      const address = row[network].trim();
+      const prefix = cidr !== -1 && row[cidr]?.trim() ? `/${row[cidr].trim().replace(/^\//, '')}`
+        : mask !== -1 && row[mask]?.trim() ? ` ${row[mask].trim()}` : '';
+      return { name: name !== -1 ? (row[name] ?? '').trim() : '', network: address.includes('/') ? address : `${address}${prefix}` };
+    });
+};
@@ -0,0 +1,524 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  SUBNET_PAGE_SIZE, VLSM_ALLOCATION_STRATEGIES, calculateSubnetting, calculateVlsm, standardSubnetAt, standardSubnetPage,
+} from './calculations';
+import { bigIntToIp, blockSize, hostBitsForHosts, ipToBigInt } from './ipv4';
+import { AddressingMode, CalculationMode, VlsmAllocationStrategy, VlsmSubnetRequest } from './types';
+import { lockedBlocks, subnetPaths } from './vlsmTree';
+
+describe('calculateSubnetting', () => {
+  it('splits a classless parent prefix into the requested number of subnets', () => {
+    const result = calculateSubnetting({
+      calculationMode: CalculationMode.SUBNETS,
+      addressingMode: AddressingMode.CLASSLESS,
+      ipAddress: '10.20.0.0',
+      parentCidr: 20,
+      requiredSubnets: 8,
+    });
+    expect(result.cidr).toBe(23);
+    expect(result.totalSubnets).toBe(8);
+    expect(result.hostsPerSubnet).toBe(510);
+    expect(result.parentNetwork).toBe('10.20.0.0/20');
+    expect(standardSubnetAt(result, 8)).toEqual({
+      id: 8,
+      networkAddress: '10.20.14.0',
+      usableHostRange: '10.20.14.1 - 10.20.15.254',
+      broadcastAddress: '10.20.15.255',
+    });
+  });
+
+  it('anchors on the class default mask in classful mode', () => {
+    const result = calculateSubnetting({
+      calculationMode: CalculationMode.HOSTS,
+      addressingMode: AddressingMode.CLASSFUL,
+      ipAddress: '192.168.1.77',
+      requiredHosts: 14,
+    });
+    expect(result.ipClass).toBe('C');
+    expect(result.defaultMask).toBe('255.255.255.0');
+    expect(result.cidr).toBe(28);
+    expect(result.totalSubnets).toBe(16);
+    expect(standardSubnetAt(result, 1).networkAddress).toBe('192.168.1.0');
+  });
+
+  it.each(['224.0.0.1', '239.255.255.255', '240.0.0.1'])('rejects Class D/E address %s', (ipAddress) => {
+    expect(() => calculateSubnetting({
+      calculationMode: CalculationMode.SUBNETS,
+      addressingMode: AddressingMode.CLASSLESS,
+      ipAddress,
+      parentCidr: 8,
+      requiredSubnets: 2,
+    })).toThrow(/Class [DE] and cannot be subnetted/);
+  });
+
+  it('subnets 0.0.0.0 and 127.0.0.0 networks in classless mode only', () => {
+    const loopback = calculateSubnetting({
+      calculationMode: CalculationMode.SUBNETS, addressingMode: AddressingMode.CLASSLESS, ipAddress: '127.0.0.0', parentCidr: 8, requiredSubnets: 4,
+    });
+    expect(loopback).toMatchObject({ cidr: 10, totalSubnets: 4, ipClass: 'A', parentNetwork: '127.0.0.0/8' });
+    expect(standardSubnetAt(loopback, 4).networkAddress).toBe('127.192.0.0');
+    const everything = calculateSubnetting({
+      calculationMode: CalculationMode.SUBNETS, addressingMode: AddressingMode.CLASSLESS, ipAddress: '0.0.0.0', parentCidr: 0, requiredSubnets: 2,
+    });
+    expect(standardSubnetAt(everything, 2).networkAddress).toBe('128.0.0.0');
+
+    expect(() => calculateSubnetting({
+      calculationMode: CalculationMode.SUBNETS, addressingMode: AddressingMode.CLASSFUL, ipAddress: '127.0.0.0', requiredSubnets: 4,
+    })).toThrow('reserved 127.0.0.0 network');
+  });
+
+  it('describes huge splits without listing their subnets', () => {
+    const result = calculateSubnetting({
+      calculationMode: CalculationMode.MASK,
+      addressingMode: AddressingMode.CLASSLESS,
+      ipAddress: '10.0.0.0',
+      parentCidr: 8,
+      mask: '/30',
+    });
+    expect(result.totalSubnets).toBe(2 ** 22);
+    expect(result).not.toHaveProperty('subnets');
+    expect(standardSubnetAt(result, 1_000_000)).toEqual({
+      id: 1_000_000,
+      networkAddress: '10.61.8.252',
+      usableHostRange: '10.61.8.253 - 10.61.8.254',
+      broadcastAddress: '10.61.8.255',
+    });
+
+    const everything = calculateSubnetting({
+      calculationMode: CalculationMode.SUBNETS,
+      addressingMode: AddressingMode.CLASSLESS,
+      ipAddress: '10.0.0.0',
+      parentCidr: 8,
+      requiredSubnets: 2 ** 24,
+      pointToPoint: true,
+    });
+    expect(everything.totalSubnets).toBe(2 ** 24);
+    expect(standardSubnetAt(everything, 2 ** 24)).toMatchObject({ networkAddress: '10.255.255.255', usableHostRange: '10.255.255.255' });
+  });
+
+  it('generates any page of subnets by index', () => {
+    const result = calculateSubnetting({
+      calculationMode: CalculationMode.MASK,
+      addressingMode: AddressingMode.CLASSLESS,
+      ipAddress: '10.0.0.0',
+      parentCidr: 8,
+      mask: '255.255.255.0',
+    });
+    expect(standardSubnetPage(result, 0, SUBNET_PAGE_SIZE)).toHaveLength(65536);
+    expect(standardSubnetPage(result, 65534, 10).map(s => [s.id, s.networkAddress])).toEqual([[65535, '10.255.254.0'], [65536, '10.255.255.0']]);
+    expect(() => standardSubnetPage(result, 65536, 10)).toThrow('Subnet #65537 does not exist. The plan has 65,536 subnets.');
+    expect(() => standardSubnetAt(result, 0)).toThrow('Subnet #0 does not exist.');
+  });
+
+  it('rejects masks shorter than the parent prefix', () => {
+    expect(() => calculateSubnetting({
+      calculationMode: CalculationMode.MASK,
+      addressingMode: AddressingMode.CLASSLESS,
+      ipAddress: '10.20.0.0',
+      parentCidr: 20,
+      mask: '/19',
+    })).toThrow('Provided mask /19 is shorter than the parent prefix /20.');
+  });
+
+  it('requires a parent prefix in classless mode', () => {
+    expect(() => calculateSubnetting({
+      calculationMode: CalculationMode.SUBNETS,
+      addressingMode: AddressingMode.CLASSLESS,
+      ipAddress: '10.20.0.0',
+      requiredSubnets: 2,
+    })).toThrow(/parent prefix length/);
+  });
+
+  it('uses every address of /31 and /32 subnets with pointToPoint', () => {
+    const base = { addressingMode: AddressingMode.CLASSLESS, ipAddress: '10.0.0.0', parentCidr: 29 };
+    const links = calculateSubnetting({ ...base, calculationMode: CalculationMode.MASK, mask: '/31', pointToPoint: true });
+    expect(links.hostsPerSubnet).toBe(2);
+    expect(standardSubnetAt(links, 2)).toEqual({ id: 2, networkAddress: '10.0.0.2', usableHostRange: '10.0.0.2 - 10.0.0.3', broadcastAddress: '10.0.0.3' });
+    const unusable = calculateSubnetting({ ...base, calculationMode: CalculationMode.MASK, mask: '/31' });
+    expect(unusable.hostsPerSubnet).toBe(0);
+    expect(standardSubnetAt(unusable, 1).usableHostRange).toBe('N/A');
+
+    const hosts = calculateSubnetting({ ...base, calculationMode: CalculationMode.HOSTS, requiredHosts: 1, pointToPoint: true });
+    expect(hosts).toMatchObject({ cidr: 32, totalSubnets: 8, hostsPerSubnet: 1 });
+    expect(standardSubnetAt(hosts, 8).usableHostRange).toBe('10.0.0.7');
+    expect(calculateSubnetting({ ...base, calculationMode: CalculationMode.HOSTS, requiredHosts: 2, pointToPoint: true }).cidr).toBe(31);
+    expect(calculateSubnetting({ ...base, calculationMode: CalculationMode.SUBNETS, requiredSubnets: 8, pointToPoint: true }).cidr).toBe(32);
+    expect(() => calculateSubnetting({ ...base, calculationMode: CalculationMode.SUBNETS, requiredSubnets: 4 })).toThrow('Not enough host bits');
+  });
+});
+
+const groupsArbitrary = fc.array(
+  fc.record({
+    hosts: fc.integer({ min: 1, max: 2000 }),
+    count: fc.integer({ min: 1, max: 4 }),
+  }),
+  { minLength: 1, maxLength: 6 },
+).map((groups): VlsmSubnetRequest[] => groups.map((g, i) => ({ id: `g${i}`, name: `Group ${i + 1}`, ...g })));
+
+const baseNetworkArbitrary = fc.integer({ min: 8, max: 28 }).chain(cidr =>
+  fc.bigInt({ min: 0n, max: (1n << BigInt(cidr)) - 1n }).map(prefix => ({
+    cidr,
+    ipAddress: bigIntToIp(prefix << BigInt(32 - cidr)),
+  })),
+);
+
+const requiredSpace = (groups: VlsmSubnetRequest[]) =>
+  groups.reduce((sum, g) => sum + (1n << BigInt(hostBitsForHosts(g.hosts))) * BigInt(g.count), 0n);
+
+describe('calculateVlsm', () => {
+  it('fails when the groups do not fit in the base block', () => {
+    expect(() => calculateVlsm({
+      ipAddress: '192.168.1.0',
+      cidr: 28,
+      subnets: [{ id: 'a', name: 'LANs', hosts: 30, count: 2 }],
+    })).toThrow('Not enough address space in the network 192.168.1.0/28 to fit all requested subnets.');
+  });
+
+  it('rejects a host address in place of the network address', () => {
+    expect(() => calculateVlsm({
+      ipAddress: '192.168.1.5',
+      cidr: 24,
+      subnets: [{ id: 'a', name: 'LANs', hosts: 10, count: 1 }],
+    })).toThrow('The provided IP address (192.168.1.5) is a host address, not a network address for the /24 block. Please use 192.168.1.0.');
+  });
+
+  it('rejects an empty group list', () => {
+    expect(() => calculateVlsm({ ipAddress: '10.0.0.0', cidr: 8, subnets: [] })).toThrow(/at least one subnet group/);
+  });
+
+  it('reports each top-level allocation as it is placed', () => {
+    const progress: number[] = [];
+    calculateVlsm({
+      ipAddress: '10.0.0.0',
+      cidr: 24,
+      subnets: [
+        { id: 'site', name: 'Site', hosts: 0, count: 2, children: [{ id: 'lan', name: 'LAN', hosts: 20, count: 2 }] },
+        { id: 'mgmt', name: 'Mgmt', hosts: 10, count: 1 },
+      ],
+    }, p => {
+      expect(p).toMatchObject({ label: 'allocations placed', total: 3 });
+      progress.push(p.done);
+    });
+    expect(progress).toEqual([1, 2, 3]);
+  });
+
+  it('allocates aligned, non-overlapping subnets inside the base block', () => {
+    fc.assert(fc.property(baseNetworkArbitrary, groupsArbitrary, ({ ipAddress, cidr }, subnets) => {
+      const baseInt = ipToBigInt(ipAddress);
+      const baseEnd = baseInt + blockSize(cidr);
+      const fits = requiredSpace(subnets) <= blockSize(cidr);
+
+      let result;
+      try {
+        result = calculateVlsm({ ipAddress, cidr, subnets });
+      } catch (e) {
+        // Largest-first packing of power-of-two blocks only fails when the space is truly exhausted.
+        expect(fits).toBe(false);
+        expect((e as Error).message).toMatch(/^Not enough address space/);
+        return;
+      }
+      expect(fits).toBe(true);
+
+      const blocks = result.allocatedSubnets
+        .map(s => ({ start: ipToBigInt(s.networkAddress), size: blockSize(s.cidr), s }))
+        .sort((a, b) => (a.start < b.start ? -1 : 1));
+
+      blocks.forEach(({ start, size, s }, i) => {
+        expect(start % size).toBe(0n);
+        expect(start >= baseInt && start + size <= baseEnd).toBe(true);
+        expect(ipToBigInt(s.broadcastAddress)).toBe(start + size - 1n);
+        if (i > 0) {
+          const previous = blocks[i - 1];
+          expect(previous.start + previous.size <= start).toBe(true);
+        }
+      });
+    }));
+  });
+
+  it('allocates around reserved ranges and reports them with the free gaps', () => {
+    const result = calculateVlsm({
+      ipAddress: '10.0.0.0',
+      cidr: 24,
+      subnets: [{ id: 'a', name: 'LANs', hosts: 50, count: 2 }, { id: 'b', name: 'Link', hosts: 2, count: 1 }],
+      reservations: [{ name: 'Servers', range: '10.0.0.0/26' }, { name: 'Printers', range: '10.0.0.130 - 10.0.0.140' }],
+    });
+
+    expect(result.allocatedSubnets.map(s => `${s.name} ${s.networkAddress}/${s.cidr}`)).toEqual([
+      'LANs 1 10.0.0.64/26', 'LANs 2 10.0.0.192/26', 'Link 10.0.0.144/30',
+    ]);
+    expect(result.reservedRanges).toEqual([
+      { name: 'Servers', range: '10.0.0.0/26', firstAddress: '10.0.0.0', lastAddress: '10.0.0.63', size: '64' },
+      { name: 'Printers', range: '10.0.0.130 - 10.0.0.140', firstAddress: '10.0.0.130', lastAddress: '10.0.0.140', size: '11' },
+    ]);
+    expect(result.unallocatedRanges.map(r => `${r.networkAddress}/${r.cidr}`)).toEqual([
+      '10.0.0.128/31', '10.0.0.141/32', '10.0.0.142/31', '10.0.0.148/30', '10.0.0.152/29', '10.0.0.160/27',
+    ]);
+  });
+
+  it('names the group that cannot fit around the reservations', () => {
+    expect(() => calculateVlsm({
+      ipAddress: '10.0.0.0',
+      cidr: 24,
+      subnets: [{ id: 'a', name: 'LANs', hosts: 100, count: 2 }],
+      reservations: [{ name: 'Core', range: '10.0.0.200' }],
+    })).toThrow("Subnet 'LANs 2' of group 'LANs' needs a /25 (128 addresses) but no free aligned block is left in 10.0.0.0/24 around the reserved ranges Core (10.0.0.200/32).");
+  });
+
+  it('rejects reservations outside the base network', () => {
+    expect(() => calculateVlsm({
+      ipAddress: '10.0.0.0',
+      cidr: 24,
+      subnets: [{ id: 'a', name: 'LANs', hosts: 10, count: 1 }],
+      reservations: [{ name: 'Elsewhere', range: '10.0.1.0/28' }],
+    })).toThrow("Reserved range 'Elsewhere' (10.0.1.0/28) is not inside the base network 10.0.0.0/24.");
+  });
+
+  it('never allocates over a reserved range and reports the rest as aligned free blocks', () => {
+    const reservationArbitrary = fc.record({ offset: fc.integer({ min: 0, max: 4095 }), length: fc.integer({ min: 1, max: 300 }) });
+    fc.assert(fc.property(groupsArbitrary, fc.array(reservationArbitrary, { maxLength: 4 }), (subnets, raw) => {
+      const reservations = raw.map((r, i) => ({
+        name: `R${i}`,
+        range: `${bigIntToIp(0x0a000000n + BigInt(r.offset))} - ${bigIntToIp(0x0a000000n + BigInt(Math.min(4095, r.offset + r.length - 1)))}`,
+      }));
+      let result;
+      try {
+        result = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 20, subnets, reservations });
+      } catch (e) {
+        expect((e as Error).message).toMatch(/^(Not enough address space|Subnet '.+' of group)/);
+        return;
+      }
+      for (const s of result.allocatedSubnets) {
+        const start = ipToBigInt(s.networkAddress);
+        const end = start + blockSize(s.cidr) - 1n;
+        for (const r of result.reservedRanges ?? []) {
+          expect(end < ipToBigInt(r.firstAddress) || start > ipToBigInt(r.lastAddress)).toBe(true);
+        }
+      }
+
+      // With disjoint reservations, allocations, reservations and the aligned free blocks
+      // account for every address exactly once.
+      const reserved = result.reservedRanges ?? [];
+      if (reserved.some((r, i) => reserved.slice(i + 1).some(o =>
+        ipToBigInt(r.lastAddress) >= ipToBigInt(o.firstAddress) && ipToBigInt(r.firstAddress) <= ipToBigInt(o.lastAddress)))) return;
+      const covered = [
+        ...result.allocatedSubnets.map(s => blockSize(s.cidr)),
+        ...reserved.map(r => BigInt(r.size)),
+        ...result.unallocatedRanges.map(r => {
+          expect(ipToBigInt(r.networkAddress) % blockSize(r.cidr)).toBe(0n);
+          expect(BigInt(r.size)).toBe(blockSize(r.cidr));
+          return blockSize(r.cidr);
+        }),
+      ].reduce((sum, size) => sum + size, 0n);
+      expect(covered).toBe(blockSize(20));
+    }));
+  });
+
+  const place = (strategy: VlsmAllocationStrategy, subnets: VlsmSubnetRequest[], reservations: { name: string; range: string }[] = []) =>
+    calculateVlsm({ ipAddress: '10.0.0.0', cidr: 24, subnets, reservations, strategy }).allocatedSubnets.map(s => `${s.networkAddress}/${s.cidr}`);
+
+  it('keeps the input order with input-order', () => {
+    const subnets = [{ id: 'a', name: 'Link', hosts: 2, count: 1 }, { id: 'b', name: 'LAN', hosts: 100, count: 1 }];
+    expect(place('largest-first', subnets)).toEqual(['10.0.0.0/25', '10.0.0.128/30']);
+    expect(place('input-order', subnets)).toEqual(['10.0.0.0/30', '10.0.0.128/25']);
+  });
+
+  it('puts subnets into the smallest gap that fits with best-fit', () => {
+    const subnets = [{ id: 'a', name: 'LAN', hosts: 10, count: 1 }];
+    const reservations = [{ name: 'A', range: '10.0.0.64/26' }, { name: 'B', range: '10.0.0.144 - 10.0.0.255' }];
+    expect(place('largest-first', subnets, reservations)).toEqual(['10.0.0.0/28']);
+    expect(place('best-fit', subnets, reservations)).toEqual(['10.0.0.128/28']);
+  });
+
+  it('leaves room to double with spread and packs tightly once that room runs out', () => {
+    expect(place('spread', [{ id: 'a', name: 'LAN', hosts: 50, count: 2 }])).toEqual(['10.0.0.0/26', '10.0.0.128/26']);
+    expect(place('spread', [{ id: 'a', name: 'LAN', hosts: 50, count: 3 }])).toEqual(['10.0.0.0/26', '10.0.0.128/26', '10.0.0.64/26']);
+
+    const result = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 24, subnets: [{ id: 'a', name: 'LAN', hosts: 50, count: 2 }], strategy: 'spread' });
+    expect(result.strategy).toBe('spread');
+    expect(result.unallocatedRanges.map(r => `${r.networkAddress}/${r.cidr}`)).toEqual(['10.0.0.64/26', '10.0.0.192/26']);
+    expect(result.fragmentation).toBe(50);
+  });
+
+  it('gives point-to-point links a /31 and loopbacks a /32', () => {
+    const subnets: VlsmSubnetRequest[] = [
+      { id: 'links', name: 'Links', hosts: 2, count: 2, kind: 'p2p' },
+      { id: 'loopbacks', name: 'Loopbacks', hosts: 1, count: 2, kind: 'loopback' },
+    ];
+    const result = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 29, subnets });
+    expect(result.allocatedSubnets.map(s => [`${s.networkAddress}/${s.cidr}`, s.kind, s.allocatedHosts, s.usableHostRange, s.broadcastAddress])).toEqual([
+      ['10.0.0.0/31', 'p2p', 2, '10.0.0.0 - 10.0.0.1', '10.0.0.1'],
+      ['10.0.0.2/31', 'p2p', 2, '10.0.0.2 - 10.0.0.3', '10.0.0.3'],
+      ['10.0.0.4/32', 'loopback', 1, '10.0.0.4', '10.0.0.4'],
+      ['10.0.0.5/32', 'loopback', 1, '10.0.0.5', '10.0.0.5'],
+    ]);
+    expect(result).toMatchObject({ totalRequiredHosts: 6, totalAllocatedHosts: 6, efficiency: 100 });
+  });
+
+  it('keeps LAN groups of one or two hosts on a /30 next to point-to-point links', () => {
+    const result = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 28, subnets: [
+      { id: 'wan', name: 'WAN', hosts: 2, count: 1, kind: 'p2p' },
+      { id: 'lan', name: 'Printers', hosts: 2, count: 1 },
+      { id: 'mgmt', name: 'Management', hosts: 1, count: 1, kind: 'lan' },
+    ] });
+    expect(result.allocatedSubnets.map(s => [s.name, s.cidr, s.kind])).toEqual([
+      ['Printers', 30, undefined],
+      ['Management', 30, undefined],
+      ['WAN', 31, 'p2p'],
+    ]);
+    expect(() => calculateVlsm({ ipAddress: '10.0.0.0', cidr: 24, subnets: [{ id: 'a', name: 'Link', hosts: 2, count: 1, growth: 50, kind: 'p2p' }] }))
+      .toThrow("Invalid number of hosts for subnet 'Link'. A point-to-point link holds at most 2 hosts and has no growth.");
+    expect(() => calculateVlsm({ ipAddress: '10.0.0.0', cidr: 24, subnets: [{ id: 'a', name: 'Lo', hosts: 2, count: 1, kind: 'loopback' }] }))
+      .toThrow('A loopback holds at most 1 host');
+  });
+
+  it('keeps locked allocations in place and fits new or enlarged groups around them', () => {
+    const base = { ipAddress: '10.0.0.0', cidr: 23 };
+    const before = calculateVlsm({ ...base, subnets: [{ id: 'lan', name: 'LANs', hosts: 50, count: 2 }, { id: 'link', name: 'Links', hosts: 2, count: 2 }] });
+    const after = calculateVlsm({
+      ...base,
+      subnets: [
+        { id: 'a', name: 'Servers', hosts: 100, count: 1 },
+        { id: 'b', name: 'LANs', hosts: 20, count: 2 },
+        { id: 'c', name: 'Links', hosts: 5, count: 2 },
+      ],
+      locked: lockedBlocks(before),
+    });
+    const blocks = (result: typeof after) => Object.fromEntries(result.allocatedSubnets.map(s => [s.name, `${s.networkAddress}/${s.cidr} ${s.allocatedHosts}`]));
+    expect(blocks(before)).toEqual({ 'LANs 1': '10.0.0.0/26 62', 'LANs 2': '10.0.0.64/26 62', 'Links 1': '10.0.0.128/30 2', 'Links 2': '10.0.0.132/30 2' });
+    expect(blocks(after)).toEqual({
+      'LANs 1': '10.0.0.0/26 62',
+      'LANs 2': '10.0.0.64/26 62',
+      'Links 1': '10.0.0.128/29 6',
+      'Links 2': '10.0.0.136/29 6',
+      'Servers': '10.0.1.0/25 126',
+    });
+  });
+
+  it('keeps locked containers and places new sub-groups inside them', () => {
+    const subnets: VlsmSubnetRequest[] = [{ id: 'site', name: 'Site', hosts: 0, count: 2, growth: 100, children: [{ id: 'users', name: 'Users', hosts: 100, count: 1 }] }];
+    const before = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 22, subnets });
+    const after = calculateVlsm({
+      ipAddress: '10.0.0.0',
+      cidr: 22,
+      subnets: [{ ...subnets[0], children: [{ id: 'voice', name: 'Voice', hosts: 20, count: 1 }, ...subnets[0].children!] }],
+      locked: lockedBlocks(before),
+    });
+    const paths = (result: typeof after) => {
+      const byId = subnetPaths(result);
+      return Object.fromEntries(result.allocatedSubnets.map(s => [byId.get(s.id), `${s.networkAddress}/${s.cidr}`]));
+    };
+    expect(paths(before)).toEqual({ 'Site 1 / Users': '10.0.0.0/25', 'Site 2 / Users': '10.0.1.0/25' });
+    expect(paths(after)).toEqual({
+      'Site 1 / Users': '10.0.0.0/25',
+      'Site 1 / Voice': '10.0.0.128/27',
+      'Site 2 / Users': '10.0.1.0/25',
+      'Site 2 / Voice': '10.0.1.128/27',
+    });
+    expect(after.containers!.map(c => `${c.networkAddress}/${c.cidr}`)).toEqual(['10.0.0.0/24', '10.0.1.0/24']);
+  });
+
+  it('explains when new groups only fit by repacking the locked allocations', () => {
+    const before = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 24, subnets: [{ id: 'a', name: 'LAN', hosts: 50, count: 2 }], strategy: 'spread' });
+    const grown = { ipAddress: '10.0.0.0', cidr: 24, subnets: [{ id: 'a', name: 'LAN', hosts: 50, count: 2 }, { id: 'b', name: 'DMZ', hosts: 100, count: 1 }] };
+    expect(before.allocatedSubnets.map(s => s.networkAddress)).toEqual(['10.0.0.0', '10.0.0.128']);
+    expect(() => calculateVlsm({ ...grown, locked: lockedBlocks(before) }))
+      .toThrow("Subnet 'DMZ' of group 'DMZ' needs a /25 (128 addresses) but no free aligned block is left in 10.0.0.0/24 around the locked allocations. Recalculate without locking to repack the plan.");
+    expect(calculateVlsm(grown).allocatedSubnets).toHaveLength(3);
+    expect(() => calculateVlsm({ ...grown, locked: [{ path: 'LAN 1', network: '10.0.0.1/26' }] }))
+      .toThrow("Locked block 'LAN 1' must be a network in CIDR notation, e.g. 10.0.1.0/25. Received: 10.0.0.1/26");
+  });
+
+  it('sizes subnets for the growth headroom', () => {
+    const result = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 24, subnets: [{ id: 'a', name: 'LAN', hosts: 50, count: 1, growth: 50 }] });
+    expect(result.allocatedSubnets[0]).toMatchObject({ requiredHosts: 50, plannedHosts: 75, allocatedHosts: 126, cidr: 25 });
+    expect(result.strategy).toBe('largest-first');
+    expect(result.fragmentation).toBe(0);
+    expect(() => calculateVlsm({ ipAddress: '10.0.0.0', cidr: 24, subnets: [{ id: 'a', name: 'LAN', hosts: 5, count: 1, growth: -10 }] }))
+      .toThrow("Invalid growth for group 'LAN'. Must be a percentage of zero or more.");
+  });
+
+  it('allocates aligned, non-overlapping subnets with every strategy', () => {
+    fc.assert(fc.property(fc.constantFrom(...VLSM_ALLOCATION_STRATEGIES), groupsArbitrary, (strategy, subnets) => {
+      let result;
+      try {
+        result = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 16, subnets, strategy });
+      } catch (e) {
+        // Every strategy except input-order places the largest subnets first, which only fails when space runs out.
+        if (strategy !== 'input-order') expect(requiredSpace(subnets) > blockSize(16)).toBe(true);
+        expect((e as Error).message).toMatch(/^Not enough address space/);
+        return;
+      }
+      const blocks = result.allocatedSubnets
+        .map(s => ({ start: ipToBigInt(s.networkAddress), size: blockSize(s.cidr) }))
+        .sort((a, b) => (a.start < b.start ? -1 : 1));
+      blocks.forEach(({ start, size }, i) => {
+        expect(start % size).toBe(0n);
+        expect(start + size <= ipToBigInt('10.1.0.0')).toBe(true);
+        if (i > 0) expect(blocks[i - 1].start + blocks[i - 1].size <= start).toBe(true);
+      });
+    }));
+  });
+
+  it('allocates nested groups inside their container blocks', () => {
+    const result = calculateVlsm({
+      ipAddress: '10.0.0.0',
+      cidr: 22,
+      subnets: [
+        { id: 'wan', name: 'WAN', hosts: 2, count: 2 },
+        {
+          id: 'site', name: 'Site', hosts: 0, count: 2, children: [
+            { id: 'users', name: 'Users', hosts: 100, count: 1 },
+            { id: 'voice', name: 'Voice', hosts: 20, count: 1 },
+            { id: 'mgmt', name: 'Mgmt', hosts: 5, count: 1 },
+          ],
+        },
+      ],
+    });
+
+    expect(result.containers?.map(c => [c.id, `${c.networkAddress}/${c.cidr}`, c.lastAddress])).toEqual([
+      ['site-0', '10.0.0.0/24', '10.0.0.255'],
+      ['site-1', '10.0.1.0/24', '10.0.1.255'],
+    ]);
+    expect(result.allocatedSubnets.map(s => [s.id, s.parentId, `${s.networkAddress}/${s.cidr}`])).toEqual([
+      ['site-0/users-0', 'site-0', '10.0.0.0/25'],
+      ['site-0/voice-0', 'site-0', '10.0.0.128/27'],
+      ['site-0/mgmt-0', 'site-0', '10.0.0.160/29'],
+      ['site-1/users-0', 'site-1', '10.0.1.0/25'],
+      ['site-1/voice-0', 'site-1', '10.0.1.128/27'],
+      ['site-1/mgmt-0', 'site-1', '10.0.1.160/29'],
+      ['wan-0', undefined, '10.0.2.0/30'],
+      ['wan-1', undefined, '10.0.2.4/30'],
+    ]);
+    // Space left inside the sites belongs to them, so only the rest of the base block is free.
+    expect(result.unallocatedRanges[0]).toMatchObject({ networkAddress: '10.0.2.8', cidr: 29 });
+    expect(result.totalRequiredHosts).toBe(2 * 125 + 4);
+  });
+
+  it('pads container blocks by their growth and rejects containers that cannot fit', () => {
+    const site = { id: 'site', name: 'Site', hosts: 0, count: 1, children: [{ id: 'lan', name: 'LAN', hosts: 100, count: 1 }] };
+    expect(calculateVlsm({ ipAddress: '10.0.0.0', cidr: 22, subnets: [{ ...site, growth: 100 }] }).containers?.[0].cidr).toBe(24);
+    expect(calculateVlsm({ ipAddress: '10.0.0.0', cidr: 22, subnets: [site] }).containers?.[0].cidr).toBe(25);
+    expect(() => calculateVlsm({ ipAddress: '10.0.0.0', cidr: 26, subnets: [site] })).toThrow(/^Not enough address space/);
+  });
+
+  it('reports totals and efficiency consistent with the allocations', () => {
+    fc.assert(fc.property(groupsArbitrary, (subnets) => {
+      fc.pre(requiredSpace(subnets) <= blockSize(8));
+      const result = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 8, subnets });
+
+      const expectedCount = subnets.reduce((sum, g) => sum + g.count, 0);
+      const allocated = result.allocatedSubnets.reduce((sum, s) => sum + s.allocatedHosts, 0);
+      const required = result.allocatedSubnets.reduce((sum, s) => sum + s.requiredHosts, 0);
+
+      expect(result.allocatedSubnets).toHaveLength(expectedCount);
+      expect(result.totalAllocatedHosts).toBe(allocated);
+      expect(result.totalRequiredHosts).toBe(required);
+      expect(result.efficiency).toBeCloseTo((required / allocated) * 100, 10);
+      result.allocatedSubnets.forEach(s => {
+        expect(s.allocatedHosts).toBeGreaterThanOrEqual(s.requiredHosts);
+        expect(s.allocatedHosts).toBe(2 ** (32 - s.cidr) - 2);
+      });
+    }));
+  });
+});
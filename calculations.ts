@@ -0,0 +1,561 @@
+import {
+  AddressingMode,
+  CalculationMode,
+  CalculationPayload,
+  CalculationResult,
+  ProgressCallback,
+  ReservedRange,
+  Subnet,
+  SubnetKind,
+  UnallocatedRange,
+  VlsmAllocationStrategy,
+  VlsmCalculationPayload,
+  VlsmCalculationResult,
+  VlsmContainerResult,
+  VlsmLockedBlock,
+  VlsmReservation,
+  VlsmSubnetRequest,
+  VlsmSubnetResult,
+} from './types';
+import {
+  IPV4_BITS,
+  bigIntToIp,
+  blockSize,
+  formatIpv4Range,
+  getIpClassInfo,
+  hostBitsForHosts,
+  ipToBigInt,
+  networkAddress,
+  parseCidrNotation,
+  parseIp,
+  parseIpv4Range,
+  parseMask,
+  prefixToMask,
+  rangeToCidrs,
+  usableHostCount,
+  usableHostRange,
+} from './ipv4';
+import { formatPath } from './vlsmTree';
+
+// Subnets generated at a time for a standard result; the table pages through them and exports list the first page.
+export const SUBNET_PAGE_SIZE = 65536;
+
+export const calculateSubnetting = (payload: CalculationPayload): CalculationResult => {
+  const { ipAddress, calculationMode } = payload;
+  const ipInt = parseIp(ipAddress);
+  const classInfo = getIpClassInfo(ipAddress);
+  const classful = payload.addressingMode === AddressingMode.CLASSFUL;
+  const pointToPoint = payload.pointToPoint ?? false;
+
+  if (classInfo.class === 'D' || classInfo.class === 'E') {
+    throw new Error(`IP address ${ipAddress} is in Class ${classInfo.class} and cannot be subnetted.`);
+  }
+  const firstOctet = Number(ipInt >> 24n);
+  if (classful && (firstOctet === 0 || firstOctet === 127)) {
+    throw new Error(`IP address ${ipAddress} is in the reserved ${firstOctet}.0.0.0 network and has no classful network to subnet. Use classless mode instead.`);
+  }
+
+  let parentCidr = classInfo.defaultMaskBits!;
+  if (!classful) {
+    const { parentCidr: requestedCidr } = payload;
+    if (typeof requestedCidr !== 'number' || !Number.isInteger(requestedCidr) || requestedCidr < 0 || requestedCidr > IPV4_BITS) {
+      throw new Error("A parent prefix length between /0 and /32 is required in classless mode (e.g. 10.20.0.0/20).");
+    }
+    parentCidr = requestedCidr;
+  }
+  const parentLabel = classful ? `A Class ${classInfo.class} network` : `The parent network /${parentCidr}`;
+
+  let newCidr = 0;
+  let subnetBits = 0;
+
+  if (calculationMode === CalculationMode.SUBNETS) {
+    const requiredSubnets = payload.requiredSubnets || 1;
+    if (requiredSubnets <= 0) throw new Error("Number of subnets must be a positive number.");
+    subnetBits = Math.ceil(Math.log2(requiredSubnets));
+    newCidr = parentCidr + subnetBits;
+    if (IPV4_BITS - newCidr < (pointToPoint ? 0 : 2)) {
+      throw new Error(`Not enough host bits to support ${requiredSubnets.toLocaleString()} subnets.`);
+    }
+  } else if (calculationMode === CalculationMode.HOSTS) {
+    const requiredHosts = payload.requiredHosts || 1;
+    if (requiredHosts <= 0) throw new Error("Number of hosts must be a positive number.");
+    newCidr = IPV4_BITS - hostBitsForHosts(requiredHosts, pointToPoint);
+    subnetBits = newCidr - parentCidr;
+    if (subnetBits < 0) {
+      throw new Error(`${parentLabel} is not large enough to provide ${requiredHosts.toLocaleString()} hosts per subnet.`);
+    }
+  } else { // MASK
+    if (typeof payload.mask !== 'string') throw new Error("Subnet mask must be a string.");
+    newCidr = parseMask(payload.mask);
+
+    if (newCidr < parentCidr) {
+      throw new Error(classful
+        ? `Provided mask /${newCidr} is smaller than the default mask /${parentCidr} for a Class ${classInfo.class} address.`
+        : `Provided mask /${newCidr} is shorter than the parent prefix /${parentCidr}.`);
+    }
+    subnetBits = newCidr - parentCidr;
+  }
+
+  if (newCidr > IPV4_BITS) {
+    throw new Error('The resulting CIDR mask cannot be larger than /32.');
+  }
+  const totalSubnets = Math.pow(2, subnetBits);
+  const baseNetworkAddressInt = networkAddress(ipInt, parentCidr);
+
+  return {
+    ipClass: classInfo.class,
+    defaultMask: bigIntToIp(prefixToMask(classInfo.defaultMaskBits!)),
+    subnetMask: bigIntToIp(prefixToMask(newCidr)),
+    cidr: newCidr,
+    totalSubnets: totalSubnets,
+    hostsPerSubnet: usableHostCount(newCidr, pointToPoint),
+    ...(pointToPoint ? { pointToPoint } : {}),
+    addressingMode: classful ? AddressingMode.CLASSFUL : AddressingMode.CLASSLESS,
+    parentNetwork: `${bigIntToIp(baseNetworkAddressInt)}/${parentCidr}`,
+    parentMask: bigIntToIp(prefixToMask(parentCidr)),
+  };
+};
+
+// Subnets offset + 1 to offset + limit of a standard result; each is a closed-form function of its
+// index, so any page of a split into billions of subnets costs the same.
+export const standardSubnetPage = (result: CalculationResult, offset: number, limit: number): Subnet[] => {
+  if (!Number.isInteger(offset) || offset < 0 || offset >= result.totalSubnets) {
+    throw new Error(`Subnet #${offset + 1} does not exist. The plan has ${result.totalSubnets.toLocaleString('en-US')} subnets.`);
+  }
+  const base = parseIpv4Range(result.parentNetwork).start;
+  const increment = blockSize(result.cidr);
+  const pointToPoint = result.pointToPoint ?? false;
+  const end = Math.min(result.totalSubnets, offset + limit);
+  const subnets: Subnet[] = [];
+  for (let i = offset; i < end; i++) {
+    const subnetInt = base + BigInt(i) * increment;
+    subnets.push({
+      id: i + 1,
+      networkAddress: bigIntToIp(subnetInt),
+      usableHostRange: usableHostRange(subnetInt, result.cidr, pointToPoint),
+      broadcastAddress: bigIntToIp(subnetInt + increment - 1n),
+    });
+  }
+  return subnets;
+};
+
+// Subnet #id (1-based) of a standard result.
+export const standardSubnetAt = (result: CalculationResult, id: number): Subnet => standardSubnetPage(result, id - 1, 1)[0];
+
+export const VLSM_STRATEGY_LABELS: Record<VlsmAllocationStrategy, string> = {
+  'largest-first': 'Largest first',
+  'input-order': 'Input order',
+  'best-fit': 'Best fit',
+  'spread': 'Spread',
+};
+
+export const VLSM_ALLOCATION_STRATEGIES = Object.keys(VLSM_STRATEGY_LABELS) as VlsmAllocationStrategy[];
+
+export const SUBNET_KIND_LABELS: Record<SubnetKind, string> = {
+  lan: 'LAN',
+  p2p: 'Point-to-point link',
+  loopback: 'Loopback',
+};
+
+export const SUBNET_KINDS = Object.keys(SUBNET_KIND_LABELS) as SubnetKind[];
+
+// Hosts of a point-to-point link (/31) or loopback (/32); every address of the block is usable.
+export const FIXED_KIND_HOSTS: Record<Exclude<SubnetKind, 'lan'>, number> = { p2p: 2, loopback: 1 };
+
+// Hosts a subnet is sized for once `growth` percent of headroom is added.
+export const hostsWithGrowth = (hosts: number, growth = 0): number => Math.ceil(hosts * (100 + growth) / 100);
+
+type Interval = { start: bigint; end: bigint };
+
+// Lowest aligned block of `size` addresses in [base, limit) that clears every occupied interval.
+// With `bestFit`, the block goes into the smallest free gap that can hold it instead of the first.
+const findFreeBlock = (occupied: Interval[], base: bigint, limit: bigint, size: bigint, bestFit: boolean): bigint | null => {
+  let best: bigint | null = null;
+  let bestGap = 0n;
+  let cursor = base;
+  for (let i = 0; i <= occupied.length; i++) {
+    const gapEnd = i < occupied.length ? occupied[i].start : limit;
+    const start = ((cursor + size - 1n) / size) * size;
+    if (start + size <= gapEnd && (best === null || gapEnd - cursor < bestGap)) {
+      if (!bestFit) return start;
+      best = start;
+      bestGap = gapEnd - cursor;
+    }
+    if (i < occupied.length && occupied[i].end > cursor) cursor = occupied[i].end;
+  }
+  return best;
+};
+
+const insertInterval = (occupied: Interval[], interval: Interval) => {
+  const index = occupied.findIndex(o => o.start > interval.start);
+  occupied.splice(index === -1 ? occupied.length : index, 0, interval);
+};
+
+// A subnet or container ready for placement. Containers carry their children already laid
+// out at offsets from the container's own start.
+interface PlannedBlock {
+  id: string;
+  name: string;
+  group: string;
+  cidr: number;
+  leaf?: { requiredHosts: number; plannedHosts: number; growth: number; kind: SubnetKind };
+  children?: { block: PlannedBlock; offset: bigint }[];
+}
+
+// Places blocks into [base, limit) around `occupied` using the strategy. Returns the blocks with
+// their start in placement order, or the first block that did not fit.
+const packBlocks = (
+  blocks: PlannedBlock[],
+  base: bigint,
+  limit: bigint,
+  occupied: Interval[],
+  strategy: VlsmAllocationStrategy,
+  onPlaced?: () => void,
+): { placed: { block: PlannedBlock; start: bigint }[] } | { failed: PlannedBlock } => {
+  const ordered = [...blocks];
+  // Array.prototype.sort is stable, so equal sizes keep their input order.
+  if (strategy !== 'input-order') ordered.sort((a, b) => a.cidr - b.cidr);
+
+  const used = [...occupied];
+  // Spread only: `used` plus the headroom kept free next to each block.
+  const claimed = [...occupied];
+  const placed: { block: PlannedBlock; start: bigint }[] = [];
+
+  for (const block of ordered) {
+    const size = blockSize(block.cidr);
+    const find = (intervals: Interval[], blockSizeInt: bigint) => findFreeBlock(intervals, base, limit, blockSizeInt, strategy === 'best-fit');
+
+    // Spread places the block at the start of an unclaimed doubled block. When none is left
+    // it is packed without headroom, possibly into headroom claimed by a larger block.
+    const spreadStart = strategy === 'spread' && size * 2n <= limit - base ? find(claimed, size * 2n) : null;
+    const start = spreadStart ?? find(used, size);
+    if (start === null) return { failed: block };
+
+    insertInterval(used, { start, end: start + size });
+    if (strategy === 'spread') insertInterval(claimed, { start, end: start + size * (spreadStart === null ? 1n : 2n) });
+    placed.push({ block, start });
+    onPlaced?.();
+  }
+  return { placed };
+};
+
+// Where a block ends up: a kept block may be larger than it now needs, and a kept container's
+// contents are placed around their own locks instead of at the offsets planContainer chose.
+interface Placement {
+  block: PlannedBlock;
+  start: bigint;
+  cidr: number;
+  children?: Placement[];
+}
+
+const freshPlacement = (block: PlannedBlock, start: bigint): Placement => ({
+  block,
+  start,
+  cidr: block.cidr,
+  ...(block.children ? { children: block.children.map(child => freshPlacement(child.block, start + child.offset)) } : {}),
+});
+
+const isFree = (occupied: Interval[], start: bigint, end: bigint) => occupied.every(o => o.end <= start || o.start >= end);
+
+// Locked blocks keyed by name path.
+type LockMap = Map<string, { start: bigint; cidr: number }>;
+
+// Places blocks like packBlocks, after keeping every block whose locked address still holds it:
+// a subnet whose locked block is at least as large as it now needs, or a container whose contents
+// still fit its locked block. An enlarged subnet grows in place when the aligned block around its
+// old address is free. Everything else is packed into the space left over.
+const placeBlocks = (
+  blocks: PlannedBlock[],
+  base: bigint,
+  limit: bigint,
+  occupied: Interval[],
+  strategy: VlsmAllocationStrategy,
+  locks: LockMap,
+  parentPath: string[] = [],
+  onPlaced?: () => void,
+): { placed: Placement[] } | { failed: PlannedBlock } => {
+  const used = [...occupied];
+  const placed: Placement[] = [];
+  const claim = (placement: Placement) => {
+    insertInterval(used, { start: placement.start, end: placement.start + blockSize(placement.cidr) });
+    placed.push(placement);
+    onPlaced?.();
+  };
+  const lockOf = (block: PlannedBlock) => {
+    const lock = locks.get(formatPath([...parentPath, block.name]));
+    return lock && lock.start >= base && lock.start + blockSize(lock.cidr) <= limit ? lock : undefined;
+  };
+
+  const enlarged: PlannedBlock[] = [];
+  for (const block of blocks) {
+    const lock = lockOf(block);
+    if (!lock || !isFree(used, lock.start, lock.start + blockSize(lock.cidr))) continue;
+    if (block.children) {
+      const inner = placeBlocks(
+        block.children.map(child => child.block), lock.start, lock.start + blockSize(lock.cidr), [], strategy, locks, [...parentPath, block.name],
+      );
+      if ('placed' in inner) claim({ block, start: lock.start, cidr: lock.cidr, children: inner.placed });
+    } else if (lock.cidr <= block.cidr) {
+      claim({ block, start: lock.start, cidr: lock.cidr });
+    } else {
+      enlarged.push(block);
+    }
+  }
+  for (const block of enlarged) {
+    const start = networkAddress(lockOf(block)!.start, block.cidr);
+    const end = start + blockSize(block.cidr);
+    if (start >= base && end <= limit && isFree(used, start, end)) claim({ block, start, cidr: block.cidr });
+  }
+
+  const kept = new Set(placed.map(p => p.block));
+  const packed = packBlocks(blocks.filter(block => !kept.has(block)), base, limit, used, strategy, onPlaced);
+  if ('failed' in packed) return packed;
+  packed.placed.forEach(({ block, start }) => placed.push(freshPlacement(block, start)));
+  return { placed };
+};
+
+// Validates locked blocks and keys them by path.
+const resolveLocks = (locked: VlsmLockedBlock[]): LockMap => new Map(locked.map(({ path, network }) => {
+  let start: bigint;
+  let cidr: number | undefined;
+  try {
+    const parsed = parseCidrNotation(network);
+    start = parseIp(parsed.ipAddress);
+    cidr = parsed.cidr;
+  } catch (e) {
+    throw new Error(`Locked block '${path}': ${(e as Error).message}`);
+  }
+  if (cidr === undefined || networkAddress(start, cidr) !== start) {
+    throw new Error(`Locked block '${path}' must be a network in CIDR notation, e.g. 10.0.1.0/25. Received: ${network}`);
+  }
+  return [path, { start, cidr }];
+}));
+
+// Expands requested groups into one planned block per subnet or container instance, in input order.
+const planBlocks = (groups: VlsmSubnetRequest[], strategy: VlsmAllocationStrategy, idPrefix = ''): PlannedBlock[] => {
+  const blocks: PlannedBlock[] = [];
+  groups.forEach(group => {
+    const count = Number(group.count);
+    if (isNaN(count) || count <= 0) {
+      throw new Error(`Invalid number of subnets for group '${group.name}'. Must be a positive number.`);
+    }
+    const growth = Number(group.growth ?? 0);
+    if (isNaN(growth) || growth < 0) {
+      throw new Error(`Invalid growth for group '${group.name}'. Must be a percentage of zero or more.`);
+    }
+    for (let i = 0; i < count; i++) {
+      const id = `${idPrefix}${group.id}-${i}`;
+      const name = count > 1 ? `${group.name} ${i + 1}` : group.name;
+      if (group.children && group.children.length > 0) {
+        blocks.push(planContainer(id, name, group, growth, planBlocks(group.children, strategy, `${id}/`), strategy));
+        continue;
+      }
+      const requiredHosts = Number(group.hosts);
+      if (isNaN(requiredHosts) || requiredHosts <= 0) {
+        throw new Error(`Invalid number of hosts for subnet '${name}'. Must be a positive number.`);
+      }
+      const kind = group.kind ?? 'lan';
+      if (kind !== 'lan' && (requiredHosts > FIXED_KIND_HOSTS[kind] || growth > 0)) {
+        throw new Error(`Invalid number of hosts for subnet '${name}'. A ${SUBNET_KIND_LABELS[kind].toLowerCase()} holds at most ${FIXED_KIND_HOSTS[kind]} host${FIXED_KIND_HOSTS[kind] === 1 ? '' : 's'} and has no growth.`);
+      }
+      const plannedHosts = hostsWithGrowth(requiredHosts, growth);
+      const cidr = IPV4_BITS - (kind === 'lan' ? hostBitsForHosts(plannedHosts) : hostBitsForHosts(FIXED_KIND_HOSTS[kind], true));
+      blocks.push({
+        id,
+        name,
+        group: group.name,
+        cidr,
+        leaf: { requiredHosts, plannedHosts, growth, kind },
+      });
+    }
+  });
+  return blocks;
+};
+
+// Sizes a container to the smallest block its children can be packed into with the strategy
+// (twice their space for spread, so they keep room to double), plus the group's growth.
+const planContainer = (
+  id: string,
+  name: string,
+  group: VlsmSubnetRequest,
+  growth: number,
+  children: PlannedBlock[],
+  strategy: VlsmAllocationStrategy,
+): PlannedBlock => {
+  const childSpace = children.reduce((sum, child) => sum + Number(blockSize(child.cidr)), 0) * (strategy === 'spread' ? 2 : 1);
+  let cidr = IPV4_BITS - Math.ceil(Math.log2(hostsWithGrowth(childSpace, growth)));
+  for (; cidr >= 0; cidr--) {
+    const packed = packBlocks(children, 0n, blockSize(cidr), [], strategy);
+    if ('placed' in packed) {
+      return { id, name, group: group.name, cidr, children: packed.placed.map(({ block, start }) => ({ block, offset: start })) };
+    }
+  }
+  throw new Error(`The subnets of '${name}' do not fit in any IPv4 block.`);
+};
+
+export const calculateVlsm = (payload: VlsmCalculationPayload, onProgress?: ProgressCallback): VlsmCalculationResult => {
+  const { ipAddress: baseIp, cidr: baseCidr, subnets: requestedSubnets } = payload;
+  const strategy = payload.strategy ?? 'largest-first';
+  if (requestedSubnets.length === 0) {
+    throw new Error("Please add at least one subnet group to calculate.");
+  }
+
+  const blocks = planBlocks(requestedSubnets, strategy);
+  if (blocks.length === 0) {
+    throw new Error("Please specify at least one subnet to calculate.");
+  }
+
+  const baseIpInt = parseIp(baseIp);
+  const baseNetworkAddressInt = networkAddress(baseIpInt, baseCidr);
+
+  if (baseNetworkAddressInt !== baseIpInt) {
+    throw new Error(`The provided IP address (${baseIp}) is a host address, not a network address for the /${baseCidr} block. Please use ${bigIntToIp(baseNetworkAddressInt)}.`);
+  }
+
+  const reservedRanges = resolveReservations(payload.reservations ?? [], baseNetworkAddressInt, baseCidr);
+  // Reservations as [start, end) intervals sorted by start.
+  const occupied: Interval[] = reservedRanges
+    .map(r => ({ start: ipToBigInt(r.firstAddress), end: ipToBigInt(r.lastAddress) + 1n }))
+    .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  const locks = resolveLocks(payload.locked ?? []);
+  // Top-level blocks only: a container is placed with its contents.
+  let placedCount = 0;
+  const onPlaced = () => onProgress?.({ label: 'allocations placed', done: ++placedCount, total: blocks.length });
+  const packed = placeBlocks(blocks, baseNetworkAddressInt, baseNetworkAddressInt + blockSize(baseCidr), occupied, strategy, locks, [], onPlaced);
+  if ('failed' in packed) {
+    if (locks.size > 0) {
+      const { failed } = packed;
+      throw new Error(`Subnet '${failed.name}' of group '${failed.group}' needs a /${failed.cidr} (${blockSize(failed.cidr)} addresses) but no free aligned block is left in ${baseIp}/${baseCidr} around the locked allocations. Recalculate without locking to repack the plan.`);
+    }
+    if (reservedRanges.length === 0) {
+      throw new Error(`Not enough address space in the network ${baseIp}/${baseCidr} to fit all requested subnets.`);
+    }
+    const { failed } = packed;
+    const reserved = reservedRanges.map(r => `${r.name} (${r.range})`).join(', ');
+    throw new Error(`Subnet '${failed.name}' of group '${failed.group}' needs a /${failed.cidr} (${blockSize(failed.cidr)} addresses) but no free aligned block is left in ${baseIp}/${baseCidr} around the reserved ranges ${reserved}.`);
+  }
+
+  const allocatedSubnets: VlsmSubnetResult[] = [];
+  const containers: VlsmContainerResult[] = [];
+  // Containers are listed before their contents, so every parentId refers to an earlier entry.
+  const emit = ({ block, start, cidr, children }: Placement, parentId?: string) => {
+    const size = blockSize(cidr);
+    const parent = parentId !== undefined ? { parentId } : {};
+    if (children) {
+      containers.push({
+        id: block.id,
+        name: block.name,
+        ...parent,
+        networkAddress: bigIntToIp(start),
+        cidr,
+        subnetMask: bigIntToIp(prefixToMask(cidr)),
+        lastAddress: bigIntToIp(start + size - 1n),
+      });
+      children.forEach(child => emit(child, block.id));
+      return;
+    }
+    const leaf = block.leaf!;
+    const pointToPoint = leaf.kind !== 'lan';
+    allocatedSubnets.push({
+      id: block.id,
+      name: block.name,
+      ...parent,
+      requiredHosts: leaf.requiredHosts,
+      ...(leaf.growth > 0 ? { plannedHosts: leaf.plannedHosts } : {}),
+      allocatedHosts: usableHostCount(cidr, pointToPoint),
+      ...(leaf.kind !== 'lan' ? { kind: leaf.kind } : {}),
+      networkAddress: bigIntToIp(start),
+      cidr,
+      subnetMask: bigIntToIp(prefixToMask(cidr)),
+      usableHostRange: usableHostRange(start, cidr, pointToPoint),
+      broadcastAddress: bigIntToIp(start + size - 1n),
+    });
+  };
+  packed.placed.forEach(placement => emit(placement));
+
+  return { ...summarizeVlsmAllocations(baseIp, baseCidr, allocatedSubnets, reservedRanges, containers), strategy };
+};
+
+// Validates reservations against the base network and normalizes them for display.
+export const resolveReservations = (reservations: VlsmReservation[], baseNetworkInt: bigint, baseCidr: number): ReservedRange[] => {
+  const baseEnd = baseNetworkInt + blockSize(baseCidr) - 1n;
+  return reservations.map(reservation => {
+    const name = reservation.name.trim() || 'Reserved';
+    let range: { start: bigint; end: bigint };
+    try {
+      range = parseIpv4Range(reservation.range);
+    } catch (e) {
+      throw new Error(`Reserved range '${name}': ${(e as Error).message}`);
+    }
+    if (range.start < baseNetworkInt || range.end > baseEnd) {
+      throw new Error(`Reserved range '${name}' (${reservation.range.trim()}) is not inside the base network ${bigIntToIp(baseNetworkInt)}/${baseCidr}.`);
+    }
+    return {
+      name,
+      range: formatIpv4Range(range.start, range.end),
+      firstAddress: bigIntToIp(range.start),
+      lastAddress: bigIntToIp(range.end),
+      size: (range.end - range.start + 1n).toString(),
+    };
+  });
+};
+
+// Derives the block totals, efficiency and free space of a VLSM plan from its allocations.
+// Shared by the allocator and by plans imported from a file.
+export const summarizeVlsmAllocations = (
+  baseIp: string,
+  baseCidr: number,
+  allocatedSubnets: VlsmSubnetResult[],
+  reservedRanges: ReservedRange[] = [],
+  containers: VlsmContainerResult[] = [],
+): VlsmCalculationResult => {
+  const baseNetworkAddressInt = networkAddress(parseIp(baseIp), baseCidr);
+  const baseEndInt = baseNetworkAddressInt + blockSize(baseCidr);
+  const totalHostsInBlock = Math.pow(2, IPV4_BITS - baseCidr);
+  const totalRequiredHosts = allocatedSubnets.reduce((sum, s) => sum + s.requiredHosts, 0);
+  const totalAllocatedHosts = allocatedSubnets.reduce((sum, s) => sum + s.allocatedHosts, 0);
+
+  // Free space is whatever neither an allocation, a container nor a reservation covers; space
+  // left inside a container belongs to that container.
+  const occupied = [
+    ...[...allocatedSubnets, ...containers].map(s => ({ start: ipToBigInt(s.networkAddress), end: ipToBigInt(s.networkAddress) + blockSize(s.cidr) })),
+    ...reservedRanges.map(r => ({ start: ipToBigInt(r.firstAddress), end: ipToBigInt(r.lastAddress) + 1n })),
+  ].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  const unallocatedRanges: UnallocatedRange[] = [];
+  const addFreeRange = (start: bigint, end: bigint) => {
+    if (start >= end) return;
+    for (const block of rangeToCidrs(start, end - 1n)) {
+      unallocatedRanges.push({
+        networkAddress: bigIntToIp(block.network),
+        cidr: block.cidr,
+        size: blockSize(block.cidr).toString(),
+        usableHostRange: usableHostRange(block.network, block.cidr),
+      });
+    }
+  };
+  let currentAddressInt = baseNetworkAddressInt;
+  for (const interval of occupied) {
+    addFreeRange(currentAddressInt, interval.start);
+    if (interval.end > currentAddressInt) currentAddressInt = interval.end;
+  }
+  addFreeRange(currentAddressInt, baseEndInt);
+
+  const freeSizes = unallocatedRanges.map(r => blockSize(r.cidr));
+  const totalFree = freeSizes.reduce((sum, size) => sum + size, 0n);
+  const largestFree = freeSizes.reduce((max, size) => (size > max ? size : max), 0n);
+
+  return {
+    baseNetwork: `${bigIntToIp(baseNetworkAddressInt)}/${baseCidr}`,
+    totalHostsInBlock,
+    totalRequiredHosts,
+    totalAllocatedHosts,
+    allocatedSubnets,
+    ...(containers.length > 0 ? { containers } : {}),
+    reservedRanges,
+    unallocatedRanges,
+    efficiency: totalAllocatedHosts > 0 ? (totalRequiredHosts / totalAllocatedHosts) * 100 : 0,
+    fragmentation: totalFree > 0n ? (1 - Number(largestFree) / Number(totalFree)) * 100 : 0,
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  AddressRange, calculateCidrSet, intersectRanges, normalizeRanges, parseNetworkEntry, splitNetworkList, subtractRanges, unionRanges,
+} from './cidrSets';
+import { ipToBigInt } from './ipv4';
+
+const prefixes = (operation: 'ranges' | 'union' | 'intersection' | 'difference', listA: string[], listB: string[] = []) =>
+  calculateCidrSet({ operation, listA, listB }).prefixes.map(p => `${p.networkAddress}/${p.cidr}`);
+
+describe('CIDR sets', () => {
+  it('converts an arbitrary range to the fewest prefixes', () => {
+    expect(prefixes('ranges', ['10.0.0.5 - 10.0.3.200'])).toEqual([
+      '10.0.0.5/32', '10.0.0.6/31', '10.0.0.8/29', '10.0.0.16/28', '10.0.0.32/27', '10.0.0.64/26', '10.0.0.128/25',
+      '10.0.1.0/24', '10.0.2.0/24', '10.0.3.0/25', '10.0.3.128/26', '10.0.3.192/29', '10.0.3.200/32',
+    ]);
+  });
+
+  it('subtracts allocations from a block', () => {
+    const result = calculateCidrSet({ operation: 'difference', listA: ['10.0.0.0/22'], listB: ['10.0.0.0/24', '10.0.2.0 255.255.255.128'] });
+    expect(result.prefixes.map(p => `${p.networkAddress}/${p.cidr}`)).toEqual(['10.0.1.0/24', '10.0.2.128/25', '10.0.3.0/24']);
+    expect(result.prefixes[0]).toMatchObject({ id: 1, usableHostRange: '10.0.1.1 - 10.0.1.254', broadcastAddress: '10.0.1.255', addresses: 256 });
+    expect(result).toMatchObject({ totalAddresses: 640, addressesA: 1024, addressesB: 384 });
+  });
+
+  it('combines lists by union and intersection', () => {
+    expect(prefixes('union', ['10.0.0.0/25'], ['10.0.0.128/25', '10.0.1.0/24'])).toEqual(['10.0.0.0/23']);
+    expect(prefixes('intersection', ['10.0.0.0/23'], ['10.0.1.128 - 10.0.2.10'])).toEqual(['10.0.1.128/25']);
+    expect(prefixes('intersection', ['10.0.0.0/24'], ['10.0.1.0/24'])).toEqual([]);
+  });
+
+  it('names the list and entry that cannot be parsed', () => {
+    expect(() => calculateCidrSet({ operation: 'union', listA: ['10.0.0.0/24'], listB: [] })).toThrow('List B needs at least one network or range.');
+    expect(() => calculateCidrSet({ operation: 'union', listA: ['10.0.0.0/24'], listB: ['10.0.0.0/8', 'nope'] })).toThrow(/^List B entry 2 \(nope\): /);
+    expect(() => parseNetworkEntry('10.0.0.0 255.0.255.0')).toThrow('Invalid subnet mask');
+  });
+
+  it('splits pasted lists on lines, commas and semicolons', () => {
+    expect(splitNetworkList('10.0.0.0/24,10.0.1.0/24\n\n 10.0.2.0 255.255.255.0 ;10.0.3.1')).toEqual([
+      '10.0.0.0/24', '10.0.1.0/24', '10.0.2.0 255.255.255.0', '10.0.3.1',
+    ]);
+  });
+
+  it('agrees with set operations on individual addresses', () => {
+    const rangeArbitrary = fc.tuple(fc.integer({ min: 0, max: 255 }), fc.integer({ min: 0, max: 40 }))
+      .map(([start, length]): AddressRange => ({ start: BigInt(start), end: BigInt(Math.min(255, start + length)) }));
+    const setArbitrary = fc.array(rangeArbitrary, { maxLength: 6 }).map(normalizeRanges);
+    const members = (ranges: AddressRange[]) => {
+      const set = new Set<bigint>();
+      ranges.forEach(r => { for (let a = r.start; a <= r.end; a++) set.add(a); });
+      return set;
+    };
+    fc.assert(fc.property(setArbitrary, setArbitrary, (a, b) => {
+      const inA = members(a);
+      const inB = members(b);
+      for (let addr = 0n; addr < 256n; addr++) {
+        expect(members(unionRanges(a, b)).has(addr)).toBe(inA.has(addr) || inB.has(addr));
+        expect(members(intersectRanges(a, b)).has(addr)).toBe(inA.has(addr) && inB.has(addr));
+        expect(members(subtractRanges(a, b)).has(addr)).toBe(inA.has(addr) && !inB.has(addr));
+      }
+      // Results stay normalized: sorted with gaps between ranges.
+      [unionRanges(a, b), intersectRanges(a, b), subtractRanges(a, b)].forEach(ranges => {
+        ranges.forEach((r, i) => { if (i > 0) expect(r.start > ranges[i - 1].end + 1n).toBe(true); });
+      });
+    }));
+  });
+
+  it('keeps prefixes within list A for differences', () => {
+    const result = calculateCidrSet({ operation: 'difference', listA: ['192.168.0.0/16'], listB: ['192.168.10.7', '192.168.200.0/21'] });
+    const blocks = result.prefixes.map(p => ipToBigInt(p.networkAddress));
+    expect(blocks.every(b => b >= ipToBigInt('192.168.0.0') && b <= ipToBigInt('192.168.255.255'))).toBe(true);
+    expect(result.totalAddresses).toBe(65536 - 1 - 2048);
+  });
+});
@@ -0,0 +1,130 @@
+// Set algebra on IPv4 address space. Sets are kept as sorted, disjoint, non-adjacent inclusive
+// ranges and turned into the fewest CIDR prefixes only for display.
+import { CidrSetOperation, CidrSetPayload, CidrSetPrefix, CidrSetResult } from './types';
+import { bigIntToIp, blockSize, parseIpv4Range, parseMask, prefixToMask, rangeToCidrs, usableHostRange } from './ipv4';
+
+export interface AddressRange {
+  start: bigint;
+  end: bigint;
+}
+
+// "10.0.4.0 255.255.252.0" or "10.0.4.0/255.255.252.0".
+const MASK_NOTATION = /^([\d.]+)\s*(?:\/\s*|\s+)(\d+\.\d+\.\d+\.\d+)$/;
+
+// Parses one network of a list: CIDR, address and mask, an inclusive range or a single address.
+export const parseNetworkEntry = (entry: string): AddressRange => {
+  const text = entry.trim();
+  const masked = MASK_NOTATION.exec(text);
+  return parseIpv4Range(masked ? `${masked[1]}/${parseMask(masked[2])}` : text);
+};
+
+// Splits pasted text into entries: one per line, or separated by commas or semicolons.
+export const splitNetworkList = (text: string): string[] =>
+  text.split(/[\n,;]+/).map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+// Sorts ranges and merges the overlapping and adjacent ones.
+export const normalizeRanges = (ranges: AddressRange[]): AddressRange[] => {
+  const merged: AddressRange[] = [];
+  for (const { start, end } of [...ranges].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last.end + 1n) {
+      if (end > last.end) last.end = end;
+    } else {
+      merged.push({ start, end });
+    }
+  }
+  return merged;
+};
+
+export const unionRanges = (a: AddressRange[], b: AddressRange[]): AddressRange[] => normalizeRanges([...a, ...b]);
+
+// Both inputs must be normalized.
+export const intersectRanges = (a: AddressRange[], b: AddressRange[]): AddressRange[] => {
+  const result: AddressRange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = a[i].start > b[j].start ? a[i].start : b[j].start;
+    const end = a[i].end < b[j].end ? a[i].end : b[j].end;
+    if (start <= end) result.push({ start, end });
+    // Drop whichever range ends first; the other may still overlap the next one.
+    if (a[i].end < b[j].end) i++;
+    else j++;
+  }
+  return result;
+};
+
+// Addresses of `a` that are not in `b`. Both inputs must be normalized.
+export const subtractRanges = (a: AddressRange[], b: AddressRange[]): AddressRange[] => {
+  const result: AddressRange[] = [];
+  let j = 0;
+  for (const range of a) {
+    let start = range.start;
+    while (j < b.length && b[j].end < start) j++;
+    let k = j;
+    while (k < b.length && b[k].start <= range.end) {
+      if (b[k].start > start) result.push({ start, end: b[k].start - 1n });
+      start = b[k].end + 1n;
+      k++;
+    }
+    if (start <= range.end) result.push({ start, end: range.end });
+  }
+  return result;
+};
+
+export const countAddresses = (ranges: AddressRange[]): number =>
+  Number(ranges.reduce((sum, r) => sum + r.end - r.start + 1n, 0n));
+
+// The fewest prefixes covering the (normalized) ranges, numbered from 1 like standard subnets.
+export const rangesToPrefixes = (ranges: AddressRange[]): CidrSetPrefix[] =>
+  ranges
+    .flatMap(r => rangeToCidrs(r.start, r.end))
+    .map(({ network, cidr }, i) => ({
+      id: i + 1,
+      networkAddress: bigIntToIp(network),
+      cidr,
+      subnetMask: bigIntToIp(prefixToMask(cidr)),
+      usableHostRange: usableHostRange(network, cidr),
+      broadcastAddress: bigIntToIp(network + blockSize(cidr) - 1n),
+      addresses: Number(blockSize(cidr)),
+    }));
+
+const parseList = (entries: string[], label: string): AddressRange[] =>
+  normalizeRanges(entries.map((entry, i) => {
+    try {
+      return parseNetworkEntry(entry);
+    } catch (e) {
+      throw new Error(`${label} entry ${i + 1} (${entry.trim()}): ${(e as Error).message}`);
+    }
+  }));
+
+export const CIDR_SET_OPERATION_LABELS: Record<CidrSetOperation, string> = {
+  'ranges': 'Range to CIDR',
+  'union': 'Union (A ∪ B)',
+  'intersection': 'Intersection (A ∩ B)',
+  'difference': 'Difference (A − B)',
+};
+
+export const CIDR_SET_OPERATIONS = Object.keys(CIDR_SET_OPERATION_LABELS) as CidrSetOperation[];
+
+export const calculateCidrSet = (payload: CidrSetPayload): CidrSetResult => {
+  const entriesA = payload.listA.filter(entry => entry.trim());
+  const entriesB = payload.listB.filter(entry => entry.trim());
+  if (entriesA.length === 0) throw new Error("List A needs at least one network or range.");
+  if (payload.operation !== 'ranges' && entriesB.length === 0) throw new Error("List B needs at least one network or range.");
+
+  const a = parseList(entriesA, 'List A');
+  const b = payload.operation === 'ranges' ? [] : parseList(entriesB, 'List B');
+  const ranges = payload.operation === 'union' ? unionRanges(a, b)
+    : payload.operation === 'intersection' ? intersectRanges(a, b)
+    : payload.operation === 'difference' ? subtractRanges(a, b)
+    : a;
+
+  return {
+    operation: payload.operation,
+    prefixes: rangesToPrefixes(ranges),
+    totalAddresses: countAddresses(ranges),
+    addressesA: countAddresses(a),
+    ...(payload.operation !== 'ranges' ? { addressesB: countAddresses(b) } : {}),
+  };
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { AddressLocation, AddressLocator, AddressLookupResult, describeLocation, lookupAddresses } from '../addressLookup';
+
+interface AddressLookupProps {
+  locate: AddressLocator;
+  // Called with the location to highlight; the first address found is shown right away.
+  onSelect: (location: AddressLocation) => void;
+}
+
+const AddressLookup: React.FC<AddressLookupProps> = ({ locate, onSelect }) => {
+  const [text, setText] = useState('');
+  const [results, setResults] = useState<AddressLookupResult[]>([]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const found = lookupAddresses(text, locate);
+    setResults(found);
+    const first = found.find((r): r is AddressLookupResult & AddressLocation => !('error' in r) && r.kind !== 'outside');
+    if (first) onSelect(first);
+  };
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-3 items-center">
+        <label htmlFor="addressLookup" className="text-sm font-medium text-gray-300">Find addresses</label>
+        <input
+          type="text" id="addressLookup" value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="flex-1 min-w-[12rem] px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition font-mono text-sm"
+          placeholder="e.g. 172.16.37.201, 172.16.40.7"
+        />
+        <button type="submit" disabled={!text.trim()} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors">
+          Find
+        </button>
+      </form>
+      {results.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {results.map((r, i) => (
+            <li key={i} className="flex flex-wrap items-baseline gap-2">
+              <span className="font-mono text-gray-200">{'error' in r ? r.input : r.address}</span>
+              {'error' in r ? (
+                <span className="text-red-400">{r.error}</span>
+              ) : (
+                <>
+                  <span className={r.kind === 'subnet' ? 'text-teal-300' : r.kind === 'outside' ? 'text-gray-400' : 'text-amber-300'}>{describeLocation(r)}</span>
+                  {r.kind !== 'outside' && (
+                    <button type="button" onClick={() => onSelect(r)} className="text-blue-400 hover:text-blue-300">Show</button>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AddressLookup;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { AddressSpaceInfo, SPECIAL_PURPOSE_LABELS } from '../specialPurpose';
+
+interface AddressSpaceTagsProps {
+  info: AddressSpaceInfo;
+}
+
+const chipClass = 'px-2 py-0.5 rounded-full text-xs font-medium border';
+
+// Special-purpose tags of a plan's network with the warnings they raise; nothing here blocks the plan.
+const AddressSpaceTags: React.FC<AddressSpaceTagsProps> = ({ info }) => (
+  <div className="space-y-2">
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-400">Address space:</span>
+      {info.blocks.map(block => (
+        <span key={block.prefix} className={`${chipClass} bg-indigo-900/30 border-indigo-700/40 text-indigo-200`} title={`${block.name}, ${block.rfc}`}>
+          {SPECIAL_PURPOSE_LABELS[block.category]} · {block.prefix}
+        </span>
+      ))}
+      {info.publicAddresses > 0 && (
+        <span className={`${chipClass} bg-amber-900/30 border-amber-700/40 text-amber-200`}>{SPECIAL_PURPOSE_LABELS.public}</span>
+      )}
+    </div>
+    {info.warnings.length > 0 && (
+      <ul className="p-3 bg-amber-900/20 border border-amber-700/40 rounded-lg text-sm text-amber-200 space-y-1">
+        {info.warnings.map(warning => <li key={warning}>{warning}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+// Compact tag for a single row, e.g. a subnet of a plan that spans several kinds of space.
+export const AddressSpaceChip: React.FC<AddressSpaceTagsProps> = ({ info }) => (
+  <span className={`${chipClass} ${info.category === 'public' ? 'bg-amber-900/30 border-amber-700/40 text-amber-200' : 'bg-indigo-900/30 border-indigo-700/40 text-indigo-200'}`}>
+    {info.category === 'mixed' ? 'Mixed' : SPECIAL_PURPOSE_LABELS[info.category]}
+  </span>
+);
+
+export default AddressSpaceTags;
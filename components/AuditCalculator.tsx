@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { AuditPayload } from '../types';
+import { readSheetFile } from '../sheetImport';
+import { auditSubnetsFromPlan, auditSubnetsFromSheet, formatAuditText, parseAuditText } from '../auditImport';
+
+interface AuditCalculatorProps {
+  onCalculate: (payload: AuditPayload) => void;
+  loading: boolean;
+  // Seeds the form, e.g. when a calculation is restored from the URL.
+  initialPayload?: AuditPayload;
+}
+
+const DEFAULT_SUBNETS = 'HQ Users, 10.0.0.0/24\nHQ Voice, 10.0.1.0/25\nBranch Users, 10.0.1.0/24';
+
+const AuditCalculator: React.FC<AuditCalculatorProps> = ({ onCalculate, loading, initialPayload }) => {
+    const [text, setText] = useState(initialPayload ? formatAuditText(initialPayload.subnets) : DEFAULT_SUBNETS);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const subnets = parseAuditText(text);
+    const isFormValid = subnets.length > 0;
+
+    // Imported subnets are appended under the file name, so entries from several sites stay apart.
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Allow re-importing the same file after editing it.
+        e.target.value = '';
+        if (!file) return;
+        setImportError(null);
+        try {
+            const imported = /\.json$/i.test(file.name) || file.type === 'application/json'
+                ? auditSubnetsFromPlan(await file.text())
+                : auditSubnetsFromSheet(await readSheetFile(file));
+            if (imported.length === 0) throw new Error(`'${file.name}' does not list any subnets.`);
+            const source = file.name.replace(/\.[^.]+$/, '');
+            const lines = formatAuditText(imported.map(s => ({ ...s, name: s.name ? `${source} / ${s.name}` : source })));
+            setText(current => (current.trim() ? `${current.trimEnd()}\n${lines}` : lines));
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'Could not read the file.');
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isFormValid) return;
+        onCalculate({ subnets });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+                <div className="flex flex-wrap justify-between items-center gap-3 mb-2">
+                    <label htmlFor="auditSubnets" className="block text-lg font-medium text-gray-200">Subnets to Audit</label>
+                    <button
+                        type="button"
+                        onClick={() => fileInputRef.current?.click()}
+                        className="text-sm font-medium text-blue-400 hover:text-blue-300"
+                    >
+                        Import plan (JSON, CSV or Excel)
+                    </button>
+                    <input ref={fileInputRef} type="file" accept=".json,.csv,.xlsx,.xls,application/json,text/csv" className="hidden" onChange={handleFileChange} />
+                </div>
+                <p className="text-sm text-gray-400 mb-2">
+                    One subnet per line, as "Name, 10.1.4.0/22". Masks (10.1.4.0 255.255.252.0) and ranges (10.0.0.5 - 10.0.3.200) work too.
+                    Imported plans are added below what is already listed.
+                </p>
+                <textarea
+                    id="auditSubnets" value={text} rows={10}
+                    onChange={(e) => setText(e.target.value)}
+                    className={`w-full px-4 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition font-mono text-sm ${
+                        isFormValid ? 'border-gray-600 focus:ring-blue-500 focus:border-blue-500' : 'border-red-500 focus:ring-red-500'
+                    }`}
+                    placeholder={'Site A / Users, 10.0.0.0/24\nSite B / Users, 10.0.1.0/24'}
+                />
+                {!isFormValid && <p className="mt-2 text-sm text-red-400">Enter at least one subnet.</p>}
+                {importError && <p className="mt-2 text-sm text-red-400">{importError}</p>}
+            </div>
+            <button type="submit" disabled={!isFormValid || loading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 flex items-center justify-center">
+                Audit
+            </button>
+        </form>
+    );
+};
+
+export default AuditCalculator;
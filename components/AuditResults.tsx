@@ -0,0 +1,81 @@
+import React from 'react';
+import { AuditResult, AuditedSubnet } from '../types';
+import { AUDIT_ISSUE_LABELS } from '../addressAudit';
+
+interface AuditResultsProps {
+  result: AuditResult;
+}
+
+const STATUS_STYLES: Record<AuditedSubnet['status'], string> = {
+  ok: 'text-green-400',
+  warning: 'text-yellow-300',
+  error: 'text-red-400',
+};
+
+const STATUS_LABELS: Record<AuditedSubnet['status'], string> = { ok: 'OK', warning: 'Warning', error: 'Error' };
+
+const AuditResults: React.FC<AuditResultsProps> = ({ result }) => {
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Subnets</p>
+            <p className="font-mono text-lg">{result.subnets.length.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Errors</p>
+            <p className={`font-mono text-lg ${result.errorCount > 0 ? 'text-red-400' : 'text-green-400'}`}>{result.errorCount.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Warnings</p>
+            <p className={`font-mono text-lg ${result.warningCount > 0 ? 'text-yellow-300' : 'text-green-400'}`}>{result.warningCount.toLocaleString()}</p>
+        </div>
+      </div>
+
+      {result.issues.length > 0 ? (
+        <ul className="space-y-2">
+            {result.issues.map((issue, i) => (
+                <li key={i} className={`p-3 rounded-lg border text-sm ${
+                    issue.severity === 'error' ? 'bg-red-900/20 border-red-700/40' : 'bg-yellow-900/20 border-yellow-700/40'
+                }`}>
+                    <span className={`font-semibold ${issue.severity === 'error' ? 'text-red-300' : 'text-yellow-300'}`}>{AUDIT_ISSUE_LABELS[issue.kind]}: </span>
+                    <span className="text-gray-200">{issue.message}</span>
+                    {issue.suggestion && <span className="text-gray-400"> Did you mean <span className="font-mono text-teal-300">{issue.suggestion}</span>?</span>}
+                </li>
+            ))}
+        </ul>
+      ) : (
+        <p className="p-4 bg-green-900/20 border border-green-700/40 rounded-lg text-center text-green-300">No conflicts found: every subnet is a network address and none of them overlap.</p>
+      )}
+
+      <div className="overflow-x-auto bg-gray-900/50 rounded-lg">
+        <table className="w-full text-sm text-left text-gray-300">
+            <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+                <tr>
+                    <th scope="col" className="px-4 py-3">#</th>
+                    <th scope="col" className="px-4 py-3">Name</th>
+                    <th scope="col" className="px-4 py-3">Block</th>
+                    <th scope="col" className="px-4 py-3">Addresses</th>
+                    <th scope="col" className="px-4 py-3">Inside</th>
+                    <th scope="col" className="px-4 py-3">Status</th>
+                </tr>
+            </thead>
+            <tbody>
+                {result.subnets.map(s => (
+                    <tr key={s.index} className="border-b border-gray-700 hover:bg-gray-700/30">
+                        <td className="px-4 py-3">{s.index + 1}</td>
+                        <td className="px-4 py-3">{s.name}</td>
+                        <td className="px-4 py-3 font-mono">{s.block ?? s.entered}</td>
+                        <td className="px-4 py-3 font-mono">{s.addresses?.toLocaleString() ?? '—'}</td>
+                        <td className="px-4 py-3">{s.parentIndex !== undefined ? result.subnets[s.parentIndex].name : ''}</td>
+                        <td className={`px-4 py-3 font-medium ${STATUS_STYLES[s.status]}`}>{STATUS_LABELS[s.status]}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AuditResults;
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { CidrSetOperation, CidrSetPayload } from '../types';
+import { CIDR_SET_OPERATIONS, CIDR_SET_OPERATION_LABELS, parseNetworkEntry, splitNetworkList } from '../cidrSets';
+
+interface CidrSetCalculatorProps {
+  onCalculate: (payload: CidrSetPayload) => void;
+  loading: boolean;
+  // Seeds the form, e.g. when a calculation is restored from the URL.
+  initialPayload?: CidrSetPayload;
+}
+
+const OPERATION_DESCRIPTIONS: Record<CidrSetOperation, string> = {
+    'ranges': 'Expresses the ranges of list A as the fewest CIDR prefixes.',
+    'union': 'Addresses in list A, list B or both.',
+    'intersection': 'Addresses in both list A and list B.',
+    'difference': 'Addresses in list A that are not in list B, e.g. a block minus its allocations.',
+};
+
+// Returns the first invalid entry of a list as an error message, or null.
+const listError = (text: string): string | null => {
+    const entries = splitNetworkList(text);
+    if (entries.length === 0) return 'Enter at least one network or range.';
+    for (const [i, entry] of entries.entries()) {
+        try {
+            parseNetworkEntry(entry);
+        } catch (e) {
+            return `Line ${i + 1} (${entry}): ${e instanceof Error ? e.message : 'Invalid network.'}`;
+        }
+    }
+    return null;
+};
+
+const CidrSetCalculator: React.FC<CidrSetCalculatorProps> = ({ onCalculate, loading, initialPayload }) => {
+    const [operation, setOperation] = useState<CidrSetOperation>(initialPayload?.operation ?? 'difference');
+    const [listA, setListA] = useState((initialPayload?.listA ?? ['10.0.0.0/16']).join('\n'));
+    const [listB, setListB] = useState((initialPayload?.listB ?? ['10.0.0.0/24', '10.0.4.0 - 10.0.5.255']).join('\n'));
+    const [errors, setErrors] = useState<{ a?: string; b?: string }>({});
+
+    const usesListB = operation !== 'ranges';
+
+    useEffect(() => {
+        const a = listError(listA);
+        const b = usesListB ? listError(listB) : null;
+        setErrors({ ...(a ? { a } : {}), ...(b ? { b } : {}) });
+    }, [listA, listB, usesListB]);
+
+    const isFormValid = !errors.a && !errors.b;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isFormValid) return;
+        onCalculate({ operation, listA: splitNetworkList(listA), listB: usesListB ? splitNetworkList(listB) : [] });
+    };
+
+    const listInput = (id: string, label: string, value: string, onChange: (value: string) => void, error?: string) => (
+        <div>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
+            <textarea
+                id={id} value={value} rows={8}
+                onChange={(e) => onChange(e.target.value)}
+                className={`w-full px-4 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition font-mono text-sm ${
+                    error ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+                }`}
+                placeholder={'10.0.0.0/16\n10.1.0.5 - 10.1.3.200'}
+            />
+            {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+        </div>
+    );
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+                <label htmlFor="cidrSetOperation" className="block text-lg font-medium text-gray-200 mb-2">Operation</label>
+                <select
+                    id="cidrSetOperation" value={operation}
+                    onChange={(e) => setOperation(e.target.value as CidrSetOperation)}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
+                >
+                    {CIDR_SET_OPERATIONS.map(value => <option key={value} value={value}>{CIDR_SET_OPERATION_LABELS[value]}</option>)}
+                </select>
+                <p className="mt-2 text-sm text-gray-400">{OPERATION_DESCRIPTIONS[operation]}</p>
+            </div>
+            <div>
+                <p className="text-sm text-gray-400 mb-2">
+                    One entry per line: CIDR (10.1.4.0/22), address and mask (10.1.4.0 255.255.252.0), a range (10.0.0.5 - 10.0.3.200) or a single address.
+                </p>
+                <div className={`grid grid-cols-1 gap-4 ${usesListB ? 'md:grid-cols-2' : ''}`}>
+                    {listInput('cidrSetListA', usesListB ? 'List A' : 'Ranges', listA, setListA, errors.a)}
+                    {usesListB && listInput('cidrSetListB', 'List B', listB, setListB, errors.b)}
+                </div>
+            </div>
+            <button type="submit" disabled={!isFormValid || loading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 flex items-center justify-center">
+                Calculate
+            </button>
+        </form>
+    );
+};
+
+export default CidrSetCalculator;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { CidrSetResult } from '../types';
+import { CIDR_SET_OPERATION_LABELS } from '../cidrSets';
+import ResultsTable from './ResultsTable';
+
+interface CidrSetResultsProps {
+  result: CidrSetResult;
+}
+
+const CidrSetResults: React.FC<CidrSetResultsProps> = ({ result }) => {
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Operation</p>
+            <p className="text-lg">{CIDR_SET_OPERATION_LABELS[result.operation]}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">{result.addressesB === undefined ? 'Addresses in Ranges' : 'Addresses in A / B'}</p>
+            <p className="font-mono text-lg">
+                {result.addressesA.toLocaleString()}{result.addressesB !== undefined && ` / ${result.addressesB.toLocaleString()}`}
+            </p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Result Prefixes</p>
+            <p className="font-mono text-lg text-teal-300">{result.prefixes.length.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Result Addresses</p>
+            <p className="font-mono text-lg">{result.totalAddresses.toLocaleString()}</p>
+        </div>
+      </div>
+      {result.prefixes.length > 0
+        ? <ResultsTable subnets={result.prefixes} />
+        : <p className="p-4 bg-gray-900/50 rounded-lg text-center text-gray-400">The result is empty: no address matches the operation.</p>}
+    </div>
+  );
+};
+
+export default CidrSetResults;
@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { VlsmCalculationResult } from '../types';
+import { CONFIG_TARGETS, ConfigOptions, DEFAULT_CONFIG_OPTIONS, generateConfig } from '../configSnippets';
+
+interface ConfigSnippetsProps {
+  result: VlsmCalculationResult;
+}
+
+const ConfigSnippets: React.FC<ConfigSnippetsProps> = ({ result }) => {
+  const [targetId, setTargetId] = useState(CONFIG_TARGETS[0].id);
+  const [options, setOptions] = useState<ConfigOptions>(DEFAULT_CONFIG_OPTIONS);
+  const [copied, setCopied] = useState(false);
+
+  const target = CONFIG_TARGETS.find(t => t.id === targetId) ?? CONFIG_TARGETS[0];
+  const snippet = useMemo(() => generateConfig(target, result, options), [target, result, options]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied (e.g. insecure origin); the text remains selectable.
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold mb-4">Configuration Snippets</h3>
+      <div className="flex flex-wrap gap-2 mb-4" role="tablist" aria-label="Configuration target">
+        {CONFIG_TARGETS.map(t => (
+          <button
+            key={t.id}
+            type="button"
+            role="tab"
+            aria-selected={t.id === target.id}
+            onClick={() => { setTargetId(t.id); setCopied(false); }}
+            className={`py-1 px-3 text-sm font-medium rounded-md transition-colors duration-200 ${
+              t.id === target.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        <div>
+          <label htmlFor="configGateway" className="block text-xs font-medium text-gray-400 mb-1">Gateway</label>
+          <select
+            id="configGateway"
+            value={options.gateway}
+            onChange={(e) => setOptions({ ...options, gateway: e.target.value as ConfigOptions['gateway'] })}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+          >
+            <option value="first">First usable host</option>
+            <option value="last">Last usable host</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="configVlan" className="block text-xs font-medium text-gray-400 mb-1">First VLAN ID</label>
+          <input
+            type="number" id="configVlan" min="1" max="4094"
+            value={options.firstVlanId}
+            onChange={(e) => setOptions({ ...options, firstVlanId: Math.min(4094, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+          />
+        </div>
+        {target.defaultInterface && (
+          <div>
+            <label htmlFor="configInterface" className="block text-xs font-medium text-gray-400 mb-1">Parent Interface</label>
+            <input
+              type="text" id="configInterface"
+              value={options.parentInterface ?? ''}
+              onChange={(e) => setOptions({ ...options, parentInterface: e.target.value })}
+              placeholder={target.defaultInterface}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm font-mono"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="relative">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="absolute top-2 right-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-medium py-1 px-2 rounded-md transition-colors"
+        >
+          {copied ? 'Copied!' : 'Copy'}
+        </button>
+        <pre className="bg-gray-900 border border-gray-700 rounded-lg p-4 pr-20 text-sm font-mono text-gray-200 overflow-auto max-h-96">{snippet}</pre>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigSnippets;
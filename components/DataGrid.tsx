@@ -0,0 +1,248 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { GridColumn, GridSort, filterRows, rowsToTsv, sortRows } from '../dataGrid';
+import { AddressRange } from '../cidrSets';
+
+export interface DataGridColumn<Row> extends GridColumn<Row> {
+  // Cell content, defaulting to the column text; `searching` is set while rows are sorted or filtered.
+  render?: (row: Row, searching: boolean) => React.ReactNode;
+  cellClassName?: string;
+}
+
+interface DataGridProps<Row> {
+  columns: DataGridColumn<Row>[];
+  rows: Row[];
+  // Rows to sort and filter instead of `rows`, e.g. every node of a tree whose `rows` skip collapsed branches.
+  searchRows?: Row[];
+  rowKey: (row: Row) => string;
+  rowClassName?: (row: Row) => string;
+  // Addresses of a row, for filtering by IPv4 address, range or CIDR block.
+  rowRange?: (row: Row) => AddressRange | null;
+  // Row to mark and scroll to, e.g. the one picked by the address lookup.
+  highlightedKey?: string | null;
+  // Noun for the rows in the toolbar, e.g. "subnets".
+  itemLabel: string;
+  heightClassName?: string;
+}
+
+// Every row has the same height so the visible window can be computed from the scroll offset alone.
+const ROW_HEIGHT = 44;
+// Rows rendered above and below the viewport so fast scrolling does not show blank space.
+const OVERSCAN = 12;
+
+const HIGHLIGHT = 'bg-blue-900/50 ring-1 ring-inset ring-blue-500';
+
+const buttonClass = 'bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-1 px-3 rounded-md transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Renders only the rows in view, so plans with hundreds of thousands of subnets stay responsive.
+const DataGrid = <Row,>({
+  columns, rows, searchRows, rowKey, rowClassName, rowRange, highlightedKey, itemLabel, heightClassName = 'max-h-[60vh]',
+}: DataGridProps<Row>) => {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<GridSort | null>(null);
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Last row clicked without Shift, where a Shift-click range starts.
+  const [anchor, setAnchor] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Filtering a large plan takes a moment; typing stays responsive while it catches up.
+  const deferredQuery = useDeferredValue(query);
+  const visibleColumns = columns.filter(column => !hidden.has(column.id));
+  const searching = deferredQuery.trim() !== '' || sort !== null;
+
+  const displayed = useMemo(() => {
+    const source = searching ? searchRows ?? rows : rows;
+    const filtered = filterRows(source, columns.filter(column => !hidden.has(column.id)), deferredQuery, rowRange);
+    const sortColumn = sort && columns.find(column => column.id === sort.columnId);
+    return sortColumn ? sortRows(filtered, sortColumn, sort.direction) : filtered;
+  }, [rows, searchRows, columns, hidden, deferredQuery, rowRange, sort, searching]);
+
+  // A new result starts with nothing selected.
+  useEffect(() => {
+    setSelected(new Set());
+    setAnchor(null);
+  }, [rows, searchRows]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const measure = () => setViewportHeight(element.clientHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // The highlighted row may be outside the rendered window, so scroll by its index rather than its element.
+  // Only a new highlight scrolls; re-sorting or filtering keeps the user's position.
+  useEffect(() => {
+    if (!highlightedKey) return;
+    const index = displayed.findIndex(row => rowKey(row) === highlightedKey);
+    const element = scrollRef.current;
+    if (index < 0 || !element) return;
+    element.scrollTo({ top: Math.max(0, index * ROW_HEIGHT - (element.clientHeight - ROW_HEIGHT) / 2), behavior: 'smooth' });
+  }, [highlightedKey]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(displayed.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const windowRows = displayed.slice(first, last);
+
+  const selectedRows = useMemo(() => displayed.filter(row => selected.has(rowKey(row))), [displayed, selected, rowKey]);
+  const allSelected = displayed.length > 0 && selectedRows.length === displayed.length;
+
+  const handleSort = (columnId: string) => {
+    // Ascending, then descending, then back to the original order.
+    if (sort?.columnId !== columnId) setSort({ columnId, direction: 'asc' });
+    else if (sort.direction === 'asc') setSort({ columnId, direction: 'desc' });
+    else setSort(null);
+  };
+
+  const toggleColumn = (columnId: string) => {
+    const next = new Set(hidden);
+    if (!next.delete(columnId)) next.add(columnId);
+    // Keep at least one column on screen.
+    if (next.size < columns.length) setHidden(next);
+  };
+
+  const handleSelect = (row: Row, shiftKey: boolean) => {
+    const key = rowKey(row);
+    const next = new Set(selected);
+    const from = anchor === null ? -1 : displayed.findIndex(r => rowKey(r) === anchor);
+    if (shiftKey && from >= 0) {
+      const to = displayed.indexOf(row);
+      displayed.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(r => next.add(rowKey(r)));
+    } else {
+      if (!next.delete(key)) next.add(key);
+      setAnchor(key);
+    }
+    setSelected(next);
+  };
+
+  const handleSelectAll = () => {
+    setSelected(allSelected ? new Set() : new Set(displayed.map(rowKey)));
+  };
+
+  const handleCopy = async () => {
+    if (selectedRows.length === 0) return;
+    try {
+      await navigator.clipboard.writeText(rowsToTsv(selectedRows, visibleColumns));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied (e.g. insecure origin); the exports still work.
+      setCopied(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'c' && selectedRows.length > 0) {
+      e.preventDefault();
+      handleCopy();
+    }
+  };
+
+  const sortIndicator = (columnId: string) => {
+    if (sort?.columnId !== columnId) return '';
+    return sort.direction === 'asc' ? ' ▲' : ' ▼';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={rowRange ? 'Filter by text, address or CIDR…' : 'Filter…'}
+          aria-label={`Filter ${itemLabel}`}
+          className="flex-1 min-w-[12rem] px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+        />
+        <details className="relative">
+          <summary className={`${buttonClass} list-none cursor-pointer`}>Columns</summary>
+          <div className="absolute right-0 z-20 mt-1 w-56 p-2 space-y-1 bg-gray-800 border border-gray-600 rounded-lg shadow-lg">
+            {columns.map(column => (
+              <label key={column.id} className="flex items-center gap-2 px-2 py-1 text-sm text-gray-300 rounded hover:bg-gray-700 cursor-pointer">
+                <input type="checkbox" checked={!hidden.has(column.id)} onChange={() => toggleColumn(column.id)} />
+                {column.label}
+              </label>
+            ))}
+          </div>
+        </details>
+        <button type="button" onClick={handleCopy} disabled={selectedRows.length === 0} className={buttonClass}>
+          {copied ? 'Copied!' : selectedRows.length > 0 ? `Copy ${selectedRows.length.toLocaleString()} Selected` : 'Copy Selected'}
+        </button>
+      </div>
+      <div className="w-full overflow-hidden rounded-lg border border-gray-700">
+        <div
+          ref={scrollRef}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          onKeyDown={handleKeyDown}
+          tabIndex={0}
+          className={`${heightClassName} overflow-auto focus:outline-none`}
+        >
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead className="bg-gray-700/50 sticky top-0 z-10">
+              <tr>
+                <th scope="col" className="w-10 py-3.5 pl-4 text-left">
+                  <input type="checkbox" checked={allSelected} onChange={handleSelectAll} aria-label={`Select all ${itemLabel}`} />
+                </th>
+                {visibleColumns.map(column => (
+                  <th
+                    key={column.id} scope="col"
+                    aria-sort={sort?.columnId === column.id ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                    className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300 whitespace-nowrap"
+                  >
+                    <button type="button" onClick={() => handleSort(column.id)} className="hover:text-gray-100">
+                      {column.label}{sortIndicator(column.id)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            {/* No borders between rows: they would add to ROW_HEIGHT and drift from the spacer rows. */}
+            <tbody className="bg-gray-900/50">
+              {first > 0 && <tr aria-hidden="true" style={{ height: first * ROW_HEIGHT }} />}
+              {windowRows.map(row => {
+                const key = rowKey(row);
+                const isSelected = selected.has(key);
+                return (
+                  <tr
+                    key={key}
+                    style={{ height: ROW_HEIGHT }}
+                    className={`transition-colors ${key === highlightedKey ? HIGHLIGHT : isSelected ? 'bg-gray-700/60' : rowClassName?.(row) ?? 'hover:bg-gray-800/60'}`}
+                  >
+                    <td className="w-10 pl-4">
+                      <input
+                        type="checkbox" checked={isSelected}
+                        onChange={(e) => handleSelect(row, (e.nativeEvent as MouseEvent).shiftKey)}
+                        aria-label="Select row"
+                      />
+                    </td>
+                    {visibleColumns.map(column => (
+                      <td key={column.id} className={`whitespace-nowrap px-4 text-sm ${column.cellClassName ?? 'text-gray-300'}`}>
+                        {column.render ? column.render(row, searching) : column.text(row)}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+              {last < displayed.length && <tr aria-hidden="true" style={{ height: (displayed.length - last) * ROW_HEIGHT }} />}
+            </tbody>
+          </table>
+          {displayed.length === 0 && <p className="p-4 text-center text-sm text-gray-400">No {itemLabel} match the filter.</p>}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        {!searching
+          ? `${rows.length.toLocaleString()} ${itemLabel}`
+          : `Showing ${displayed.length.toLocaleString()} of ${(searchRows ?? rows).length.toLocaleString()} ${itemLabel}`}
+        {' · '}Click a header to sort, Shift-click checkboxes to select a range, Ctrl+C to copy the selection.
+      </p>
+    </div>
+  );
+};
+
+export default DataGrid;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { CalculationMode, Ipv6CalculationPayload } from '../types';
+import { parseIpv6Cidr, parsePrefixLength6 } from '../ipv6';
+
+interface Ipv6CalculatorProps {
+  onCalculate: (payload: Ipv6CalculationPayload) => void;
+  loading: boolean;
+  // Seeds the form, e.g. when a calculation is restored from the URL.
+  initialPayload?: Ipv6CalculationPayload;
+}
+
+type Ipv6Mode = CalculationMode.SUBNETS | CalculationMode.MASK;
+
+const Ipv6Calculator: React.FC<Ipv6CalculatorProps> = ({ onCalculate, loading, initialPayload }) => {
+  const [network, setNetwork] = useState<string>(initialPayload ? `${initialPayload.ipAddress}/${initialPayload.parentCidr}` : '2001:db8::/48');
+  const [calculationMode, setCalculationMode] = useState<Ipv6Mode>(initialPayload?.calculationMode ?? CalculationMode.MASK);
+  const [requiredSubnets, setRequiredSubnets] = useState(String(initialPayload?.requiredSubnets ?? 16));
+  const [nibbleAligned, setNibbleAligned] = useState(initialPayload?.nibbleAligned ?? true);
+  const [prefixValue, setPrefixValue] = useState(initialPayload?.mask ?? '/64');
+
+  const [validationErrors, setValidationErrors] = useState<{ network?: string, subnets?: string, mask?: string }>({});
+
+  useEffect(() => {
+    const newErrors: { network?: string, subnets?: string, mask?: string } = {};
+    let parentCidr: number | null = null;
+    try {
+      parentCidr = parseIpv6Cidr(network).cidr;
+    } catch (e) {
+      newErrors.network = e instanceof Error ? e.message : "An unknown validation error occurred.";
+    }
+
+    if (parentCidr !== null) {
+      if (calculationMode === CalculationMode.SUBNETS) {
+        const subnetsNum = parseInt(requiredSubnets, 10);
+        if (isNaN(subnetsNum) || subnetsNum <= 0) {
+          newErrors.subnets = "Must be a positive number.";
+        } else {
+          let subnetBits = Math.ceil(Math.log2(subnetsNum));
+          if (nibbleAligned) subnetBits = Math.ceil(subnetBits / 4) * 4;
+          if (parentCidr + subnetBits > 128) {
+            newErrors.subnets = `Not enough bits in a /${parentCidr} network for this many subnets.`;
+          } else if (subnetBits > 16) {
+            newErrors.subnets = "This generates over 100,000 subnets. Please select a smaller value.";
+          }
+        }
+      } else {
+        try {
+          const newCidr = parsePrefixLength6(prefixValue);
+          if (newCidr < parentCidr) {
+            newErrors.mask = `Prefix is shorter than the parent prefix /${parentCidr}.`;
+          } else if (newCidr - parentCidr > 16) {
+            newErrors.mask = "This generates over 100,000 subnets. Please select a smaller value.";
+          }
+        } catch (e) {
+          newErrors.mask = e instanceof Error ? e.message : "An unknown validation error occurred.";
+        }
+      }
+    }
+    setValidationErrors(newErrors);
+  }, [network, calculationMode, requiredSubnets, nibbleAligned, prefixValue]);
+
+  const isFormValid = Object.keys(validationErrors).length === 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isFormValid) return;
+
+    const { ipAddress, cidr } = parseIpv6Cidr(network);
+    const payload: Ipv6CalculationPayload = { calculationMode, ipAddress, parentCidr: cidr };
+    if (calculationMode === CalculationMode.SUBNETS) {
+      payload.requiredSubnets = parseInt(requiredSubnets, 10);
+      payload.nibbleAligned = nibbleAligned;
+    } else {
+      payload.mask = prefixValue;
+    }
+    onCalculate(payload);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="ipv6Network" className="block text-sm font-medium text-gray-300 mb-2">Parent Network (CIDR)</label>
+          <input
+            type="text"
+            id="ipv6Network"
+            value={network}
+            onChange={(e) => setNetwork(e.target.value)}
+            className={`w-full px-4 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition font-mono ${
+              validationErrors.network ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+            }`}
+            placeholder="e.g., 2001:db8::/48"
+          />
+          {validationErrors.network && <p className="mt-2 text-sm text-red-400">{validationErrors.network}</p>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Calculate By</label>
+          <div className="flex bg-gray-700 rounded-lg p-1">
+            <button
+              type="button"
+              onClick={() => setCalculationMode(CalculationMode.SUBNETS)}
+              className={`w-1/2 py-2 px-3 text-sm font-medium rounded-md transition-colors duration-200 ${
+                calculationMode === CalculationMode.SUBNETS ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              # of Subnets
+            </button>
+            <button
+              type="button"
+              onClick={() => setCalculationMode(CalculationMode.MASK)}
+              className={`w-1/2 py-2 px-3 text-sm font-medium rounded-md transition-colors duration-200 ${
+                calculationMode === CalculationMode.MASK ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              Prefix Length
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {calculationMode === CalculationMode.SUBNETS ? (
+        <div>
+          <label htmlFor="ipv6RequiredSubnets" className="block text-sm font-medium text-gray-300 mb-2">Required Subnets</label>
+          <input
+            type="number"
+            id="ipv6RequiredSubnets"
+            value={requiredSubnets}
+            onChange={(e) => setRequiredSubnets(e.target.value)}
+            className={`w-full px-4 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition ${
+              validationErrors.subnets ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+            }`}
+            min="1"
+          />
+          {validationErrors.subnets && <p className="mt-2 text-sm text-red-400">{validationErrors.subnets}</p>}
+          <label className="mt-3 flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={nibbleAligned}
+              onChange={(e) => setNibbleAligned(e.target.checked)}
+              className="rounded bg-gray-700 border-gray-600"
+            />
+            Round up to a nibble boundary (prefixes end on a hex digit)
+          </label>
+        </div>
+      ) : (
+        <div>
+          <label htmlFor="ipv6Prefix" className="block text-sm font-medium text-gray-300 mb-2">Subnet Prefix Length</label>
+          <input
+            type="text"
+            id="ipv6Prefix"
+            value={prefixValue}
+            onChange={(e) => setPrefixValue(e.target.value)}
+            className={`w-full px-4 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition ${
+              validationErrors.mask ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+            }`}
+            placeholder="e.g., /64"
+          />
+          {validationErrors.mask && <p className="mt-2 text-sm text-red-400">{validationErrors.mask}</p>}
+        </div>
+      )}
+
+      <button type="submit" disabled={!isFormValid || loading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 flex items-center justify-center">
+        {loading ? 'Calculating...' : 'Calculate'}
+      </button>
+    </form>
+  );
+};
+
+export default Ipv6Calculator;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Ipv6CalculationResult } from '../types';
+
+interface Ipv6SummaryProps {
+    result: Ipv6CalculationResult;
+}
+
+const Ipv6Summary: React.FC<Ipv6SummaryProps> = ({ result }) => (
+    <div className="grid grid-cols-2 gap-4 text-center mb-6">
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Parent Network</p>
+            <p className="font-mono text-lg break-all">{result.parentNetwork}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Subnet Prefix</p>
+            <p className="font-mono text-lg">/{result.cidr}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Total Subnets</p>
+            <p className="font-mono text-lg">{result.totalSubnets.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Addresses per Subnet</p>
+            <p className="font-mono text-lg break-all">{BigInt(result.addressesPerSubnet).toLocaleString()}</p>
+        </div>
+    </div>
+);
+
+export default Ipv6Summary;
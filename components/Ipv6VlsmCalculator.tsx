@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { Ipv6VlsmCalculationPayload } from '../types';
+import { parseIpv6Cidr } from '../ipv6';
+
+interface Ipv6VlsmCalculatorProps {
+  onCalculate: (payload: Ipv6VlsmCalculationPayload) => void;
+  loading: boolean;
+  // Seeds the form, e.g. when a calculation is restored from the URL.
+  initialPayload?: Ipv6VlsmCalculationPayload;
+}
+
+const PREFIX_CHOICES = [56, 60, 62, 63, 64];
+
+const Ipv6VlsmCalculator: React.FC<Ipv6VlsmCalculatorProps> = ({ onCalculate, loading, initialPayload }) => {
+    const [network, setNetwork] = useState(initialPayload ? `${initialPayload.ipAddress}/${initialPayload.cidr}` : '2001:db8::/48');
+    const [subnets, setSubnets] = useState<{ id: string, name: string, prefixLength: string, count: string }[]>(() =>
+        initialPayload
+            ? initialPayload.subnets.map((s, i) => ({ id: `subnet6-${Date.now()+i}`, name: s.name, prefixLength: String(s.prefixLength), count: String(s.count) }))
+            : [
+                { id: `subnet6-${Date.now()}`, name: 'Sites', prefixLength: '56', count: '4' },
+                { id: `subnet6-${Date.now()+1}`, name: 'VLANs', prefixLength: '64', count: '16' },
+            ]
+    );
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
+    const isFormValid = Object.keys(errors).length === 0;
+
+    useEffect(() => {
+        const newErrors: Record<string, string> = {};
+        let baseCidr: number | null = null;
+        try {
+            baseCidr = parseIpv6Cidr(network).cidr;
+        } catch (e) {
+            newErrors.network = e instanceof Error ? e.message : "An unknown validation error occurred.";
+        }
+
+        const names = new Set();
+        subnets.forEach((subnet) => {
+            if (!subnet.name.trim()) {
+                newErrors[`name-${subnet.id}`] = "Name is required.";
+            } else if (names.has(subnet.name.trim())) {
+                newErrors[`name-${subnet.id}`] = "Group names must be unique.";
+            }
+            names.add(subnet.name.trim());
+
+            const prefix = parseInt(subnet.prefixLength, 10);
+            if (isNaN(prefix) || prefix > 128 || (baseCidr !== null && prefix < baseCidr)) {
+                newErrors[`prefix-${subnet.id}`] = baseCidr !== null ? `Must be /${baseCidr}-/128.` : "Invalid prefix.";
+            }
+            const countNum = parseInt(subnet.count, 10);
+            if (isNaN(countNum) || countNum <= 0) {
+                newErrors[`count-${subnet.id}`] = "Must be > 0.";
+            }
+        });
+
+        if (Object.keys(newErrors).length === 0 && baseCidr !== null) {
+            const required = subnets.reduce((sum, s) =>
+                sum + (1n << BigInt(128 - parseInt(s.prefixLength, 10))) * BigInt(parseInt(s.count, 10)), 0n);
+            if (required > 1n << BigInt(128 - baseCidr)) {
+                newErrors.overall = `The requested blocks do not fit in a /${baseCidr} network.`;
+            }
+        }
+        setErrors(newErrors);
+    }, [network, subnets]);
+
+    const handleAddSubnet = () => {
+        setSubnets([...subnets, {
+            id: `subnet6-${Date.now()}`,
+            name: `Group ${subnets.length + 1}`,
+            prefixLength: '64',
+            count: '1',
+        }]);
+    };
+
+    const handleRemoveSubnet = (id: string) => {
+        if (subnets.length > 1) {
+            setSubnets(subnets.filter(s => s.id !== id));
+        }
+    };
+
+    const handleSubnetChange = (id: string, field: 'name' | 'prefixLength' | 'count', value: string) => {
+        setSubnets(subnets.map(s => (s.id === id ? { ...s, [field]: value } : s)));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isFormValid) return;
+
+        const { ipAddress, cidr } = parseIpv6Cidr(network);
+        onCalculate({
+            ipAddress,
+            cidr,
+            subnets: subnets.map(s => ({
+                id: s.id,
+                name: s.name.trim(),
+                prefixLength: parseInt(s.prefixLength, 10),
+                count: parseInt(s.count, 10),
+            })),
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+                <h3 className="text-lg font-medium text-gray-200 mb-2">Base Network</h3>
+                <label htmlFor="vlsm6Network" className="sr-only">Network (CIDR)</label>
+                <input
+                    type="text" id="vlsm6Network" value={network}
+                    onChange={(e) => setNetwork(e.target.value)}
+                    className={`w-full px-4 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition font-mono ${
+                        errors.network ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+                    }`}
+                    placeholder="e.g., 2001:db8::/48"
+                />
+                {errors.network && <p className="mt-2 text-sm text-red-400">{errors.network}</p>}
+            </div>
+
+            <div>
+                <h3 className="text-lg font-medium text-gray-200 mb-2">Required Subnet Groups</h3>
+                <datalist id="ipv6-prefix-choices">
+                    {PREFIX_CHOICES.map(p => <option key={p} value={p} />)}
+                </datalist>
+                <div className="space-y-3">
+                    {subnets.map((subnet) => (
+                        <div key={subnet.id} className="grid grid-cols-12 gap-3 items-start p-3 bg-gray-900/50 rounded-lg">
+                           <div className="col-span-12 sm:col-span-2">
+                                <label htmlFor={`count-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1"># Subnets</label>
+                                <input
+                                    type="number" id={`count-${subnet.id}`} value={subnet.count}
+                                    onChange={(e) => handleSubnetChange(subnet.id, 'count', e.target.value)}
+                                    min="1"
+                                    className={`w-full px-3 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition text-sm ${
+                                        errors[`count-${subnet.id}`] ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+                                    }`}
+                                />
+                                {errors[`count-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`count-${subnet.id}`]}</p>}
+                           </div>
+                           <div className="col-span-12 sm:col-span-6">
+                                <label htmlFor={`name-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1">Name Prefix</label>
+                                <input
+                                    type="text" id={`name-${subnet.id}`} value={subnet.name}
+                                    onChange={(e) => handleSubnetChange(subnet.id, 'name', e.target.value)}
+                                    className={`w-full px-3 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition text-sm ${
+                                        errors[`name-${subnet.id}`] ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+                                    }`}
+                                    placeholder={`e.g. Campus VLANs`}
+                                />
+                                {errors[`name-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`name-${subnet.id}`]}</p>}
+                           </div>
+                           <div className="col-span-12 sm:col-span-3">
+                                <label htmlFor={`prefix-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1">Prefix Length</label>
+                                <div className="relative">
+                                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400 text-sm">/</div>
+                                    <input
+                                        type="number" id={`prefix-${subnet.id}`} value={subnet.prefixLength}
+                                        onChange={(e) => handleSubnetChange(subnet.id, 'prefixLength', e.target.value)}
+                                        list="ipv6-prefix-choices" min="1" max="128"
+                                        className={`w-full pl-7 pr-3 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition text-sm ${
+                                            errors[`prefix-${subnet.id}`] ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+                                        }`}
+                                    />
+                                </div>
+                                {errors[`prefix-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`prefix-${subnet.id}`]}</p>}
+                           </div>
+                           <div className="col-span-12 sm:col-span-1 flex items-end">
+                                <button
+                                    type="button"
+                                    onClick={() => handleRemoveSubnet(subnet.id)}
+                                    className="w-full h-10 flex items-center justify-center text-gray-400 hover:text-white bg-gray-700 hover:bg-red-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-gray-700"
+                                    aria-label="Remove Subnet Group"
+                                    disabled={subnets.length <= 1}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
+                                </button>
+                           </div>
+                        </div>
+                    ))}
+                </div>
+                <button type="button" onClick={handleAddSubnet} className="mt-4 text-sm font-medium text-blue-400 hover:text-blue-300 flex items-center gap-2">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-11a1 1 0 10-2 0v2H7a1 1 0 100 2h2v2a1 1 0 102 0v-2h2a1 1 0 100-2h-2V7z" clipRule="evenodd" /></svg>
+                    Add Group
+                </button>
+            </div>
+            {errors.overall && <p className="mt-2 text-sm text-red-400 text-center">{errors.overall}</p>}
+            <button type="submit" disabled={!isFormValid || loading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 flex items-center justify-center">
+                Calculate IPv6 VLSM Plan
+            </button>
+        </form>
+    );
+};
+
+export default Ipv6VlsmCalculator;
@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { VlsmCalculationResult } from '../types';
+import { SavedPlan } from '../planLibrary';
+import { parsePlanDocument } from '../planFormat';
+import { ExportFile } from '../exporters';
+import PlanDiff from './PlanDiff';
+
+interface PlanComparisonProps {
+  current: VlsmCalculationResult;
+  plans: SavedPlan[];
+  onDownload: (file: ExportFile) => void;
+}
+
+// Compares the plan on screen with a saved plan or a plan file, e.g. to review an addressing change.
+const PlanComparison: React.FC<PlanComparisonProps> = ({ current, plans, onDownload }) => {
+  // planId is set when the baseline comes from the library rather than a file.
+  const [baseline, setBaseline] = useState<{ label: string; result: VlsmCalculationResult; planId?: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Entries saved without their result (too large to keep) cannot be compared until recalculated.
+  const candidates = plans.filter(plan => plan.request.calculator === 'vlsm' && plan.result);
+
+  const handleSelect = (id: string) => {
+    const plan = candidates.find(p => p.id === id);
+    setError(null);
+    setBaseline(plan ? { label: `Saved plan '${plan.name}'`, result: plan.result as VlsmCalculationResult, planId: plan.id } : null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow comparing with the same file again after changing it.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePlanDocument(await file.text());
+      if (!imported.result) throw new Error("The plan file has no allocations to compare. Calculate and export the plan first.");
+      setBaseline({ label: `Plan file '${imported.metadata.name}'`, result: imported.result });
+      setError(null);
+    } catch (err) {
+      setBaseline(null);
+      setError(err instanceof Error ? err.message : 'Could not read the plan file.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="comparePlan" className="text-sm text-gray-300">Compare with:</label>
+        <select
+          id="comparePlan"
+          value={baseline?.planId ?? ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+        >
+          <option value="">{candidates.length > 0 ? 'Choose a saved plan…' : 'No saved VLSM plans'}</option>
+          {candidates.map(plan => <option key={plan.id} value={plan.id}>{plan.name}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-2 px-3 rounded-lg transition-colors text-sm"
+        >
+          Plan File (JSON)…
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+        {baseline && (
+          <button type="button" onClick={() => setBaseline(null)} className="text-sm text-gray-400 hover:text-gray-200">
+            Clear
+          </button>
+        )}
+      </div>
+      {error && <p className="p-3 bg-red-900/20 border border-red-700/40 rounded-lg text-sm text-red-300">{error}</p>}
+      {baseline && (
+        <PlanDiff
+          before={baseline.result} after={current}
+          beforeLabel={baseline.label} afterLabel="Current plan"
+          title="Plan Comparison" onDownload={onDownload}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PlanComparison;
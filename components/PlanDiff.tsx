@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { VlsmCalculationResult } from '../types';
+import {
+  PLAN_CHANGE_LABELS,
+  PlanChangeField,
+  PlanChangeKind,
+  buildChangeReport,
+  countPlanChanges,
+  diffVlsmPlans,
+  planChangeFields,
+} from '../planDiff';
+import { renderCsv, renderHtmlReport, renderMarkdown } from '../planReport';
+import { ExportFile } from '../exporters';
+
+interface PlanDiffProps {
+  before: VlsmCalculationResult;
+  after: VlsmCalculationResult;
+  beforeLabel: string;
+  afterLabel: string;
+  title: string;
+  onDownload: (file: ExportFile) => void;
+}
+
+const KIND_STYLES: Record<PlanChangeKind, string> = {
+  'added': 'text-green-400',
+  'removed': 'text-red-400',
+  'resized': 'text-yellow-300',
+  're-addressed': 'text-orange-300',
+  'unchanged': 'text-gray-400',
+};
+
+const KINDS: PlanChangeKind[] = ['added', 'removed', 'resized', 're-addressed', 'unchanged'];
+
+const FieldCell: React.FC<{ field: PlanChangeField }> = ({ field }) => (
+  <td className={`px-4 py-3 font-mono ${field.changed ? 'bg-yellow-900/30 text-yellow-200 font-semibold' : ''}`}>{field.text}</td>
+);
+
+// Subnets added, removed, resized or re-addressed between two plans; unchanged subnets are only counted.
+const PlanDiff: React.FC<PlanDiffProps> = ({ before, after, beforeLabel, afterLabel, title, onDownload }) => {
+  const [copied, setCopied] = useState(false);
+  const changes = useMemo(() => diffVlsmPlans(before, after), [before, after]);
+  const report = useMemo(() => buildChangeReport(changes, after, { before: beforeLabel, after: afterLabel }), [changes, after, beforeLabel, afterLabel]);
+  const counts = countPlanChanges(changes);
+  const changed = changes.filter(change => change.kind !== 'unchanged');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(renderMarkdown(report));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied (e.g. insecure origin); the downloads still work.
+      setCopied(false);
+    }
+  };
+
+  const buttonClass = 'bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-1 px-3 rounded-md transition-colors text-sm';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h3 className="text-xl font-semibold">{title}</h3>
+          <p className="text-sm text-gray-400">{beforeLabel} → {afterLabel}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={handleCopy} className={buttonClass}>{copied ? 'Copied!' : 'Copy as Markdown'}</button>
+          <button
+            type="button" className={buttonClass}
+            onClick={() => onDownload({ filename: `${report.fileStem}.md`, mimeType: 'text/markdown', content: renderMarkdown(report) })}
+          >
+            Markdown
+          </button>
+          <button
+            type="button" className={buttonClass}
+            onClick={() => onDownload({ filename: `${report.fileStem}.csv`, mimeType: 'text/csv', content: renderCsv(report) })}
+          >
+            CSV
+          </button>
+          <button
+            type="button" className={buttonClass}
+            onClick={() => onDownload({ filename: `${report.fileStem}.html`, mimeType: 'text/html', content: renderHtmlReport(report), openInNewTab: true })}
+          >
+            Printable Report
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 text-center">
+        {KINDS.map(kind => (
+            <div key={kind} className="bg-gray-700 p-4 rounded-lg">
+                <p className="text-sm text-gray-400">{PLAN_CHANGE_LABELS[kind]}</p>
+                <p className={`font-mono text-lg ${counts[kind] > 0 ? KIND_STYLES[kind] : 'text-gray-300'}`}>{counts[kind].toLocaleString()}</p>
+            </div>
+        ))}
+      </div>
+
+      {changed.length === 0 ? (
+        <p className="p-4 bg-green-900/20 border border-green-700/40 rounded-lg text-center text-green-300">Every subnet kept its address and size.</p>
+      ) : (
+        <div className="overflow-x-auto bg-gray-900/50 rounded-lg">
+          <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+                  <tr>
+                      <th scope="col" className="px-4 py-3">Change</th>
+                      <th scope="col" className="px-4 py-3">Subnet</th>
+                      <th scope="col" className="px-4 py-3">Network Address</th>
+                      <th scope="col" className="px-4 py-3">CIDR</th>
+                      <th scope="col" className="px-4 py-3">Allocated Hosts</th>
+                  </tr>
+              </thead>
+              <tbody>
+                  {changed.map(change => {
+                      const fields = planChangeFields(change);
+                      return (
+                          <tr key={`${change.kind}:${change.path}`} className="border-b border-gray-700 hover:bg-gray-700/30">
+                              <td className={`px-4 py-3 font-medium ${KIND_STYLES[change.kind]}`}>{PLAN_CHANGE_LABELS[change.kind]}</td>
+                              <td className="px-4 py-3">{change.path}</td>
+                              <FieldCell field={fields.network} />
+                              <FieldCell field={fields.prefix} />
+                              <FieldCell field={fields.hosts} />
+                          </tr>
+                      );
+                  })}
+              </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanDiff;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { CalculationProgress } from '../types';
+
+interface ProgressPanelProps {
+  // Null until the worker reports progress; calculations that finish quickly never do.
+  progress: CalculationProgress | null;
+  onCancel: () => void;
+}
+
+const ProgressPanel: React.FC<ProgressPanelProps> = ({ progress, onCancel }) => {
+  const percent = progress && progress.total > 0 ? Math.min(100, (progress.done / progress.total) * 100) : null;
+  return (
+    <div className="space-y-3" role="status" aria-live="polite">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-lg text-gray-300">
+          Calculating…
+          {progress && (
+            <span className="ml-2 text-sm text-gray-400">
+              {progress.done.toLocaleString()} of {progress.total.toLocaleString()} {progress.label}
+            </span>
+          )}
+        </p>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-gray-700 hover:bg-red-700 text-gray-200 font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+      <div
+        className="h-2 w-full overflow-hidden rounded-full bg-gray-700"
+        role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent === null ? undefined : Math.round(percent)}
+      >
+        {percent === null
+          ? <div className="h-full w-full bg-blue-500/60 animate-pulse" />
+          : <div className="h-full bg-blue-500 transition-[width] duration-200" style={{ width: `${percent}%` }} />}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressPanel;
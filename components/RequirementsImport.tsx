@@ -0,0 +1,158 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { SubnetGroupInput } from '../vlsmGroups';
+import { ColumnMapping, RequirementField, columnLabel, guessColumnMapping, looksLikeHeader, mapRequirementRows, readSheetFile } from '../sheetImport';
+
+interface RequirementsImportProps {
+  onImport: (groups: SubnetGroupInput[]) => void;
+}
+
+const FIELDS: { field: RequirementField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'hosts', label: 'Hosts per Subnet' },
+  { field: 'count', label: '# Subnets' },
+];
+
+const RequirementsImport: React.FC<RequirementsImportProps> = ({ onImport }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({ name: 0, hosts: 1, count: 2 });
+  const [hasHeader, setHasHeader] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(() => (rows ? mapRequirementRows(rows, mapping, hasHeader) : []), [rows, mapping, hasHeader]);
+  const invalidRows = preview.filter(row => Object.keys(row.errors).length > 0).length;
+  const columnCount = rows ? Math.max(...rows.map(row => row.length)) : 0;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow re-importing the same file after editing it.
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const sheetRows = await readSheetFile(file);
+      const guessed = guessColumnMapping(sheetRows[0]);
+      setFileName(file.name);
+      setMapping(guessed);
+      setHasHeader(looksLikeHeader(sheetRows[0], guessed));
+      setRows(sheetRows);
+    } catch (err) {
+      setRows(null);
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  };
+
+  const handleMappingChange = (field: RequirementField, value: string) => {
+    const index = value === '' ? null : parseInt(value, 10);
+    setMapping({ ...mapping, [field]: field === 'count' ? index : index ?? 0 });
+  };
+
+  const handleConfirm = () => {
+    if (preview.length === 0 || invalidRows > 0) return;
+    onImport(preview.map(row => row.group));
+    setRows(null);
+  };
+
+  const columnName = (index: number) =>
+    hasHeader && rows?.[0][index] ? `${columnLabel(index)}: ${rows[0][index]}` : `Column ${columnLabel(index)}`;
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        className="text-sm font-medium text-blue-400 hover:text-blue-300"
+      >
+        Import from CSV/Excel
+      </button>
+      <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.xls,text/csv" className="hidden" onChange={handleFileChange} />
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+
+      {rows && (
+        <div className="mt-3 p-4 bg-gray-900/50 rounded-lg border border-gray-700 space-y-4">
+          <div className="flex flex-wrap justify-between items-center gap-3">
+            <h4 className="font-medium text-gray-200">Preview of {fileName}</h4>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(e) => setHasHeader(e.target.checked)}
+                className="rounded bg-gray-700 border-gray-600"
+              />
+              First row is a header
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label htmlFor={`map-${field}`} className="block text-xs font-medium text-gray-400 mb-1">{label} column</label>
+                <select
+                  id={`map-${field}`}
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                >
+                  {field === 'count' && <option value="">Not in sheet (1 each)</option>}
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <option key={i} value={i}>{columnName(i)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="max-h-72 overflow-auto rounded-lg border border-gray-700">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-800 sticky top-0">
+                <tr className="text-left text-gray-400">
+                  <th className="px-3 py-2 font-medium">Row</th>
+                  {FIELDS.map(({ field, label }) => <th key={field} className="px-3 py-2 font-medium">{label}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {preview.map(row => (
+                  <tr key={row.rowNumber} className={Object.keys(row.errors).length > 0 ? 'bg-red-900/20' : ''}>
+                    <td className="px-3 py-2 text-gray-500 font-mono">{row.rowNumber}</td>
+                    {FIELDS.map(({ field }) => (
+                      <td key={field} className="px-3 py-2 text-gray-200">
+                        {row.group[field] || <span className="text-gray-500">—</span>}
+                        {row.errors[field] && <p className="text-xs text-red-400">{row.errors[field]}</p>}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap justify-between items-center gap-3">
+            <p className={`text-sm ${invalidRows > 0 ? 'text-red-400' : 'text-gray-400'}`}>
+              {preview.length === 0
+                ? 'No data rows found.'
+                : invalidRows > 0
+                  ? `${invalidRows} of ${preview.length} rows have errors. Fix the sheet or the column mapping.`
+                  : `${preview.length} groups will replace the current groups.`}
+            </p>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setRows(null)} className="text-sm text-gray-300 hover:text-white py-2 px-3">
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={preview.length === 0 || invalidRows > 0}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors text-sm"
+              >
+                Import Groups
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RequirementsImport;
@@ -1,51 +1,60 @@
-import React from 'react';
-import { Subnet } from '../types';
+import React, { useMemo } from 'react';
+import { AddressFamily, Subnet } from '../types';
+import { ipToBigInt } from '../ipv4';
+import { ipv6ToBigInt } from '../ipv6';
+import DataGrid, { DataGridColumn } from './DataGrid';
+
+type ResultRow = Subnet & { cidr?: number };
 
 interface ResultsTableProps {
-  subnets: Subnet[];
+  // Rows with a prefix length (e.g. CIDR set results) show it after the network address.
+  subnets: ResultRow[];
+  addressFamily?: AddressFamily;
+  // Row picked by the address lookup; it is marked and scrolled into view.
+  highlightedId?: number | null;
 }
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ subnets }) => {
+const rowKey = (subnet: ResultRow) => String(subnet.id);
+
+const ipv4Range = (subnet: ResultRow) => ({ start: ipToBigInt(subnet.networkAddress), end: ipToBigInt(subnet.broadcastAddress) });
+
+const ResultsTable: React.FC<ResultsTableProps> = ({ subnets, addressFamily = AddressFamily.IPV4, highlightedId }) => {
+  const isIpv6 = addressFamily === AddressFamily.IPV6;
+
+  const columns = useMemo((): DataGridColumn<ResultRow>[] => {
+    const toBigInt = isIpv6 ? ipv6ToBigInt : ipToBigInt;
+    return [
+      {
+        id: 'id', label: 'Subnet #', cellClassName: 'font-medium text-gray-200',
+        sortValue: s => s.id, text: s => String(s.id),
+      },
+      {
+        id: 'network', label: 'Network Address', cellClassName: 'font-mono text-gray-300',
+        sortValue: s => toBigInt(s.networkAddress),
+        text: s => `${s.networkAddress}${s.cidr !== undefined ? `/${s.cidr}` : ''}`,
+      },
+      {
+        id: 'range', label: isIpv6 ? 'Address Range' : 'Usable Host Range', cellClassName: 'font-mono text-gray-300',
+        sortValue: s => toBigInt(s.networkAddress), text: s => s.usableHostRange,
+      },
+      {
+        id: 'last', label: isIpv6 ? 'Last Address' : 'Broadcast Address', cellClassName: 'font-mono text-gray-300',
+        sortValue: s => toBigInt(s.broadcastAddress), text: s => s.broadcastAddress,
+      },
+    ];
+  }, [isIpv6]);
+
   return (
-    <div className="w-full mt-4 overflow-hidden rounded-lg border border-gray-700">
-      <div className="max-h-[50vh] overflow-y-auto">
-        <table className="min-w-full divide-y divide-gray-700">
-          <thead className="bg-gray-700/50 sticky top-0 z-10">
-            <tr>
-              <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">
-                Subnet #
-              </th>
-              <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">
-                Network Address
-              </th>
-              <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">
-                Usable Host Range
-              </th>
-              <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">
-                Broadcast Address
-              </th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-gray-800 bg-gray-900/50">
-            {subnets.map((subnet) => (
-              <tr key={subnet.id} className="hover:bg-gray-800/60 transition-colors">
-                <td className="whitespace-nowrap py-4 px-4 text-sm font-medium text-gray-200">
-                  {subnet.id}
-                </td>
-                <td className="whitespace-nowrap py-4 px-4 text-sm text-gray-300 font-mono">
-                  {subnet.networkAddress}
-                </td>
-                <td className="whitespace-nowrap py-4 px-4 text-sm text-gray-300 font-mono">
-                  {subnet.usableHostRange}
-                </td>
-                <td className="whitespace-nowrap py-4 px-4 text-sm text-gray-300 font-mono">
-                  {subnet.broadcastAddress}
-                </td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
+    <div className="w-full mt-4">
+      <DataGrid
+        columns={columns}
+        rows={subnets}
+        rowKey={rowKey}
+        rowRange={isIpv6 ? undefined : ipv4Range}
+        highlightedKey={highlightedId == null ? null : String(highlightedId)}
+        itemLabel="subnets"
+        heightClassName="max-h-[50vh]"
+      />
     </div>
   );
 };
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { SavedPlan, describeRequest } from '../planLibrary';
+
+interface SavedPlansProps {
+  plans: SavedPlan[];
+  canSave: boolean;
+  error: string | null;
+  onSave: (name: string) => void;
+  onOpen: (plan: SavedPlan) => void;
+  onDuplicate: (plan: SavedPlan) => void;
+  onDelete: (plan: SavedPlan) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const SavedPlans: React.FC<SavedPlansProps> = ({ plans, canSave, error, onSave, onOpen, onDuplicate, onDelete, onExport, onImport }) => {
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave || !name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // Allow re-importing the same file.
+    e.target.value = '';
+  };
+
+  return (
+    <section className="bg-gray-800 shadow-2xl rounded-xl p-6 sm:p-8 mb-8">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h2 className="text-2xl font-semibold">Saved Plans</h2>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-2 px-3 rounded-lg transition-colors text-sm"
+          >
+            Import Library
+          </button>
+          <button
+            type="button"
+            onClick={onExport}
+            disabled={plans.length === 0}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 font-medium py-2 px-3 rounded-lg transition-colors text-sm"
+          >
+            Export Library
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+        </div>
+      </div>
+
+      <form onSubmit={handleSave} className="flex gap-3 mb-4">
+        <label htmlFor="planName" className="sr-only">Plan name</label>
+        <input
+          type="text"
+          id="planName"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={canSave ? 'Name the current calculation, e.g. Branch office rollout' : 'Run a calculation to save it'}
+          disabled={!canSave}
+          className="flex-grow px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={!canSave || !name.trim()}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors text-sm"
+        >
+          Save
+        </button>
+      </form>
+
+      {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+      {plans.length === 0 ? (
+        <p className="text-sm text-gray-400">No saved plans yet. Plans are stored in this browser only; export the library to move them to another machine.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700 rounded-lg border border-gray-700">
+          {plans.map(plan => (
+            <li key={plan.id} className="flex flex-wrap items-center justify-between gap-3 p-3 hover:bg-gray-900/40">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-200 truncate">{plan.name}</p>
+                <p className="text-xs text-gray-400 font-mono truncate">
+                  {describeRequest(plan.request)} · saved {new Date(plan.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-2 text-sm">
+                <button type="button" onClick={() => onOpen(plan)} className="text-blue-400 hover:text-blue-300 font-medium">Open</button>
+                <button type="button" onClick={() => onDuplicate(plan)} className="text-gray-300 hover:text-white">Duplicate</button>
+                <button type="button" onClick={() => onDelete(plan)} className="text-red-400 hover:text-red-300">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default SavedPlans;
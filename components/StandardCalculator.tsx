@@ -1,19 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { CalculationMode, CalculationPayload } from '../types';
-import { validateIpFormat, getIpClassInfo, parseMask } from '../utils';
+import { AddressingMode, CalculationMode, CalculationPayload } from '../types';
+import { validateIpFormat, getIpClassInfo, parseMask, parseCidrNotation, hostBitsForHosts } from '../ipv4';
 
 interface StandardCalculatorProps {
   onCalculate: (payload: CalculationPayload) => void;
   loading: boolean;
+  // Seeds the form, e.g. when a calculation is restored from the URL.
+  initialPayload?: CalculationPayload;
 }
 
-const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, loading }) => {
-  const [ipAddress, setIpAddress] = useState<string>('192.168.1.0');
-  const [calculationMode, setCalculationMode] = useState<CalculationMode>(CalculationMode.SUBNETS);
+const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, loading, initialPayload }) => {
+  const [ipAddress, setIpAddress] = useState<string>(() => {
+    if (!initialPayload) return '192.168.1.0/24';
+    const { ipAddress: address, parentCidr } = initialPayload;
+    return parentCidr === undefined ? address : `${address}/${parentCidr}`;
+  });
+  const [addressingMode, setAddressingMode] = useState<AddressingMode>(initialPayload?.addressingMode ?? AddressingMode.CLASSLESS);
+  const [calculationMode, setCalculationMode] = useState<CalculationMode>(initialPayload?.calculationMode ?? CalculationMode.SUBNETS);
   
-  const [requiredSubnets, setRequiredSubnets] = useState('4');
-  const [requiredHosts, setRequiredHosts] = useState('14');
-  const [maskValue, setMaskValue] = useState('/26');
+  const [requiredSubnets, setRequiredSubnets] = useState(String(initialPayload?.requiredSubnets ?? 4));
+  const [requiredHosts, setRequiredHosts] = useState(String(initialPayload?.requiredHosts ?? 14));
+  const [maskValue, setMaskValue] = useState(initialPayload?.mask ?? '/26');
+  const [pointToPoint, setPointToPoint] = useState(initialPayload?.pointToPoint ?? false);
 
   const [validationErrors, setValidationErrors] = useState<{ ip?: string, subnets?: string, hosts?: string, mask?: string }>({});
 
@@ -21,17 +29,32 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
     const validate = () => {
       const newErrors: { ip?: string, subnets?: string, hosts?: string, mask?: string } = {};
       
-      const ipFormatError = validateIpFormat(ipAddress);
+      let address = ipAddress;
+      let parentCidr: number | undefined;
+      let notationError: string | null = null;
+      try {
+        ({ ipAddress: address, cidr: parentCidr } = parseCidrNotation(ipAddress));
+      } catch (e) {
+        notationError = e instanceof Error ? e.message : "An unknown validation error occurred.";
+      }
+
+      const ipFormatError = notationError ?? validateIpFormat(address);
       if (ipFormatError) {
         newErrors.ip = ipFormatError;
+      } else if (addressingMode === AddressingMode.CLASSLESS && parentCidr === undefined) {
+        newErrors.ip = "Enter the parent network in CIDR notation, e.g. 10.20.0.0/20.";
+      } else if (addressingMode === AddressingMode.CLASSFUL && parentCidr !== undefined) {
+        newErrors.ip = "Classful mode derives the mask from the address class. Remove the /prefix.";
       } else {
-        const firstOctet = parseInt(ipAddress.split('.')[0], 10);
-        if (firstOctet === 0) {
-            newErrors.ip = "Addresses starting with 0 are reserved and cannot be used.";
-        } else if (firstOctet === 127) {
-            newErrors.ip = "Loopback addresses (127.x.x.x) are not valid for subnetting.";
+        const firstOctet = parseInt(address.split('.')[0], 10);
+        if (addressingMode === AddressingMode.CLASSFUL && firstOctet === 0) {
+            newErrors.ip = "Addresses starting with 0 are reserved and have no classful network. Use classless mode instead.";
+        } else if (addressingMode === AddressingMode.CLASSFUL && firstOctet === 127) {
+            newErrors.ip = "Loopback addresses (127.x.x.x) have no classful network. Use classless mode instead.";
         } else {
-            const classInfo = getIpClassInfo(ipAddress);
+            const classInfo = getIpClassInfo(address);
+            const parentBits = addressingMode === AddressingMode.CLASSFUL ? classInfo.defaultMaskBits! : parentCidr!;
+            const parentLabel = addressingMode === AddressingMode.CLASSFUL ? `a Class ${classInfo.class} network` : `a /${parentBits} network`;
             if (classInfo.class === 'D' || classInfo.class === 'E') {
               newErrors.ip = `Class ${classInfo.class} addresses are reserved and cannot be subnetted.`;
             } else if (calculationMode === CalculationMode.SUBNETS) {
@@ -40,9 +63,9 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
                     newErrors.subnets = "Must be a positive number.";
                 } else {
                     const subnetBits = Math.ceil(Math.log2(subnetsNum));
-                    const newCidr = classInfo.defaultMaskBits! + subnetBits;
-                    if (32 - newCidr < 2) {
-                        newErrors.subnets = `Not enough host bits in a Class ${classInfo.class} network for this many subnets.`;
+                    const newCidr = parentBits + subnetBits;
+                    if (32 - newCidr < (pointToPoint ? 0 : 2)) {
+                        newErrors.subnets = `Not enough host bits in ${parentLabel} for this many subnets.`;
                     }
                 }
             } else if (calculationMode === CalculationMode.HOSTS) {
@@ -50,20 +73,19 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
                 if (isNaN(hostsNum) || hostsNum <= 0) {
                     newErrors.hosts = "Must be a positive number.";
                 } else {
-                    const neededHostBits = Math.ceil(Math.log2(hostsNum + 2));
-                    if (neededHostBits > classInfo.hostBits!) {
-                        newErrors.hosts = `A Class ${classInfo.class} network cannot provide this many hosts per subnet.`;
+                    const neededHostBits = hostBitsForHosts(hostsNum, pointToPoint);
+                    if (neededHostBits > 32 - parentBits) {
+                        const label = parentLabel.charAt(0).toUpperCase() + parentLabel.slice(1);
+                        newErrors.hosts = `${label} cannot provide this many hosts per subnet.`;
                     }
                 }
             } else { // MASK
                 try {
                     const newCidr = parseMask(maskValue);
-                    if (newCidr < classInfo.defaultMaskBits!) {
-                        newErrors.mask = `Mask is smaller than default for Class ${classInfo.class}.`;
-                    }
-                    const subnetBits = newCidr - classInfo.defaultMaskBits!;
-                    if (subnetBits > 16) {
-                        newErrors.mask = "This generates over 100,000 subnets. Please select a smaller value.";
+                    if (newCidr < parentBits) {
+                        newErrors.mask = addressingMode === AddressingMode.CLASSFUL
+                            ? `Mask is smaller than default for Class ${classInfo.class}.`
+                            : `Mask is shorter than the parent prefix /${parentBits}.`;
                     }
                 } catch (e) {
                     if (e instanceof Error) newErrors.mask = e.message;
@@ -75,7 +97,7 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
       setValidationErrors(newErrors);
     };
     validate();
-  }, [ipAddress, calculationMode, requiredSubnets, requiredHosts, maskValue]);
+  }, [ipAddress, addressingMode, calculationMode, requiredSubnets, requiredHosts, maskValue, pointToPoint]);
 
   const isFormValid = Object.keys(validationErrors).length === 0;
 
@@ -83,10 +105,15 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
     e.preventDefault();
     if (!isFormValid) return;
 
+    const { ipAddress: address, cidr: parentCidr } = parseCidrNotation(ipAddress);
     let payload: Partial<CalculationPayload> = {
         calculationMode,
-        ipAddress,
+        addressingMode,
+        ipAddress: address,
     };
+    if (addressingMode === AddressingMode.CLASSLESS) {
+      payload.parentCidr = parentCidr;
+    }
 
     if (calculationMode === CalculationMode.SUBNETS) {
       payload.requiredSubnets = parseInt(requiredSubnets, 10);
@@ -95,6 +122,7 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
     } else { // MASK
       payload.mask = maskValue;
     }
+    if (pointToPoint) payload.pointToPoint = true;
     onCalculate(payload as CalculationPayload);
   };
   
@@ -130,6 +158,29 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
     </div>
   );
   
+  const AddressingModeSelector: React.FC = () => (
+    <div className="flex bg-gray-700 rounded-lg p-1">
+        <button
+            type="button"
+            onClick={() => setAddressingMode(AddressingMode.CLASSLESS)}
+            className={`w-1/2 py-2 px-3 text-sm font-medium rounded-md transition-colors duration-200 ${
+            addressingMode === AddressingMode.CLASSLESS ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'
+            }`}
+        >
+            Classless (CIDR)
+        </button>
+        <button
+            type="button"
+            onClick={() => setAddressingMode(AddressingMode.CLASSFUL)}
+            className={`w-1/2 py-2 px-3 text-sm font-medium rounded-md transition-colors duration-200 ${
+            addressingMode === AddressingMode.CLASSFUL ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'
+            }`}
+        >
+            Classful (Teaching)
+        </button>
+    </div>
+  );
+
   const renderInputMode = () => {
       switch (calculationMode) {
           case CalculationMode.SUBNETS:
@@ -190,9 +241,18 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Addressing</label>
+        <AddressingModeSelector />
+        {addressingMode === AddressingMode.CLASSFUL && (
+          <p className="mt-2 text-xs text-gray-400">Subnets are carved from the default Class A, B or C mask of the address.</p>
+        )}
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div>
-          <label htmlFor="ipAddress" className="block text-sm font-medium text-gray-300 mb-2">IP Address</label>
+          <label htmlFor="ipAddress" className="block text-sm font-medium text-gray-300 mb-2">
+            {addressingMode === AddressingMode.CLASSLESS ? 'Parent Network (CIDR)' : 'IP Address'}
+          </label>
           <input
             type="text"
             id="ipAddress"
@@ -201,7 +261,7 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
             className={`w-full px-4 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition ${
               validationErrors.ip ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
             }`}
-            placeholder="e.g., 192.168.1.0"
+            placeholder={addressingMode === AddressingMode.CLASSLESS ? 'e.g., 10.20.0.0/20' : 'e.g., 192.168.1.0'}
           />
           {validationErrors.ip && <p className="mt-2 text-sm text-red-400">{validationErrors.ip}</p>}
         </div>
@@ -213,6 +273,16 @@ const StandardCalculator: React.FC<StandardCalculatorProps> = ({ onCalculate, lo
       
       {renderInputMode()}
 
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={pointToPoint}
+          onChange={(e) => setPointToPoint(e.target.checked)}
+          className="rounded bg-gray-700 border-gray-600"
+        />
+        Use every address of /31 point-to-point links (RFC 3021) and /32 host routes
+      </label>
+
       <button type="submit" disabled={!isFormValid || loading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 flex items-center justify-center">
         {loading && <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>}
         {loading ? 'Calculating...' : 'Calculate'}
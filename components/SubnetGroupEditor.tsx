@@ -0,0 +1,127 @@
+import React from 'react';
+import { SubnetKind } from '../types';
+import { SUBNET_KINDS, SUBNET_KIND_LABELS } from '../calculations';
+import { SubnetGroupInput, fixedHosts, isContainerGroup } from '../vlsmGroups';
+
+export type SubnetGroupField = 'name' | 'hosts' | 'count' | 'growth' | 'kind';
+
+interface SubnetGroupEditorProps {
+  groups: SubnetGroupInput[];
+  errors: Record<string, string>;
+  onChange: (id: string, field: SubnetGroupField, value: string) => void;
+  onRemove: (id: string) => void;
+  onAddChild: (id: string) => void;
+  // False for the last remaining top-level group.
+  canRemove: boolean;
+}
+
+const inputClass = (error?: string) => `w-full px-3 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition text-sm ${
+    error ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+}`;
+
+// Rows of the VLSM group form. Groups with sub-groups are containers: their rows have no host
+// count and their sub-groups are edited in an indented list underneath. Point-to-point links and
+// loopbacks show their fixed host count and have no growth.
+const SubnetGroupEditor: React.FC<SubnetGroupEditorProps> = ({ groups, errors, onChange, onRemove, onAddChild, canRemove }) => (
+    <div className="space-y-3">
+        {groups.map((subnet) => {
+            const container = isContainerGroup(subnet);
+            const fixed = fixedHosts(subnet);
+            return (
+                <div key={subnet.id}>
+                    <div className={`grid grid-cols-12 gap-3 items-start p-3 rounded-lg ${container ? 'bg-indigo-900/20 border border-indigo-700/30' : 'bg-gray-900/50'}`}>
+                       <div className="col-span-12 sm:col-span-2">
+                            <label htmlFor={`count-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1">{container ? '# Blocks' : '# Subnets'}</label>
+                            <input
+                                type="number" id={`count-${subnet.id}`} value={subnet.count}
+                                onChange={(e) => onChange(subnet.id, 'count', e.target.value)}
+                                min="1"
+                                className={inputClass(errors[`count-${subnet.id}`])}
+                            />
+                            {errors[`count-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`count-${subnet.id}`]}</p>}
+                       </div>
+                       <div className="col-span-12 sm:col-span-3">
+                            <label htmlFor={`name-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1">Name Prefix</label>
+                            <input
+                                type="text" id={`name-${subnet.id}`} value={subnet.name}
+                                onChange={(e) => onChange(subnet.id, 'name', e.target.value)}
+                                className={inputClass(errors[`name-${subnet.id}`])}
+                                placeholder={container ? 'e.g. Site' : 'e.g. Sales Dept'}
+                            />
+                            {errors[`name-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`name-${subnet.id}`]}</p>}
+                       </div>
+                       {container ? (
+                           <div className="col-span-12 sm:col-span-4">
+                                <span className="block text-xs font-medium text-gray-400 mb-1">Hosts per Subnet</span>
+                                <p className="py-2 text-sm text-indigo-300">Sized by {subnet.children!.length} sub-group{subnet.children!.length === 1 ? '' : 's'}</p>
+                           </div>
+                       ) : (
+                           <>
+                               <div className="col-span-12 sm:col-span-2">
+                                    <label htmlFor={`kind-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1">Type</label>
+                                    <select
+                                        id={`kind-${subnet.id}`} value={subnet.kind ?? 'lan'}
+                                        onChange={(e) => onChange(subnet.id, 'kind', e.target.value as SubnetKind)}
+                                        className={inputClass()}
+                                    >
+                                        {SUBNET_KINDS.map(kind => <option key={kind} value={kind}>{SUBNET_KIND_LABELS[kind]}</option>)}
+                                    </select>
+                               </div>
+                               <div className="col-span-12 sm:col-span-2">
+                                    <label htmlFor={`hosts-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1">Hosts per Subnet</label>
+                                    <input
+                                        type="number" id={`hosts-${subnet.id}`} value={fixed ?? subnet.hosts}
+                                        onChange={(e) => onChange(subnet.id, 'hosts', e.target.value)}
+                                        min="1" disabled={fixed !== null}
+                                        className={`${inputClass(errors[`hosts-${subnet.id}`])} disabled:opacity-60`}
+                                    />
+                                    {errors[`hosts-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`hosts-${subnet.id}`]}</p>}
+                               </div>
+                           </>
+                       )}
+                       <div className="col-span-12 sm:col-span-2">
+                            <label htmlFor={`growth-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1">Growth %</label>
+                             <input
+                                type="number" id={`growth-${subnet.id}`} value={fixed !== null ? '' : subnet.growth ?? ''}
+                                onChange={(e) => onChange(subnet.id, 'growth', e.target.value)}
+                                min="0" placeholder="0" disabled={fixed !== null}
+                                className={`${inputClass(errors[`growth-${subnet.id}`])} disabled:opacity-60`}
+                            />
+                            {errors[`growth-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`growth-${subnet.id}`]}</p>}
+                       </div>
+                       <div className="col-span-12 sm:col-span-1 flex items-end">
+                            <button
+                                type="button"
+                                onClick={() => onRemove(subnet.id)}
+                                className="w-full h-10 flex items-center justify-center text-gray-400 hover:text-white bg-gray-700 hover:bg-red-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-gray-700"
+                                aria-label="Remove Subnet Group"
+                                disabled={!canRemove}
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
+                            </button>
+                       </div>
+                       <div className="col-span-12">
+                            <button type="button" onClick={() => onAddChild(subnet.id)} className="text-xs font-medium text-indigo-400 hover:text-indigo-300">
+                                + Add sub-group
+                            </button>
+                       </div>
+                    </div>
+                    {container && (
+                        <div className="ml-6 mt-3 pl-3 border-l border-indigo-700/40">
+                            <SubnetGroupEditor
+                                groups={subnet.children!}
+                                errors={errors}
+                                onChange={onChange}
+                                onRemove={onRemove}
+                                onAddChild={onAddChild}
+                                canRemove
+                            />
+                        </div>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+);
+
+export default SubnetGroupEditor;
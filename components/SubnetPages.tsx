@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { CalculationResult, Subnet, SubnetPage } from '../types';
+import { SUBNET_PAGE_SIZE } from '../calculations';
+import { JobHandlers } from '../workerClient';
+import ResultsTable from './ResultsTable';
+
+interface SubnetPagesProps {
+  result: CalculationResult;
+  // Generates subnets offset + 1 to offset + limit of the result, e.g. in the worker; returns a
+  // function that cancels the job.
+  loadPage: (result: CalculationResult, offset: number, limit: number, handlers: JobHandlers<SubnetPage>) => () => void;
+  // Subnet picked by the address lookup or the jump box; its page is loaded and the row marked.
+  highlightedId: number | null;
+  onHighlight: (id: number) => void;
+}
+
+// Subnets of a standard result, a page at a time: a split can have billions of them, and only the
+// page on screen is ever generated.
+const SubnetPages: React.FC<SubnetPagesProps> = ({ result, loadPage, highlightedId, onHighlight }) => {
+  // The page belongs to the result it was picked for, so a new result starts on the first page.
+  const [position, setPosition] = useState<{ result: CalculationResult; page: number }>({ result, page: 0 });
+  const page = position.result === result ? position.page : 0;
+  // `complete` is false while the chunks of the page are still arriving.
+  const [loaded, setLoaded] = useState<{ result: CalculationResult; page: number; subnets: Subnet[]; complete: boolean } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [jumpTo, setJumpTo] = useState('');
+  const [jumpError, setJumpError] = useState<string | null>(null);
+
+  const pageCount = Math.ceil(result.totalSubnets / SUBNET_PAGE_SIZE);
+  const first = page * SUBNET_PAGE_SIZE + 1;
+  const last = Math.min(result.totalSubnets, first + SUBNET_PAGE_SIZE - 1);
+  // The previous page stays on screen until the first rows of the next one arrive.
+  const shown = loaded && loaded.result === result ? loaded : null;
+  const pending = !shown || shown.page !== page || !shown.complete;
+
+  useEffect(() => {
+    if (highlightedId == null) return;
+    setPosition({ result, page: Math.floor((highlightedId - 1) / SUBNET_PAGE_SIZE) });
+  }, [highlightedId, result]);
+
+  // Leaving the page (or the result) cancels its generation.
+  useEffect(() => {
+    const generated: Subnet[] = [];
+    setError(null);
+    return loadPage(result, page * SUBNET_PAGE_SIZE, SUBNET_PAGE_SIZE, {
+      onProgress: (_progress, partial) => {
+        if (!partial) return;
+        generated.push(...partial);
+        setLoaded({ result, page, subnets: [...generated], complete: false });
+      },
+      onResult: (pageResult) => setLoaded({ result, page, subnets: pageResult.subnets, complete: true }),
+      onError: setError,
+    });
+  }, [result, page, loadPage]);
+
+  const goTo = (next: number) => setPosition({ result, page: Math.min(Math.max(next, 0), pageCount - 1) });
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = Number(jumpTo.trim().replace(/^#/, '').replace(/,/g, ''));
+    if (!Number.isInteger(id) || id < 1 || id > result.totalSubnets) {
+      setJumpError(`Enter a subnet number from 1 to ${result.totalSubnets.toLocaleString()}.`);
+      return;
+    }
+    setJumpError(null);
+    onHighlight(id);
+  };
+
+  const buttonClass = 'bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-1 px-3 rounded-md transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-400">
+          Subnets <span className="font-mono text-gray-200">{first.toLocaleString()}–{last.toLocaleString()}</span> of{' '}
+          <span className="font-mono text-gray-200">{result.totalSubnets.toLocaleString()}</span>
+          {pending && !error && (
+            <span className="ml-2 text-gray-500">
+              Generating…{shown?.page === page && ` ${shown.subnets.length.toLocaleString()} of ${(last - first + 1).toLocaleString()}`}
+            </span>
+          )}
+        </p>
+        <form onSubmit={handleJump} className="flex items-center gap-2">
+          <label htmlFor="jumpToSubnet" className="text-sm text-gray-400">Go to subnet #</label>
+          <input
+            id="jumpToSubnet"
+            type="text"
+            inputMode="numeric"
+            value={jumpTo}
+            onChange={(e) => setJumpTo(e.target.value)}
+            placeholder={result.totalSubnets > 1 ? `1 - ${result.totalSubnets.toLocaleString()}` : '1'}
+            className="w-40 px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm font-mono"
+          />
+          <button type="submit" className={buttonClass}>Go</button>
+        </form>
+      </div>
+      {jumpError && <p className="text-sm text-red-400">{jumpError}</p>}
+      {pageCount > 1 && (
+        <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Subnet pages">
+          <button type="button" onClick={() => goTo(0)} disabled={page === 0} className={buttonClass}>First</button>
+          <button type="button" onClick={() => goTo(page - 1)} disabled={page === 0} className={buttonClass}>Previous</button>
+          <span className="text-sm text-gray-400">Page {(page + 1).toLocaleString()} of {pageCount.toLocaleString()}</span>
+          <button type="button" onClick={() => goTo(page + 1)} disabled={page === pageCount - 1} className={buttonClass}>Next</button>
+          <button type="button" onClick={() => goTo(pageCount - 1)} disabled={page === pageCount - 1} className={buttonClass}>Last</button>
+        </div>
+      )}
+      {error && <p className="p-3 bg-red-900/20 border border-red-700/40 rounded-lg text-sm text-red-300">{error}</p>}
+      {shown && (
+        <div className={pending ? 'opacity-60' : ''}>
+          <ResultsTable
+            subnets={shown.subnets}
+            highlightedId={highlightedId != null && highlightedId > shown.page * SUBNET_PAGE_SIZE && highlightedId <= shown.page * SUBNET_PAGE_SIZE + shown.subnets.length ? highlightedId : null}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubnetPages;
@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { SummarizationPayload } from '../types';
+import { parseNetworkEntry, splitNetworkList } from '../cidrSets';
+
+interface SummarizationCalculatorProps {
+  onCalculate: (payload: SummarizationPayload) => void;
+  loading: boolean;
+  // Seeds the form, e.g. when a calculation is restored from the URL.
+  initialPayload?: SummarizationPayload;
+}
+
+const SummarizationCalculator: React.FC<SummarizationCalculatorProps> = ({ onCalculate, loading, initialPayload }) => {
+    const [networks, setNetworks] = useState((initialPayload?.networks ?? ['192.168.0.0/24', '192.168.1.0/24', '192.168.2.0/23']).join('\n'));
+    const [singleRoute, setSingleRoute] = useState(initialPayload?.singleRoute ?? true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const entries = splitNetworkList(networks);
+        if (entries.length === 0) {
+            setError('Enter at least one network.');
+            return;
+        }
+        for (const [i, entry] of entries.entries()) {
+            try {
+                parseNetworkEntry(entry);
+            } catch (e) {
+                setError(`Line ${i + 1} (${entry}): ${e instanceof Error ? e.message : 'Invalid network.'}`);
+                return;
+            }
+        }
+        setError(null);
+    }, [networks]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (error) return;
+        onCalculate({ networks: splitNetworkList(networks), ...(singleRoute ? { singleRoute } : {}) });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+                <label htmlFor="summaryNetworks" className="block text-lg font-medium text-gray-200 mb-1">Networks to Summarize</label>
+                <p className="text-sm text-gray-400 mb-2">
+                    One per line: CIDR (10.1.4.0/22), address and mask (10.1.4.0 255.255.252.0), a range (10.1.4.0 - 10.1.7.255) or a single address.
+                </p>
+                <textarea
+                    id="summaryNetworks" value={networks} rows={8}
+                    onChange={(e) => setNetworks(e.target.value)}
+                    className={`w-full px-4 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition font-mono text-sm ${
+                        error ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+                    }`}
+                    placeholder={'10.1.0.0/24\n10.1.1.0/24'}
+                />
+                {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+                <label className="mt-3 flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={singleRoute}
+                        onChange={(e) => setSingleRoute(e.target.checked)}
+                        className="rounded bg-gray-700 border-gray-600"
+                    />
+                    Also find a single summary route covering all networks
+                </label>
+            </div>
+            <button type="submit" disabled={!!error || loading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 flex items-center justify-center">
+                Summarize Routes
+            </button>
+        </form>
+    );
+};
+
+export default SummarizationCalculator;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { SummarizationResult } from '../types';
+
+interface SummarizationResultsProps {
+  result: SummarizationResult;
+}
+
+const SummarizationResults: React.FC<SummarizationResultsProps> = ({ result }) => {
+  const route = result.summaryRoute;
+  return (
+    <div className="space-y-8">
+      {/* Summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-center">
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Input Networks</p>
+            <p className="font-mono text-lg">{result.inputs.length.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Aggregate Prefixes</p>
+            <p className="font-mono text-lg text-teal-300">{result.aggregates.length.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-700 p-4 rounded-lg col-span-2 sm:col-span-1">
+            <p className="text-sm text-gray-400">Addresses Covered</p>
+            <p className="font-mono text-lg">{result.coveredAddresses.toLocaleString()}</p>
+        </div>
+      </div>
+
+      {route && (
+        <div className="p-4 bg-indigo-900/20 border border-indigo-700/40 rounded-lg">
+            <h3 className="text-sm text-gray-400">Single Summary Route</h3>
+            <p className="font-mono text-2xl text-indigo-300">{route.networkAddress}/{route.cidr}</p>
+            <p className="mt-1 text-sm text-gray-300">
+                {route.extraAddresses === 0
+                    ? 'Covers exactly the input networks.'
+                    : `Also covers ${route.extraAddresses.toLocaleString()} address${route.extraAddresses === 1 ? '' : 'es'} outside the inputs (${((route.extraAddresses / route.addresses) * 100).toFixed(2)}% of the route).`}
+            </p>
+        </div>
+      )}
+
+      {/* Aggregates Table */}
+      <div>
+        <h3 className="text-xl font-semibold mb-3">Aggregate Prefixes</h3>
+        <div className="w-full overflow-hidden rounded-lg border border-gray-700">
+          <div className="max-h-[60vh] overflow-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead className="bg-gray-700/50 sticky top-0 z-10">
+                <tr>
+                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Prefix</th>
+                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Subnet Mask</th>
+                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Last Address</th>
+                  <th scope="col" className="py-3.5 px-4 text-right text-sm font-semibold text-gray-300">Addresses</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800 bg-gray-900/50">
+                {result.aggregates.map((prefix) => (
+                  <tr key={prefix.networkAddress} className="hover:bg-gray-800/60 transition-colors">
+                    <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-200">{prefix.networkAddress}/{prefix.cidr}</td>
+                    <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{prefix.subnetMask}</td>
+                    <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{prefix.lastAddress}</td>
+                    <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300 text-right">{prefix.addresses.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SummarizationResults;
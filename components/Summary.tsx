@@ -1,20 +1,40 @@
-import React from 'react';
-import { CalculationResult } from '../types';
+import React, { useMemo } from 'react';
+import { AddressingMode, CalculationResult } from '../types';
+import { describeAddressSpace } from '../specialPurpose';
+import AddressSpaceTags from './AddressSpaceTags';
 
 interface SummaryProps {
     result: CalculationResult;
 }
 
-const Summary: React.FC<SummaryProps> = ({ result }) => (
+const Summary: React.FC<SummaryProps> = ({ result }) => {
+    const addressSpace = useMemo(() => describeAddressSpace(result.parentNetwork), [result.parentNetwork]);
+    return (
+    <>
     <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-center mb-6">
-        <div className="bg-gray-700 p-4 rounded-lg">
-            <p className="text-sm text-gray-400">IP Class</p>
-            <p className="font-mono text-lg">{result.ipClass}</p>
-        </div>
-        <div className="bg-gray-700 p-4 rounded-lg">
-            <p className="text-sm text-gray-400">Default Mask</p>
-            <p className="font-mono text-lg">{result.defaultMask}</p>
-        </div>
+        {result.addressingMode === AddressingMode.CLASSFUL ? (
+            <>
+                <div className="bg-gray-700 p-4 rounded-lg">
+                    <p className="text-sm text-gray-400">IP Class</p>
+                    <p className="font-mono text-lg">{result.ipClass}</p>
+                </div>
+                <div className="bg-gray-700 p-4 rounded-lg">
+                    <p className="text-sm text-gray-400">Default Mask</p>
+                    <p className="font-mono text-lg">{result.defaultMask}</p>
+                </div>
+            </>
+        ) : (
+            <>
+                <div className="bg-gray-700 p-4 rounded-lg">
+                    <p className="text-sm text-gray-400">Parent Network</p>
+                    <p className="font-mono text-lg">{result.parentNetwork}</p>
+                </div>
+                <div className="bg-gray-700 p-4 rounded-lg">
+                    <p className="text-sm text-gray-400">Parent Mask</p>
+                    <p className="font-mono text-lg">{result.parentMask}</p>
+                </div>
+            </>
+        )}
         <div className="bg-gray-700 p-4 rounded-lg">
             <p className="text-sm text-gray-400">Subnet Mask</p>
             <p className="font-mono text-lg">{result.subnetMask}</p>
@@ -32,6 +52,9 @@ const Summary: React.FC<SummaryProps> = ({ result }) => (
             <p className="font-mono text-lg">{result.hostsPerSubnet.toLocaleString()}</p>
         </div>
     </div>
-);
+    <AddressSpaceTags info={addressSpace} />
+    </>
+    );
+};
 
 export default Summary;
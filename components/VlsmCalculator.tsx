@@ -1,20 +1,55 @@
 import React, { useState, useEffect } from 'react';
-import { VlsmCalculationPayload } from '../types';
-import { validateIpFormat } from '../utils';
+import { VlsmAllocationStrategy, VlsmCalculationPayload, VlsmCalculationResult } from '../types';
+import { VLSM_ALLOCATION_STRATEGIES, VLSM_STRATEGY_LABELS } from '../calculations';
+import { blockSize, ipToBigInt, networkAddress, parseIpv4Range, validateIpFormat } from '../ipv4';
+import {
+    SubnetGroupInput,
+    fromSubnetRequests,
+    hasFixedSizeGroups,
+    removeSubnetGroup,
+    requiredAddresses,
+    toSubnetRequests,
+    updateSubnetGroup,
+    validateSubnetGroups,
+} from '../vlsmGroups';
+import { lockedBlocks } from '../vlsmTree';
+import RequirementsImport from './RequirementsImport';
+import SubnetGroupEditor, { SubnetGroupField } from './SubnetGroupEditor';
 
 interface VlsmCalculatorProps {
   onCalculate: (payload: VlsmCalculationPayload) => void;
   loading: boolean;
+  // Seeds the form, e.g. when a calculation is restored from the URL.
+  initialPayload?: VlsmCalculationPayload;
+  // Plan on screen; with "lock existing allocations" its subnets keep their addresses in the next run.
+  lockSource?: VlsmCalculationResult | null;
 }
 
-const VlsmCalculator: React.FC<VlsmCalculatorProps> = ({ onCalculate, loading }) => {
-    const [ipAddress, setIpAddress] = useState('192.168.1.0');
-    const [cidr, setCidr] = useState('24');
-    const [subnets, setSubnets] = useState<{ id: string, name: string, hosts: string, count: string }[]>([
-        { id: `subnet-${Date.now()}`, name: 'LANs', hosts: '50', count: '2' },
-        { id: `subnet-${Date.now()+1}`, name: 'Offices', hosts: '25', count: '3' },
-        { id: `subnet-${Date.now()+2}`, name: 'WAN Links', hosts: '2', count: '4' },
-    ]);
+const STRATEGY_DESCRIPTIONS: Record<VlsmAllocationStrategy, string> = {
+    'largest-first': 'Packs the biggest subnets first for the tightest fit.',
+    'input-order': 'Allocates subnets in the order the groups are listed.',
+    'best-fit': 'Puts each subnet into the smallest free gap it fits, keeping large gaps intact.',
+    'spread': 'Leaves the block next to each subnet free so it can double in size later.',
+};
+
+const VlsmCalculator: React.FC<VlsmCalculatorProps> = ({ onCalculate, loading, initialPayload, lockSource }) => {
+    const [ipAddress, setIpAddress] = useState(initialPayload?.ipAddress ?? '192.168.1.0');
+    const [cidr, setCidr] = useState(String(initialPayload?.cidr ?? 24));
+    const [subnets, setSubnets] = useState<SubnetGroupInput[]>(() => {
+        let next = 0;
+        return initialPayload
+            ? fromSubnetRequests(initialPayload.subnets, () => `subnet-${Date.now()+next++}`)
+            : [
+                { id: `subnet-${Date.now()}`, name: 'LANs', hosts: '50', count: '2' },
+                { id: `subnet-${Date.now()+1}`, name: 'Offices', hosts: '25', count: '3' },
+                { id: `subnet-${Date.now()+2}`, name: 'WAN Links', hosts: '2', count: '4' },
+            ];
+    });
+    const [reservations, setReservations] = useState<{ id: string, name: string, range: string }[]>(() =>
+        (initialPayload?.reservations ?? []).map((r, i) => ({ id: `reserved-${Date.now()+i}`, name: r.name, range: r.range }))
+    );
+    const [strategy, setStrategy] = useState<VlsmAllocationStrategy>(initialPayload?.strategy ?? 'largest-first');
+    const [lockExisting, setLockExisting] = useState(initialPayload?.locked !== undefined);
     const [errors, setErrors] = useState<Record<string, string>>({});
 
     const isFormValid = Object.keys(errors).length === 0;
@@ -26,37 +61,33 @@ const VlsmCalculator: React.FC<VlsmCalculatorProps> = ({ onCalculate, loading })
             if (ipError) newErrors.ip = ipError;
             
             const cidrNum = parseInt(cidr, 10);
-            if (isNaN(cidrNum) || cidrNum < 1 || cidrNum > 30) {
-                newErrors.cidr = 'CIDR must be between 1 and 30.';
+            // A /31 or /32 base network only holds point-to-point links or loopbacks.
+            const maxCidr = hasFixedSizeGroups(subnets) ? 32 : 30;
+            if (isNaN(cidrNum) || cidrNum < 1 || cidrNum > maxCidr) {
+                newErrors.cidr = `CIDR must be between 1 and ${maxCidr}.`;
             }
 
-            const names = new Set();
-            subnets.forEach((subnet) => {
-                if (!subnet.name.trim()) {
-                    newErrors[`name-${subnet.id}`] = "Name is required.";
-                } else if (names.has(subnet.name.trim())) {
-                    newErrors[`name-${subnet.id}`] = "Group names must be unique.";
-                }
-                names.add(subnet.name.trim());
+            Object.assign(newErrors, validateSubnetGroups(subnets));
 
-                const hostsNum = parseInt(subnet.hosts, 10);
-                if (isNaN(hostsNum) || hostsNum <= 0) {
-                    newErrors[`hosts-${subnet.id}`] = "Must be > 0.";
+            reservations.forEach((reservation) => {
+                if (!reservation.name.trim()) {
+                    newErrors[`reservedName-${reservation.id}`] = "Name is required.";
                 }
-                 const countNum = parseInt(subnet.count, 10);
-                if (isNaN(countNum) || countNum <= 0) {
-                    newErrors[`count-${subnet.id}`] = "Must be > 0.";
+                try {
+                    const { start, end } = parseIpv4Range(reservation.range);
+                    if (!newErrors.ip && !newErrors.cidr) {
+                        const base = networkAddress(ipToBigInt(ipAddress), cidrNum);
+                        if (start < base || end >= base + blockSize(cidrNum)) {
+                            newErrors[`range-${reservation.id}`] = `Must be inside ${ipAddress}/${cidrNum}.`;
+                        }
+                    }
+                } catch (e) {
+                    newErrors[`range-${reservation.id}`] = e instanceof Error ? e.message : "Invalid range.";
                 }
             });
 
             if(Object.keys(newErrors).length === 0) {
-                const totalRequiredAddresses = subnets.reduce((sum, s) => {
-                    const hosts = parseInt(s.hosts, 10) || 0;
-                    const count = parseInt(s.count, 10) || 0;
-                    if (hosts === 0 || count === 0) return sum;
-                    const blockSize = Math.pow(2, Math.ceil(Math.log2(hosts + 2)));
-                    return sum + (blockSize * count);
-                }, 0);
+                const totalRequiredAddresses = requiredAddresses(subnets);
 
                 const totalAvailableAddresses = Math.pow(2, 32 - cidrNum);
                 if(totalRequiredAddresses > totalAvailableAddresses) {
@@ -66,7 +97,7 @@ const VlsmCalculator: React.FC<VlsmCalculatorProps> = ({ onCalculate, loading })
             setErrors(newErrors);
         };
         validate();
-    }, [ipAddress, cidr, subnets]);
+    }, [ipAddress, cidr, subnets, reservations]);
 
     const handleAddSubnet = () => {
         const newSubnet = {
@@ -74,18 +105,40 @@ const VlsmCalculator: React.FC<VlsmCalculatorProps> = ({ onCalculate, loading })
             name: `Group ${subnets.length + 1}`,
             hosts: '10',
             count: '1',
+            growth: '',
         };
         setSubnets([...subnets, newSubnet]);
     };
 
     const handleRemoveSubnet = (id: string) => {
-        if (subnets.length > 1) {
-            setSubnets(subnets.filter(s => s.id !== id));
+        if (subnets.length > 1 || !subnets.some(s => s.id === id)) {
+            setSubnets(removeSubnetGroup(subnets, id));
         }
     };
 
-    const handleSubnetChange = (id: string, field: 'name' | 'hosts' | 'count', value: string) => {
-        setSubnets(subnets.map(s => (s.id === id ? { ...s, [field]: value } : s)));
+    // Turns a plain group into a container on its first sub-group.
+    const handleAddChild = (id: string) => {
+        setSubnets(updateSubnetGroup(subnets, id, group => {
+            const children = group.children ?? [];
+            const child = { id: `subnet-${Date.now()}`, name: `Sub-group ${children.length + 1}`, hosts: '10', count: '1', growth: '' };
+            return { ...group, children: [...children, child] };
+        }));
+    };
+
+    const handleImportGroups = (groups: SubnetGroupInput[]) => {
+        setSubnets(groups.map((g, i) => ({ ...g, id: `subnet-${Date.now()+i}`, name: g.name.trim() })));
+    };
+
+    const handleSubnetChange = (id: string, field: SubnetGroupField, value: string) => {
+        setSubnets(updateSubnetGroup(subnets, id, s => ({ ...s, [field]: value })));
+    };
+
+    const handleAddReservation = () => {
+        setReservations([...reservations, { id: `reserved-${Date.now()}`, name: `Reserved ${reservations.length + 1}`, range: '' }]);
+    };
+
+    const handleReservationChange = (id: string, field: 'name' | 'range', value: string) => {
+        setReservations(reservations.map(r => (r.id === id ? { ...r, [field]: value } : r)));
     };
 
     const handleSubmit = (e: React.FormEvent) => {
@@ -95,13 +148,13 @@ const VlsmCalculator: React.FC<VlsmCalculatorProps> = ({ onCalculate, loading })
         const payload: VlsmCalculationPayload = {
             ipAddress,
             cidr: parseInt(cidr, 10),
-            subnets: subnets.map(s => ({
-                id: s.id,
-                name: s.name.trim(),
-                hosts: parseInt(s.hosts, 10),
-                count: parseInt(s.count, 10),
-            })),
+            subnets: toSubnetRequests(subnets),
+            strategy,
+            ...(lockExisting && lockSource ? { locked: lockedBlocks(lockSource) } : {}),
         };
+        if (reservations.length > 0) {
+            payload.reservations = reservations.map(r => ({ name: r.name.trim(), range: r.range.trim() }));
+        }
         onCalculate(payload);
     };
 
@@ -129,7 +182,7 @@ const VlsmCalculator: React.FC<VlsmCalculatorProps> = ({ onCalculate, loading })
                             <input
                                 type="number" id="vlsmCidr" value={cidr}
                                 onChange={(e) => setCidr(e.target.value)}
-                                min="1" max="30"
+                                min="1" max={hasFixedSizeGroups(subnets) ? 32 : 30}
                                 className={`w-full pl-7 pr-4 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition font-mono ${
                                     errors.cidr ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
                                 }`}
@@ -142,64 +195,96 @@ const VlsmCalculator: React.FC<VlsmCalculatorProps> = ({ onCalculate, loading })
 
             <div>
                 <h3 className="text-lg font-medium text-gray-200 mb-2">Required Subnet Groups</h3>
+                <div className="mb-3">
+                    <RequirementsImport onImport={handleImportGroups} />
+                </div>
+                <p className="text-sm text-gray-400 mb-2">Add sub-groups to a group to nest them, e.g. sites containing buildings containing VLANs. Point-to-point links get a /31 with both addresses usable (RFC 3021) and loopbacks a /32 host route.</p>
+                <SubnetGroupEditor
+                    groups={subnets}
+                    errors={errors}
+                    onChange={handleSubnetChange}
+                    onRemove={handleRemoveSubnet}
+                    onAddChild={handleAddChild}
+                    canRemove={subnets.length > 1}
+                />
+                <button type="button" onClick={handleAddSubnet} className="mt-4 text-sm font-medium text-blue-400 hover:text-blue-300 flex items-center gap-2">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-11a1 1 0 10-2 0v2H7a1 1 0 100 2h2v2a1 1 0 102 0v-2h2a1 1 0 100-2h-2V7z" clipRule="evenodd" /></svg>
+                    Add Group
+                </button>
+            </div>
+            <div>
+                <h3 className="text-lg font-medium text-gray-200 mb-1">Reserved Ranges</h3>
+                <p className="text-sm text-gray-400 mb-2">Address space already in use. Enter a CIDR block, a range such as 10.0.0.10 - 10.0.0.40, or a single address.</p>
                 <div className="space-y-3">
-                    {subnets.map((subnet, index) => (
-                        <div key={subnet.id} className="grid grid-cols-12 gap-3 items-start p-3 bg-gray-900/50 rounded-lg">
-                           <div className="col-span-12 sm:col-span-2">
-                                <label htmlFor={`count-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1"># Subnets</label>
+                    {reservations.map((reservation) => (
+                        <div key={reservation.id} className="grid grid-cols-12 gap-3 items-start p-3 bg-amber-900/10 border border-amber-700/30 rounded-lg">
+                            <div className="col-span-12 sm:col-span-5">
+                                <label htmlFor={`reservedName-${reservation.id}`} className="block text-xs font-medium text-gray-400 mb-1">Name</label>
                                 <input
-                                    type="number" id={`count-${subnet.id}`} value={subnet.count}
-                                    onChange={(e) => handleSubnetChange(subnet.id, 'count', e.target.value)}
-                                    min="1"
+                                    type="text" id={`reservedName-${reservation.id}`} value={reservation.name}
+                                    onChange={(e) => handleReservationChange(reservation.id, 'name', e.target.value)}
                                     className={`w-full px-3 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition text-sm ${
-                                        errors[`count-${subnet.id}`] ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+                                        errors[`reservedName-${reservation.id}`] ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
                                     }`}
+                                    placeholder="e.g. Existing servers"
                                 />
-                                {errors[`count-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`count-${subnet.id}`]}</p>}
-                           </div>
-                           <div className="col-span-12 sm:col-span-5">
-                                <label htmlFor={`name-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1">Name Prefix</label>
+                                {errors[`reservedName-${reservation.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`reservedName-${reservation.id}`]}</p>}
+                            </div>
+                            <div className="col-span-12 sm:col-span-6">
+                                <label htmlFor={`range-${reservation.id}`} className="block text-xs font-medium text-gray-400 mb-1">Range</label>
                                 <input
-                                    type="text" id={`name-${subnet.id}`} value={subnet.name}
-                                    onChange={(e) => handleSubnetChange(subnet.id, 'name', e.target.value)}
-                                    className={`w-full px-3 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition text-sm ${
-                                        errors[`name-${subnet.id}`] ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
-                                    }`}
-                                    placeholder={`e.g. Sales Dept`}
-                                />
-                                {errors[`name-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`name-${subnet.id}`]}</p>}
-                           </div>
-                           <div className="col-span-12 sm:col-span-4">
-                                <label htmlFor={`hosts-${subnet.id}`} className="block text-xs font-medium text-gray-400 mb-1">Hosts per Subnet</label>
-                                 <input
-                                    type="number" id={`hosts-${subnet.id}`} value={subnet.hosts}
-                                    onChange={(e) => handleSubnetChange(subnet.id, 'hosts', e.target.value)}
-                                    min="1"
-                                    className={`w-full px-3 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition text-sm ${
-                                        errors[`hosts-${subnet.id}`] ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+                                    type="text" id={`range-${reservation.id}`} value={reservation.range}
+                                    onChange={(e) => handleReservationChange(reservation.id, 'range', e.target.value)}
+                                    className={`w-full px-3 py-2 bg-gray-700 border rounded-lg focus:ring-2 outline-none transition text-sm font-mono ${
+                                        errors[`range-${reservation.id}`] ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500 focus:border-blue-500'
                                     }`}
+                                    placeholder="e.g. 192.168.1.0/28"
                                 />
-                                {errors[`hosts-${subnet.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`hosts-${subnet.id}`]}</p>}
-                           </div>
-                           <div className="col-span-12 sm:col-span-1 flex items-end">
+                                {errors[`range-${reservation.id}`] && <p className="mt-1 text-xs text-red-400">{errors[`range-${reservation.id}`]}</p>}
+                            </div>
+                            <div className="col-span-12 sm:col-span-1 flex items-end">
                                 <button
                                     type="button"
-                                    onClick={() => handleRemoveSubnet(subnet.id)}
-                                    className="w-full h-10 flex items-center justify-center text-gray-400 hover:text-white bg-gray-700 hover:bg-red-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-gray-700"
-                                    aria-label="Remove Subnet Group"
-                                    disabled={subnets.length <= 1}
+                                    onClick={() => setReservations(reservations.filter(r => r.id !== reservation.id))}
+                                    className="w-full h-10 flex items-center justify-center text-gray-400 hover:text-white bg-gray-700 hover:bg-red-600 rounded-lg transition-colors"
+                                    aria-label="Remove Reserved Range"
                                 >
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
                                 </button>
-                           </div>
+                            </div>
                         </div>
                     ))}
                 </div>
-                <button type="button" onClick={handleAddSubnet} className="mt-4 text-sm font-medium text-blue-400 hover:text-blue-300 flex items-center gap-2">
+                <button type="button" onClick={handleAddReservation} className="mt-3 text-sm font-medium text-amber-400 hover:text-amber-300 flex items-center gap-2">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-11a1 1 0 10-2 0v2H7a1 1 0 100 2h2v2a1 1 0 102 0v-2h2a1 1 0 100-2h-2V7z" clipRule="evenodd" /></svg>
-                    Add Group
+                    Add Reserved Range
                 </button>
             </div>
+            <div>
+                <label htmlFor="vlsmStrategy" className="block text-lg font-medium text-gray-200 mb-2">Allocation Strategy</label>
+                <select
+                    id="vlsmStrategy" value={strategy}
+                    onChange={(e) => setStrategy(e.target.value as VlsmAllocationStrategy)}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
+                >
+                    {VLSM_ALLOCATION_STRATEGIES.map(value => <option key={value} value={value}>{VLSM_STRATEGY_LABELS[value]}</option>)}
+                </select>
+                <p className="mt-2 text-sm text-gray-400">{STRATEGY_DESCRIPTIONS[strategy]}</p>
+            </div>
+            {lockSource && (
+                <div>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={lockExisting}
+                            onChange={(e) => setLockExisting(e.target.checked)}
+                            className="rounded bg-gray-700 border-gray-600"
+                        />
+                        Lock existing allocations
+                    </label>
+                    <p className="mt-1 text-sm text-gray-400">Subnets of the plan below keep their addresses; only new or enlarged groups are placed into free space. Subnets are matched by name, so renaming a group moves it.</p>
+                </div>
+            )}
             {errors.overall && <p className="mt-2 text-sm text-red-400 text-center">{errors.overall}</p>}
             <button type="submit" disabled={!isFormValid || loading} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 flex items-center justify-center">
                 Calculate VLSM Plan
@@ -1,13 +1,172 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { VlsmCalculationResult } from '../types';
+import { VLSM_STRATEGY_LABELS } from '../calculations';
+import { VlsmTreeNode, buildVlsmTree, flattenVlsmTree, formatPath, isHierarchical } from '../vlsmTree';
+import { ipToBigInt } from '../ipv4';
+import { AddressLocation, vlsmPlanLocator } from '../addressLookup';
+import AddressLookup from './AddressLookup';
+import { describeAddressSpace } from '../specialPurpose';
+import AddressSpaceTags, { AddressSpaceChip } from './AddressSpaceTags';
+import DataGrid, { DataGridColumn } from './DataGrid';
 
 interface VlsmResultsProps {
   result: VlsmCalculationResult;
 }
 
+const indent = (depth: number) => ({ paddingLeft: `${depth * 1.5}rem` });
+
+const HIGHLIGHT = 'bg-blue-900/50 ring-1 ring-inset ring-blue-500';
+
+const rowKey = (node: VlsmTreeNode) => `${node.kind}:${node.block.id}`;
+
+const nodeRange = (node: VlsmTreeNode) => ({
+  start: ipToBigInt(node.block.networkAddress),
+  end: ipToBigInt(node.kind === 'subnet' ? node.block.broadcastAddress : node.block.lastAddress),
+});
+
+const leafTotals = (node: VlsmTreeNode): { required: number; allocated: number } =>
+  node.kind === 'subnet'
+    ? { required: node.block.requiredHosts, allocated: node.block.allocatedHosts }
+    : node.children.map(leafTotals).reduce((a, b) => ({ required: a.required + b.required, allocated: a.allocated + b.allocated }), { required: 0, allocated: 0 });
+
 const VlsmResults: React.FC<VlsmResultsProps> = ({ result }) => {
+  const tree = useMemo(() => (isHierarchical(result) ? buildVlsmTree(result) : null), [result]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const locate = useMemo(() => vlsmPlanLocator(result), [result]);
+  const addressSpace = useMemo(() => describeAddressSpace(result.baseNetwork), [result.baseNetwork]);
+  // When the base network spans several kinds of space, each subnet shows its own.
+  const subnetSpaces = useMemo(
+    () => (addressSpace.category === 'mixed'
+      ? new Map(result.allocatedSubnets.map(s => [s.id, describeAddressSpace(`${s.networkAddress}/${s.cidr}`)]))
+      : null),
+    [addressSpace, result.allocatedSubnets],
+  );
+  // Row picked by the address lookup, as "<kind>:<rowId>".
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!highlighted) return;
+    rootRef.current?.querySelector(`[data-lookup="${highlighted}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlighted]);
+
+  // Opens every container above the picked row so it is visible.
+  const handleLookup = (location: AddressLocation) => {
+    if (location.kind === 'outside') return;
+    const parents = new Map([...(result.containers ?? []), ...result.allocatedSubnets].map(b => [b.id, b.parentId]));
+    const next = new Set(collapsed);
+    let id = location.kind === 'subnet' || location.kind === 'container' ? parents.get(location.rowId) : undefined;
+    while (id) {
+      next.delete(id);
+      id = parents.get(id);
+    }
+    setCollapsed(next);
+    setHighlighted(`${location.kind}:${location.rowId}`);
+  };
+
+  const rowClass = (key: string, base: string) => (key === highlighted ? HIGHLIGHT : base);
+
+  const toggle = (id: string) => {
+    const next = new Set(collapsed);
+    if (!next.delete(id)) next.add(id);
+    setCollapsed(next);
+  };
+
+  // Every row of the plan: the tree depth-first, or the subnets in allocation order for flat plans.
+  const allNodes = useMemo(
+    () => (tree ? flattenVlsmTree(tree) : result.allocatedSubnets.map((block): VlsmTreeNode => ({ kind: 'subnet', block, path: [block.name] }))),
+    [tree, result.allocatedSubnets],
+  );
+
+  // Depth-first rows of the tree, skipping the contents of collapsed containers.
+  const visibleNodes = useMemo(() => {
+    if (!tree) return allNodes;
+    const walk = (nodes: VlsmTreeNode[]): VlsmTreeNode[] =>
+      nodes.flatMap(node => [node, ...(node.kind === 'container' && !collapsed.has(node.block.id) ? walk(node.children) : [])]);
+    return walk(tree);
+  }, [tree, allNodes, collapsed]);
+
+  const containerTotals = useMemo(
+    () => new Map(allNodes.filter(node => node.kind === 'container').map(node => [node.block.id, leafTotals(node)])),
+    [allNodes],
+  );
+
+  const containerIds = [...containerTotals.keys()];
+
+  const columns = useMemo((): DataGridColumn<VlsmTreeNode>[] => {
+    const required = (node: VlsmTreeNode) => (node.kind === 'subnet' ? node.block.requiredHosts : containerTotals.get(node.block.id)!.required);
+    const allocated = (node: VlsmTreeNode) => (node.kind === 'subnet' ? node.block.allocatedHosts : containerTotals.get(node.block.id)!.allocated);
+    const lastAddress = (node: VlsmTreeNode) => (node.kind === 'subnet' ? node.block.broadcastAddress : node.block.lastAddress);
+    return [
+      {
+        id: 'name', label: 'Name',
+        sortValue: node => formatPath(node.path), text: node => formatPath(node.path),
+        // Sorted or filtered rows lose their tree position, so they show the full path instead.
+        render: (node, searching) => {
+          const name = tree && !searching ? node.block.name : formatPath(node.path);
+          const style = tree && !searching ? indent(node.path.length - 1) : undefined;
+          if (node.kind === 'container') {
+            const open = !collapsed.has(node.block.id);
+            return searching ? <span className="font-semibold text-blue-300">{name}</span> : (
+              <button
+                type="button"
+                onClick={() => toggle(node.block.id)}
+                aria-expanded={open}
+                style={style}
+                className="flex items-center gap-2 font-semibold text-blue-300 hover:text-blue-200"
+              >
+                <span className={`inline-block transition-transform ${open ? 'rotate-90' : ''}`} aria-hidden="true">▶</span>
+                {name}
+              </button>
+            );
+          }
+          return (
+            <span className="font-medium text-gray-200" style={style}>
+              {name}
+              {subnetSpaces && <span className="ml-2"><AddressSpaceChip info={subnetSpaces.get(node.block.id)!} /></span>}
+            </span>
+          );
+        },
+      },
+      {
+        id: 'required', label: 'Required',
+        sortValue: required,
+        text: node => (node.kind === 'subnet' && node.block.plannedHosts !== undefined ? `${node.block.requiredHosts} → ${node.block.plannedHosts}` : String(required(node))),
+        render: node => (node.kind === 'container' ? <span className="text-gray-400">{required(node)}</span> : (
+          <>
+            {node.block.requiredHosts}
+            {node.block.plannedHosts !== undefined && <span className="text-gray-500" title="Including growth headroom"> → {node.block.plannedHosts}</span>}
+          </>
+        )),
+      },
+      {
+        id: 'allocated', label: 'Allocated',
+        sortValue: allocated, text: node => String(allocated(node)),
+        render: node => <span className={node.kind === 'container' ? 'text-gray-400' : ''}>{allocated(node)}</span>,
+      },
+      {
+        id: 'network', label: 'Network Address', cellClassName: 'font-mono text-gray-300',
+        sortValue: node => ipToBigInt(node.block.networkAddress), text: node => node.block.networkAddress,
+      },
+      {
+        id: 'mask', label: 'Mask / CIDR', cellClassName: 'font-mono text-gray-300',
+        sortValue: node => node.block.cidr, text: node => `${node.block.subnetMask} /${node.block.cidr}`,
+      },
+      {
+        id: 'range', label: 'Usable Range', cellClassName: 'font-mono text-gray-300',
+        sortValue: node => ipToBigInt(node.block.networkAddress),
+        text: node => (node.kind === 'subnet' ? node.block.usableHostRange : `Block ${node.block.networkAddress} - ${node.block.lastAddress}`),
+        render: node => (node.kind === 'subnet' ? node.block.usableHostRange : <span className="text-gray-400">Block {node.block.networkAddress} - {node.block.lastAddress}</span>),
+      },
+      {
+        id: 'broadcast', label: 'Broadcast', cellClassName: 'font-mono text-gray-300',
+        sortValue: node => ipToBigInt(lastAddress(node)), text: node => (node.kind === 'subnet' ? node.block.broadcastAddress : ''),
+      },
+    ];
+  }, [tree, collapsed, containerTotals, subnetSpaces]);
+
   return (
-    <div className="space-y-8">
+    <div ref={rootRef} className="space-y-8">
       {/* Summary */}
       <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-center">
         <div className="bg-gray-700 p-4 rounded-lg">
@@ -26,58 +185,106 @@ const VlsmResults: React.FC<VlsmResultsProps> = ({ result }) => {
             <p className="text-sm text-gray-400">Allocated Hosts</p>
             <p className="font-mono text-lg">{result.totalAllocatedHosts.toLocaleString()}</p>
         </div>
-        <div className="bg-gray-700 p-4 rounded-lg col-span-2 sm:col-span-1">
+        <div className={`bg-gray-700 p-4 rounded-lg ${result.fragmentation === undefined ? 'col-span-2 sm:col-span-1' : ''}`}>
             <p className="text-sm text-gray-400">Efficiency</p>
             <p className="font-mono text-lg text-teal-300">{result.efficiency.toFixed(2)}%</p>
         </div>
+        {result.fragmentation !== undefined && (
+          <div className="bg-gray-700 p-4 rounded-lg" title="Share of the free space outside the largest free block">
+              <p className="text-sm text-gray-400">Fragmentation</p>
+              <p className="font-mono text-lg">{result.fragmentation.toFixed(2)}%</p>
+          </div>
+        )}
       </div>
 
+      <AddressSpaceTags info={addressSpace} />
+
+      <AddressLookup locate={locate} onSelect={handleLookup} />
+
       {/* Allocated Subnets Table */}
       <div>
-        <h3 className="text-xl font-semibold mb-3">Allocated Subnets</h3>
-        <div className="w-full overflow-hidden rounded-lg border border-gray-700">
-          <div className="max-h-[60vh] overflow-auto">
-            <table className="min-w-full divide-y divide-gray-700">
-              <thead className="bg-gray-700/50 sticky top-0 z-10">
-                <tr>
-                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Name</th>
-                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Required</th>
-                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Allocated</th>
-                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Network Address</th>
-                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Mask / CIDR</th>
-                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Usable Range</th>
-                  <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Broadcast</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-800 bg-gray-900/50">
-                {result.allocatedSubnets.map((subnet) => (
-                  <tr key={subnet.id} className="hover:bg-gray-800/60 transition-colors">
-                    <td className="whitespace-nowrap py-4 px-4 text-sm font-medium text-gray-200">{subnet.name}</td>
-                    <td className="whitespace-nowrap py-4 px-4 text-sm text-gray-300">{subnet.requiredHosts}</td>
-                    <td className="whitespace-nowrap py-4 px-4 text-sm text-gray-300">{subnet.allocatedHosts}</td>
-                    <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{subnet.networkAddress}</td>
-                    <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{subnet.subnetMask} /{subnet.cidr}</td>
-                    <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{subnet.usableHostRange}</td>
-                    <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{subnet.broadcastAddress}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+        <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+          <h3 className="text-xl font-semibold">Allocated Subnets</h3>
+          <div className="flex items-baseline gap-4">
+            {tree && (
+              <span className="text-sm space-x-3">
+                <button type="button" onClick={() => setCollapsed(new Set())} className="text-blue-400 hover:text-blue-300">Expand all</button>
+                <button type="button" onClick={() => setCollapsed(new Set(containerIds))} className="text-blue-400 hover:text-blue-300">Collapse all</button>
+              </span>
+            )}
+            {result.strategy && (
+              <span className="text-sm text-gray-400">Strategy: <span className="text-gray-200">{VLSM_STRATEGY_LABELS[result.strategy]}</span></span>
+            )}
           </div>
         </div>
+        <DataGrid
+          columns={columns}
+          rows={visibleNodes}
+          searchRows={allNodes}
+          rowKey={rowKey}
+          rowClassName={node => (node.kind === 'container' ? 'bg-gray-800/70' : 'hover:bg-gray-800/60')}
+          rowRange={nodeRange}
+          highlightedKey={highlighted}
+          itemLabel={tree ? 'rows' : 'subnets'}
+        />
       </div>
 
+      {/* Reserved Ranges */}
+      {result.reservedRanges && result.reservedRanges.length > 0 && (
+        <div>
+            <h3 className="text-xl font-semibold mb-3">Reserved Ranges</h3>
+            <div className="w-full overflow-hidden rounded-lg border border-amber-700/40">
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead className="bg-amber-900/20">
+                  <tr>
+                    <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Name</th>
+                    <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Range</th>
+                    <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">First Address</th>
+                    <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Last Address</th>
+                    <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Addresses</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800 bg-gray-900/50">
+                  {result.reservedRanges.map((range, index) => (
+                    <tr key={index} data-lookup={`reserved:${index}`} className={rowClass(`reserved:${index}`, '')}>
+                      <td className="whitespace-nowrap py-4 px-4 text-sm font-medium text-amber-300">{range.name}</td>
+                      <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{range.range}</td>
+                      <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{range.firstAddress}</td>
+                      <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{range.lastAddress}</td>
+                      <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{Number(range.size).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+        </div>
+      )}
+
       {/* Unallocated Ranges */}
       {result.unallocatedRanges.length > 0 && (
         <div>
             <h3 className="text-xl font-semibold mb-3">Unallocated Address Space</h3>
-            <div className="bg-gray-700/50 rounded-lg p-4 font-mono text-gray-300 space-y-2">
-                {result.unallocatedRanges.map((range, index) => (
-                    <div key={index}>
-                        <p><strong>Range:</strong> {range.usableHostRange}</p>
-                        <p><strong>Total Addresses:</strong> {range.size}</p>
-                    </div>
-                ))}
+            <div className="w-full overflow-hidden rounded-lg border border-gray-700">
+              <div className="max-h-[40vh] overflow-auto">
+                <table className="min-w-full divide-y divide-gray-700">
+                  <thead className="bg-gray-700/50 sticky top-0">
+                    <tr>
+                      <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Prefix</th>
+                      <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Addresses</th>
+                      <th scope="col" className="py-3.5 px-4 text-left text-sm font-semibold text-gray-300">Usable Range</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800 bg-gray-900/50">
+                    {result.unallocatedRanges.map((range) => (
+                      <tr key={range.networkAddress} data-lookup={`unallocated:${range.networkAddress}`} className={rowClass(`unallocated:${range.networkAddress}`, '')}>
+                        <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-teal-300">{range.networkAddress}/{range.cidr}</td>
+                        <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{Number(range.size).toLocaleString()}</td>
+                        <td className="whitespace-nowrap py-4 px-4 text-sm font-mono text-gray-300">{range.usableHostRange}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             </div>
         </div>
       )}
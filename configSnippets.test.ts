@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_TARGETS, DEFAULT_CONFIG_OPTIONS, generateConfig } from './configSnippets';
+import { calculateVlsm } from './calculations';
+
+const result = calculateVlsm({
+  ipAddress: '10.1.0.0',
+  cidr: 24,
+  subnets: [
+    { id: 'group-0', name: 'Users', hosts: 50, count: 1 },
+    { id: 'group-1', name: 'Uplink', hosts: 2, count: 1 },
+  ],
+});
+const target = (id: string) => CONFIG_TARGETS.find(t => t.id === id)!;
+
+describe('config snippets', () => {
+  it('addresses Cisco subinterfaces with the first usable host', () => {
+    expect(generateConfig(target('cisco'), result, DEFAULT_CONFIG_OPTIONS)).toBe([
+      'interface GigabitEthernet0/0.10',
+      ' description Users',
+      ' encapsulation dot1Q 10',
+      ' ip address 10.1.0.1 255.255.255.192',
+      ' no shutdown',
+      '!',
+      'interface GigabitEthernet0/0.11',
+      ' description Uplink',
+      ' encapsulation dot1Q 11',
+      ' ip address 10.1.0.65 255.255.255.252',
+      ' no shutdown',
+      '!',
+      '',
+    ].join('\n'));
+  });
+
+  it('honours the gateway position, VLAN numbering and parent interface', () => {
+    const junos = generateConfig(target('juniper'), result, { gateway: 'last', firstVlanId: 100, parentInterface: ' xe-0/0/1 ' });
+    expect(junos).toContain('set interfaces xe-0/0/1 unit 100 family inet address 10.1.0.62/26');
+    expect(junos).toContain('set interfaces xe-0/0/1 unit 101 vlan-id 101');
+  });
+
+  it('describes nested subnets by their path', () => {
+    const nested = calculateVlsm({
+      ipAddress: '10.2.0.0',
+      cidr: 24,
+      subnets: [{ id: 'site', name: 'HQ', hosts: 0, count: 1, children: [{ id: 'voice', name: 'Voice', hosts: 20, count: 1 }] }],
+    });
+    expect(generateConfig(target('cisco'), nested, DEFAULT_CONFIG_OPTIONS)).toContain(' description HQ / Voice\n');
+  });
+
+  it('builds DHCP pools around the gateway', () => {
+    const kea = JSON.parse(generateConfig(target('kea'), result, DEFAULT_CONFIG_OPTIONS));
+    expect(kea.Dhcp4.subnet4[0]).toMatchObject({
+      id: 10,
+      subnet: '10.1.0.0/26',
+      pools: [{ pool: '10.1.0.2 - 10.1.0.62' }],
+      'option-data': [{ name: 'routers', data: '10.1.0.1' }],
+    });
+
+    const dhcpd = generateConfig(target('dhcpd'), result, { ...DEFAULT_CONFIG_OPTIONS, gateway: 'last' });
+    expect(dhcpd).toContain('subnet 10.1.0.64 netmask 255.255.255.252 {\n  range 10.1.0.65 10.1.0.65;\n  option routers 10.1.0.66;');
+  });
+
+  it('addresses point-to-point links and loopbacks inside their own block', () => {
+    const links = calculateVlsm({
+      ipAddress: '10.0.0.0',
+      cidr: 29,
+      subnets: [
+        { id: 'wan', name: 'WAN', hosts: 2, count: 1, kind: 'p2p' },
+        { id: 'lo', name: 'Loopback', hosts: 1, count: 1, kind: 'loopback' },
+      ],
+    });
+    expect(links.allocatedSubnets.map(s => `${s.networkAddress}/${s.cidr}`)).toEqual(['10.0.0.0/31', '10.0.0.2/32']);
+
+    const cisco = generateConfig(target('cisco'), links, DEFAULT_CONFIG_OPTIONS);
+    expect(cisco).toContain(' ip address 10.0.0.0 255.255.255.254\n');
+    expect(cisco).toContain(' ip address 10.0.0.2 255.255.255.255\n');
+    expect(generateConfig(target('cisco'), links, { ...DEFAULT_CONFIG_OPTIONS, gateway: 'last' })).toContain(' ip address 10.0.0.1 255.255.255.254\n ');
+    expect(generateConfig(target('juniper'), links, { ...DEFAULT_CONFIG_OPTIONS, gateway: 'last' })).toContain('family inet address 10.0.0.2/32');
+
+    const kea = JSON.parse(generateConfig(target('kea'), links, DEFAULT_CONFIG_OPTIONS));
+    expect(kea.Dhcp4.subnet4.map((s: { pools: unknown[]; 'option-data': { data: string }[] }) => [s.pools, s['option-data'][0].data])).toEqual([
+      [[], '10.0.0.0'],
+      [[], '10.0.0.2'],
+    ]);
+    expect(generateConfig(target('dhcpd'), links, DEFAULT_CONFIG_OPTIONS)).toBe([
+      '# WAN',
+      'subnet 10.0.0.0 netmask 255.255.255.254 {',
+      '  option routers 10.0.0.0;',
+      '}',
+      '',
+      '# Loopback',
+      'subnet 10.0.0.2 netmask 255.255.255.255 {',
+      '  option routers 10.0.0.2;',
+      '}',
+      '',
+    ].join('\n'));
+
+    const linux = generateConfig(target('linux-ip'), links, DEFAULT_CONFIG_OPTIONS);
+    expect(linux).toContain('ip addr add 10.0.0.0/31 dev eth0.10\n');
+    expect(linux).toContain('ip addr add 10.0.0.2/32 dev eth0.11\n');
+  });
+
+  it('emits Linux ip commands and netplan VLANs', () => {
+    expect(generateConfig(target('linux-ip'), result, DEFAULT_CONFIG_OPTIONS))
+      .toContain('ip addr add 10.1.0.1/26 brd 10.1.0.63 dev eth0.10');
+    expect(generateConfig(target('netplan'), result, DEFAULT_CONFIG_OPTIONS))
+      .toContain('    eth0.11:\n      id: 11\n      link: eth0\n      addresses: [10.1.0.65/30]');
+  });
+});
@@ -0,0 +1,163 @@
+// Device and DHCP server configuration generated from the subnets of a VLSM plan. Every subnet
+// becomes one VLAN (sub)interface numbered from `firstVlanId`, addressed with its gateway.
+import { VlsmCalculationResult, VlsmSubnetResult } from './types';
+import { bigIntToIp, ipToBigInt, usableHostBounds } from './ipv4';
+import { subnetPaths } from './vlsmTree';
+
+export interface ConfigOptions {
+  // Which usable host of each subnet is the gateway; the DHCP pool covers the remaining ones.
+  gateway: 'first' | 'last';
+  firstVlanId: number;
+  // Parent interface of the VLANs; each target has its own default.
+  parentInterface?: string;
+}
+
+export const DEFAULT_CONFIG_OPTIONS: ConfigOptions = { gateway: 'first', firstVlanId: 10 };
+
+export type ResolvedOptions = ConfigOptions & { parentInterface: string };
+
+export interface ConfigTarget {
+  id: string;
+  label: string;
+  defaultInterface?: string;
+  generate: (result: VlsmCalculationResult, options: ResolvedOptions) => string;
+}
+
+interface SubnetConfig {
+  subnet: VlsmSubnetResult;
+  // Description of the VLAN: the subnet's full path in hierarchical plans, e.g. "EU / Site 1 / Users".
+  label: string;
+  vlanId: number;
+  network: string;
+  gateway: string;
+  // First and last address handed out by DHCP; null when the gateway is the only usable host and
+  // for point-to-point links and loopbacks.
+  pool: [string, string] | null;
+  // Null for point-to-point links (/31) and loopbacks (/32), which have no broadcast address.
+  broadcast: string | null;
+}
+
+const subnetConfigs = (result: VlsmCalculationResult, options: ConfigOptions): SubnetConfig[] => {
+  const paths = subnetPaths(result);
+  return result.allocatedSubnets.map((subnet, i) => {
+    const pointToPoint = subnet.kind !== undefined;
+    // VLSM subnets always have a usable host: LANs are at most a /30.
+    const { first: firstHost, last: lastHost } = usableHostBounds(ipToBigInt(subnet.networkAddress), subnet.cidr, pointToPoint)!;
+    const gatewayInt = options.gateway === 'first' ? firstHost : lastHost;
+    const [poolStart, poolEnd] = options.gateway === 'first' ? [firstHost + 1n, lastHost] : [firstHost, lastHost - 1n];
+    return {
+      subnet,
+      label: paths.get(subnet.id) ?? subnet.name,
+      vlanId: options.firstVlanId + i,
+      network: `${subnet.networkAddress}/${subnet.cidr}`,
+      gateway: bigIntToIp(gatewayInt),
+      pool: !pointToPoint && poolStart <= poolEnd ? [bigIntToIp(poolStart), bigIntToIp(poolEnd)] : null,
+      broadcast: pointToPoint ? null : subnet.broadcastAddress,
+    };
+  });
+};
+
+const cisco: ConfigTarget = {
+  id: 'cisco',
+  label: 'Cisco IOS',
+  defaultInterface: 'GigabitEthernet0/0',
+  generate: (result, options) => {
+    const parent = options.parentInterface;
+    return subnetConfigs(result, options).map(({ subnet, label, vlanId, gateway }) => [
+      `interface ${parent}.${vlanId}`,
+      ` description ${label}`,
+      ` encapsulation dot1Q ${vlanId}`,
+      ` ip address ${gateway} ${subnet.subnetMask}`,
+      ` no shutdown`,
+      `!`,
+    ].join('\n')).join('\n') + '\n';
+  },
+};
+
+const juniper: ConfigTarget = {
+  id: 'juniper',
+  label: 'Juniper Junos',
+  defaultInterface: 'ge-0/0/0',
+  generate: (result, options) => {
+    const parent = options.parentInterface;
+    const lines = [`set interfaces ${parent} vlan-tagging`];
+    for (const { subnet, label, vlanId, gateway } of subnetConfigs(result, options)) {
+      lines.push(
+        `set interfaces ${parent} unit ${vlanId} description "${label.replace(/"/g, "'")}"`,
+        `set interfaces ${parent} unit ${vlanId} vlan-id ${vlanId}`,
+        `set interfaces ${parent} unit ${vlanId} family inet address ${gateway}/${subnet.cidr}`,
+      );
+    }
+    return lines.join('\n') + '\n';
+  },
+};
+
+const kea: ConfigTarget = {
+  id: 'kea',
+  label: 'ISC Kea',
+  generate: (result, options) => {
+    const subnet4 = subnetConfigs(result, options).map(({ label, vlanId, network, gateway, pool }) => ({
+      id: vlanId,
+      subnet: network,
+      'user-context': { name: label },
+      pools: pool ? [{ pool: `${pool[0]} - ${pool[1]}` }] : [],
+      'option-data': [{ name: 'routers', data: gateway }],
+    }));
+    return JSON.stringify({ Dhcp4: { subnet4 } }, null, 2) + '\n';
+  },
+};
+
+const dhcpd: ConfigTarget = {
+  id: 'dhcpd',
+  label: 'ISC dhcpd',
+  generate: (result, options) => {
+    return subnetConfigs(result, options).map(({ subnet, label, gateway, pool, broadcast }) => [
+      `# ${label}`,
+      `subnet ${subnet.networkAddress} netmask ${subnet.subnetMask} {`,
+      ...(pool ? [`  range ${pool[0]} ${pool[1]};`] : []),
+      `  option routers ${gateway};`,
+      ...(broadcast ? [`  option broadcast-address ${broadcast};`] : []),
+      `}`,
+    ].join('\n')).join('\n\n') + '\n';
+  },
+};
+
+const linuxIp: ConfigTarget = {
+  id: 'linux-ip',
+  label: 'Linux ip',
+  defaultInterface: 'eth0',
+  generate: (result, options) => {
+    const parent = options.parentInterface;
+    return subnetConfigs(result, options).map(({ subnet, label, vlanId, gateway, broadcast }) => [
+      `# ${label}`,
+      `ip link add link ${parent} name ${parent}.${vlanId} type vlan id ${vlanId}`,
+      `ip addr add ${gateway}/${subnet.cidr}${broadcast ? ` brd ${broadcast}` : ''} dev ${parent}.${vlanId}`,
+      `ip link set dev ${parent}.${vlanId} up`,
+    ].join('\n')).join('\n\n') + '\n';
+  },
+};
+
+const netplan: ConfigTarget = {
+  id: 'netplan',
+  label: 'Netplan',
+  defaultInterface: 'eth0',
+  generate: (result, options) => {
+    const parent = options.parentInterface;
+    const lines = ['network:', '  version: 2', '  vlans:'];
+    for (const { subnet, label, vlanId, gateway } of subnetConfigs(result, options)) {
+      lines.push(
+        `    # ${label}`,
+        `    ${parent}.${vlanId}:`,
+        `      id: ${vlanId}`,
+        `      link: ${parent}`,
+        `      addresses: [${gateway}/${subnet.cidr}]`,
+      );
+    }
+    return lines.join('\n') + '\n';
+  },
+};
+
+export const CONFIG_TARGETS: ConfigTarget[] = [cisco, juniper, kea, dhcpd, linuxIp, netplan];
+
+export const generateConfig = (target: ConfigTarget, result: VlsmCalculationResult, options: ConfigOptions): string =>
+  target.generate(result, { ...options, parentInterface: options.parentInterface?.trim() || target.defaultInterface || '' });
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { GridColumn, filterRows, parseRangeQuery, rowsToTsv, sortRows } from './dataGrid';
+import { ipToBigInt } from './ipv4';
+
+interface Row {
+  name: string;
+  network: string;
+  cidr: number;
+}
+
+const rows: Row[] = [
+  { name: 'Subnet 10', network: '10.0.0.0', cidr: 24 },
+  { name: 'Subnet 2', network: '10.0.2.0', cidr: 25 },
+  { name: 'Servers', network: '9.255.0.0', cidr: 24 },
+  { name: 'Voice', network: '10.0.1.0', cidr: 25 },
+];
+
+const columns: GridColumn<Row>[] = [
+  { id: 'name', label: 'Name', sortValue: r => r.name, text: r => r.name },
+  { id: 'network', label: 'Network', sortValue: r => ipToBigInt(r.network), text: r => `${r.network}/${r.cidr}` },
+  { id: 'cidr', label: 'CIDR', sortValue: r => r.cidr, text: r => `/${r.cidr}` },
+];
+
+const range = (r: Row) => ({ start: ipToBigInt(r.network), end: ipToBigInt(r.network) + (1n << BigInt(32 - r.cidr)) - 1n });
+
+describe('sortRows', () => {
+  it('sorts names naturally and addresses numerically', () => {
+    expect(sortRows(rows, columns[0], 'asc').map(r => r.name)).toEqual(['Servers', 'Subnet 2', 'Subnet 10', 'Voice']);
+    expect(sortRows(rows, columns[1], 'asc').map(r => r.network)).toEqual(['9.255.0.0', '10.0.0.0', '10.0.1.0', '10.0.2.0']);
+  });
+
+  it('keeps the original order of equal keys in both directions', () => {
+    expect(sortRows(rows, columns[2], 'asc').map(r => r.name)).toEqual(['Subnet 10', 'Servers', 'Subnet 2', 'Voice']);
+    expect(sortRows(rows, columns[2], 'desc').map(r => r.name)).toEqual(['Subnet 2', 'Voice', 'Subnet 10', 'Servers']);
+  });
+
+  it('does not change the input', () => {
+    fc.assert(fc.property(fc.array(fc.integer()), values => {
+      const input = values.map(cidr => ({ name: '', network: '0.0.0.0', cidr }));
+      const copy = [...input];
+      const sorted = sortRows(input, columns[2], 'desc');
+      expect(input).toEqual(copy);
+      expect(sorted.map(r => r.cidr)).toEqual([...values].sort((a, b) => b - a));
+    }));
+  });
+});
+
+describe('filterRows', () => {
+  it('matches text in any column, ignoring case', () => {
+    expect(filterRows(rows, columns, ' sub ').map(r => r.name)).toEqual(['Subnet 10', 'Subnet 2']);
+    expect(filterRows(rows, columns, '/25').map(r => r.name)).toEqual(['Subnet 2', 'Voice']);
+    expect(filterRows(rows, columns, '')).toBe(rows);
+  });
+
+  it('keeps rows overlapping an address, range or CIDR block', () => {
+    expect(filterRows(rows, columns, '10.0.1.77', range).map(r => r.name)).toEqual(['Voice']);
+    expect(filterRows(rows, columns, '10.0.0.0/23', range).map(r => r.name)).toEqual(['Subnet 10', 'Voice']);
+    expect(filterRows(rows, columns, '9.255.0.200 - 10.0.0.1', range).map(r => r.name)).toEqual(['Subnet 10', 'Servers']);
+  });
+
+  it('falls back to text for partial addresses and grids without ranges', () => {
+    expect(filterRows(rows, columns, '10.0.', range).map(r => r.name)).toEqual(['Subnet 10', 'Subnet 2', 'Voice']);
+    expect(filterRows(rows, columns, '10.0.1.77')).toEqual([]);
+    expect(parseRangeQuery('10.0.1.0/23')).toBeNull();
+  });
+});
+
+describe('rowsToTsv', () => {
+  it('writes a header and one line per row', () => {
+    expect(rowsToTsv(rows.slice(0, 2), columns.slice(0, 2))).toBe('Name\tNetwork\nSubnet 10\t10.0.0.0/24\nSubnet 2\t10.0.2.0/25\n');
+  });
+
+  it('keeps tabs and line breaks in values from splitting cells', () => {
+    const odd = [{ name: 'Guest\tWi-Fi\nFloor 2', network: '10.0.0.0', cidr: 24 }];
+    expect(rowsToTsv(odd, columns.slice(0, 1))).toBe('Name\nGuest Wi-Fi Floor 2\n');
+  });
+});
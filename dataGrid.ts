@@ -0,0 +1,73 @@
+// Sorting, filtering and copying for the results grids; components/DataGrid.tsx renders the visible window.
+import { parseIpv4Range } from './ipv4';
+import { AddressRange } from './cidrSets';
+
+export interface GridColumn<Row> {
+  id: string;
+  label: string;
+  // Numbers and bigints (e.g. addresses) sort numerically, strings in natural order ("Subnet 2" before "Subnet 10").
+  sortValue: (row: Row) => string | number | bigint;
+  // Plain text matched by the filter and written when rows are copied.
+  text: (row: Row) => string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface GridSort {
+  columnId: string;
+  direction: SortDirection;
+}
+
+const collator = new Intl.Collator('en', { numeric: true, sensitivity: 'base' });
+
+const compareValues = (a: string | number | bigint, b: string | number | bigint): number => {
+  if (typeof a === 'string' || typeof b === 'string') return collator.compare(String(a), String(b));
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// Stable: rows with equal keys keep their order, e.g. address order within one prefix length.
+export const sortRows = <Row>(rows: Row[], column: GridColumn<Row>, direction: SortDirection): Row[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  return rows
+    .map(row => ({ row, key: column.sortValue(row) }))
+    .sort((a, b) => sign * compareValues(a.key, b.key))
+    .map(entry => entry.row);
+};
+
+// Returns the range a filter query names, or null when it is not an IPv4 address, range or CIDR block.
+export const parseRangeQuery = (query: string): AddressRange | null => {
+  try {
+    return parseIpv4Range(query);
+  } catch {
+    return null;
+  }
+};
+
+// A query naming an IPv4 address, range or CIDR block keeps the rows whose addresses overlap it, when
+// rows have a range; anything else keeps the rows where some column's text contains it, ignoring case.
+export const filterRows = <Row>(
+  rows: Row[],
+  columns: GridColumn<Row>[],
+  query: string,
+  rowRange?: (row: Row) => AddressRange | null,
+): Row[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return rows;
+  const range = rowRange ? parseRangeQuery(trimmed) : null;
+  if (rowRange && range) {
+    return rows.filter(row => {
+      const r = rowRange(row);
+      return r !== null && r.start <= range.end && range.start <= r.end;
+    });
+  }
+  const needle = trimmed.toLowerCase();
+  return rows.filter(row => columns.some(column => column.text(row).toLowerCase().includes(needle)));
+};
+
+const tsvCell = (text: string) => text.replace(/[\t\r\n]+/g, ' ');
+
+// Tab-separated rows with a header line, which spreadsheets split into cells when pasted.
+export const rowsToTsv = <Row>(rows: Row[], columns: GridColumn<Row>[]): string =>
+  [columns.map(c => c.label), ...rows.map(row => columns.map(c => c.text(row)))]
+    .map(cells => cells.map(tsvCell).join('\t'))
+    .join('\n') + '\n';
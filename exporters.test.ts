@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getExporters, registerExporter } from './exporters';
+import { calculateVlsm } from './calculations';
+import { parsePlanDocument } from './planFormat';
+import { ExportSource, VlsmCalculationPayload } from './types';
+
+const payload: VlsmCalculationPayload = {
+  ipAddress: '172.16.0.0',
+  cidr: 22,
+  subnets: [{ id: 'group-0', name: 'LANs', hosts: 100, count: 3 }],
+};
+const source: ExportSource = { calculator: 'vlsm', payload, result: calculateVlsm(payload) };
+
+describe('exporter registry', () => {
+  it('offers the text formats and skips Excel when SheetJS is not loaded', () => {
+    expect(getExporters(source).map(e => e.id)).toEqual(['csv', 'markdown', 'report', 'plan-json']);
+  });
+
+  it('exports plan files that import back', () => {
+    const planExporter = getExporters(source).find(e => e.id === 'plan-json')!;
+    const file = planExporter.export(source);
+    expect(file.filename).toBe('VLSM_Plan_172_16_0_0_22.json');
+    expect(parsePlanDocument(file.content as string).result).toEqual(source.result);
+  });
+
+  it('opens the printable report instead of downloading it', () => {
+    const report = getExporters(source).find(e => e.id === 'report')!.export(source);
+    expect(report).toMatchObject({ filename: 'VLSM_Plan_172_16_0_0_22.html', mimeType: 'text/html', openInNewTab: true });
+  });
+
+  it('accepts new exporters but not duplicate ids', () => {
+    registerExporter({
+      id: 'test-summary',
+      label: 'Summary',
+      supports: s => s.calculator === 'vlsm',
+      export: s => ({ filename: 'summary.txt', mimeType: 'text/plain', content: s.calculator }),
+    });
+    expect(getExporters(source).map(e => e.id)).toContain('test-summary');
+    expect(() => registerExporter({ ...getExporters(source)[0] })).toThrow("An exporter with id 'csv' is already registered.");
+  });
+});
@@ -0,0 +1,256 @@
+// Registry of the export formats offered under the results. Each exporter turns the result on
+// screen into a file; App only lists the exporters that support the current result.
+import { AddressingMode, ExportSource, SheetWorkbook } from './types';
+import { ReportSource, buildPlanReport, isReportSource, renderCsv, renderHtmlReport, renderMarkdown } from './planReport';
+import { createPlanDocument } from './planFormat';
+import { SUBNET_PAGE_SIZE, standardSubnetPage } from './calculations';
+
+declare const XLSX: any;
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string | ArrayBuffer;
+  // Show the file in a new tab (e.g. a report to print) instead of downloading it.
+  openInNewTab?: boolean;
+}
+
+export interface Exporter {
+  id: string;
+  label: string;
+  supports: (source: ExportSource) => boolean;
+  export: (source: ExportSource) => ExportFile;
+}
+
+const registry: Exporter[] = [];
+
+export const registerExporter = (exporter: Exporter) => {
+  if (registry.some(e => e.id === exporter.id)) {
+    throw new Error(`An exporter with id '${exporter.id}' is already registered.`);
+  }
+  registry.push(exporter);
+};
+
+export const getExporters = (source: ExportSource): Exporter[] => registry.filter(e => e.supports(source));
+
+// Name of the first sheet for calculators laid out from their report.
+const GENERIC_SHEET_NAMES = { summarize: 'Route Summary', cidrset: 'CIDR Set', audit: 'Address Audit' };
+
+const buildWorkbook = (source: ExportSource): { workbook: SheetWorkbook; filename: string } => {
+  const workbook: SheetWorkbook = XLSX.utils.book_new();
+
+  if (source.calculator === 'standard') {
+    const { result: standardResult, payload } = source;
+    const originalIp = payload.ipAddress;
+    const classful = standardResult.addressingMode === AddressingMode.CLASSFUL;
+    const summaryData = [
+      ["Calculation Summary", ""],
+      ["Original IP Address", originalIp],
+      classful ? ["IP Class", standardResult.ipClass] : ["Parent Network", standardResult.parentNetwork],
+      classful ? ["Default Mask", standardResult.defaultMask] : ["Parent Mask", standardResult.parentMask],
+      ["Subnet Mask", standardResult.subnetMask],
+      ["CIDR Notation", `/${standardResult.cidr}`],
+      ["Total Subnets", standardResult.totalSubnets],
+      ["Usable Hosts per Subnet", standardResult.hostsPerSubnet],
+    ];
+    const subnets = standardSubnetPage(standardResult, 0, SUBNET_PAGE_SIZE);
+    if (subnets.length < standardResult.totalSubnets) {
+      summaryData.push(["Subnets Listed", `First ${subnets.length.toLocaleString('en-US')} of ${standardResult.totalSubnets.toLocaleString('en-US')}`]);
+    }
+
+    const worksheet = XLSX.utils.aoa_to_sheet(summaryData);
+
+    const subnetTableData = [['Subnet', 'Network Address', 'Usable Host Range', 'Broadcast Address']];
+    subnets.forEach(subnet => {
+      subnetTableData.push([`Subnet ${subnet.id}`, subnet.networkAddress, subnet.usableHostRange, subnet.broadcastAddress]);
+    });
+
+    XLSX.utils.sheet_add_aoa(worksheet, subnetTableData, { origin: `A${summaryData.length + 2}` });
+    worksheet['!cols'] = [{ wch: 25 }, { wch: 25 }, { wch: 35 }, { wch: 20 }];
+    worksheet['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: 1 } }];
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Subnet Plan');
+    return { workbook, filename: `IPv4_Subnet_Plan_${originalIp.replace(/\./g, '_')}_${standardResult.cidr}.xlsx` };
+  }
+
+  if (source.calculator === 'vlsm') {
+    const vlsmResult = source.result;
+    const summaryData = [
+      ["VLSM Calculation Summary", ""],
+      ["Base Network", vlsmResult.baseNetwork],
+      ["Total Hosts in Block", vlsmResult.totalHostsInBlock],
+      ["Total Required Hosts", vlsmResult.totalRequiredHosts],
+      ["Total Allocated Hosts", vlsmResult.totalAllocatedHosts],
+      ["Address Utilization Efficiency", `${vlsmResult.efficiency.toFixed(2)}%`],
+    ];
+
+    const worksheet = XLSX.utils.aoa_to_sheet(summaryData);
+
+    // Same rows as the CSV export, including the container rows of hierarchical plans.
+    const [allocated] = buildPlanReport(source).tables;
+    const subnetTableData = [allocated.columns, ...allocated.rows];
+
+    XLSX.utils.sheet_add_aoa(worksheet, [['Allocated Subnets']], { origin: 'A8' });
+    XLSX.utils.sheet_add_aoa(worksheet, subnetTableData, { origin: 'A9' });
+
+    worksheet['!cols'] = [
+      { wch: allocated.columns[0] === 'Path' ? 40 : 20 },
+      ...(allocated.columns[1] === 'Type' ? [{ wch: 12 }] : []),
+      { wch: 15 }, { wch: 15 }, { wch: 20 }, { wch: 20 },
+      { wch: 10 }, { wch: 40 }, { wch: 20 }
+    ];
+    worksheet['!merges'] = [
+      { s: { r: 0, c: 0 }, e: { r: 0, c: 1 } },
+      { s: { r: 7, c: 0 }, e: { r: 7, c: allocated.columns.length - 1 } }
+    ];
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'VLSM Plan');
+
+    if (vlsmResult.reservedRanges && vlsmResult.reservedRanges.length > 0) {
+      const reservedData = [['Name', 'Range', 'First Address', 'Last Address', 'Addresses']];
+      vlsmResult.reservedRanges.forEach(r => reservedData.push([r.name, r.range, r.firstAddress, r.lastAddress, r.size]));
+      const reservedSheet = XLSX.utils.aoa_to_sheet(reservedData);
+      reservedSheet['!cols'] = [{ wch: 25 }, { wch: 35 }, { wch: 20 }, { wch: 20 }, { wch: 15 }];
+      XLSX.utils.book_append_sheet(workbook, reservedSheet, 'Reserved Ranges');
+    }
+    return { workbook, filename: `VLSM_Plan_${vlsmResult.baseNetwork.replace(/[./]/g, '_')}.xlsx` };
+  }
+
+  if (source.calculator === 'standard6') {
+    const ipv6Result = source.result;
+    const summaryData = [
+      ["IPv6 Calculation Summary", ""],
+      ["Parent Network", ipv6Result.parentNetwork],
+      ["Subnet Prefix", `/${ipv6Result.cidr}`],
+      ["Total Subnets", ipv6Result.totalSubnets],
+      ["Addresses per Subnet", ipv6Result.addressesPerSubnet],
+    ];
+
+    const worksheet = XLSX.utils.aoa_to_sheet(summaryData);
+
+    const subnetTableData = [['Subnet', 'Network Prefix', 'First Address', 'Last Address']];
+    ipv6Result.subnets.forEach(subnet => {
+      subnetTableData.push([`Subnet ${subnet.id}`, `${subnet.networkAddress}/${ipv6Result.cidr}`, subnet.networkAddress, subnet.broadcastAddress]);
+    });
+
+    XLSX.utils.sheet_add_aoa(worksheet, subnetTableData, { origin: 'A7' });
+    worksheet['!cols'] = [{ wch: 25 }, { wch: 45 }, { wch: 40 }, { wch: 40 }];
+    worksheet['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: 1 } }];
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'IPv6 Subnet Plan');
+    return { workbook, filename: `IPv6_Subnet_Plan_${ipv6Result.parentNetwork.replace(/[:/]/g, '_')}_${ipv6Result.cidr}.xlsx` };
+  }
+
+  // Newer calculators are laid out from their report: summary and main table on the first
+  // sheet, any further table on a sheet of its own.
+  if (source.calculator === 'summarize' || source.calculator === 'cidrset' || source.calculator === 'audit') {
+    const report = buildPlanReport(source);
+    const [main, ...others] = report.tables;
+    const worksheet = XLSX.utils.aoa_to_sheet([[report.title, ''], ...report.summary]);
+    const tableRow = report.summary.length + 2;
+    XLSX.utils.sheet_add_aoa(worksheet, [[main.title], main.columns, ...main.rows], { origin: `A${tableRow + 1}` });
+    worksheet['!cols'] = main.columns.map((_, i) => ({ wch: i === 0 ? 30 : 20 }));
+    worksheet['!merges'] = [
+      { s: { r: 0, c: 0 }, e: { r: 0, c: 1 } },
+      { s: { r: tableRow, c: 0 }, e: { r: tableRow, c: main.columns.length - 1 } }
+    ];
+    XLSX.utils.book_append_sheet(workbook, worksheet, GENERIC_SHEET_NAMES[source.calculator]);
+
+    others.forEach(table => {
+      const sheet = XLSX.utils.aoa_to_sheet([table.columns, ...table.rows]);
+      sheet['!cols'] = table.columns.map((_, i) => ({ wch: i === 0 ? 35 : 20 }));
+      XLSX.utils.book_append_sheet(workbook, sheet, table.title);
+    });
+    return { workbook, filename: `${report.fileStem}.xlsx` };
+  }
+
+  const ipv6VlsmResult = source.result;
+  const summaryData = [
+    ["IPv6 VLSM Calculation Summary", ""],
+    ["Base Network", ipv6VlsmResult.baseNetwork],
+    ["Total Addresses in Block", ipv6VlsmResult.totalAddressesInBlock],
+    ["Total Allocated Addresses", ipv6VlsmResult.totalAllocatedAddresses],
+    ["Block Utilization", `${ipv6VlsmResult.utilization.toFixed(2)}%`],
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(summaryData);
+
+  const subnetTableData = [['Subnet Name', 'Network Prefix', 'First Address', 'Last Address', 'Addresses']];
+  ipv6VlsmResult.allocatedSubnets.forEach(subnet => {
+    subnetTableData.push([
+      subnet.name, `${subnet.networkAddress}/${subnet.cidr}`, subnet.firstAddress, subnet.lastAddress, subnet.addresses
+    ]);
+  });
+
+  XLSX.utils.sheet_add_aoa(worksheet, [['Allocated Subnets']], { origin: 'A7' });
+  XLSX.utils.sheet_add_aoa(worksheet, subnetTableData, { origin: 'A8' });
+
+  worksheet['!cols'] = [{ wch: 20 }, { wch: 45 }, { wch: 40 }, { wch: 40 }, { wch: 30 }];
+  worksheet['!merges'] = [
+    { s: { r: 0, c: 0 }, e: { r: 0, c: 1 } },
+    { s: { r: 6, c: 0 }, e: { r: 6, c: 4 } }
+  ];
+
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'IPv6 VLSM Plan');
+  return { workbook, filename: `IPv6_VLSM_Plan_${ipv6VlsmResult.baseNetwork.replace(/[:/]/g, '_')}.xlsx` };
+};
+
+registerExporter({
+  id: 'xlsx',
+  label: 'Excel',
+  // SheetJS comes from a CDN script tag and may be blocked or offline.
+  supports: () => typeof XLSX !== 'undefined',
+  export: (source) => {
+    const { workbook, filename } = buildWorkbook(source);
+    return {
+      filename,
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      content: XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }),
+    };
+  },
+});
+
+registerExporter({
+  id: 'csv',
+  label: 'CSV',
+  supports: isReportSource,
+  export: (source) => {
+    const report = buildPlanReport(source as ReportSource);
+    return { filename: `${report.fileStem}.csv`, mimeType: 'text/csv', content: renderCsv(report) };
+  },
+});
+
+registerExporter({
+  id: 'markdown',
+  label: 'Markdown',
+  supports: isReportSource,
+  export: (source) => {
+    const report = buildPlanReport(source as ReportSource);
+    return { filename: `${report.fileStem}.md`, mimeType: 'text/markdown', content: renderMarkdown(report) };
+  },
+});
+
+registerExporter({
+  id: 'report',
+  label: 'Printable Report',
+  supports: isReportSource,
+  export: (source) => {
+    const report = buildPlanReport(source as ReportSource);
+    return { filename: `${report.fileStem}.html`, mimeType: 'text/html', content: renderHtmlReport(report), openInNewTab: true };
+  },
+});
+
+registerExporter({
+  id: 'plan-json',
+  label: 'Plan (JSON)',
+  supports: (source) => source.calculator === 'vlsm',
+  export: (source) => {
+    if (source.calculator !== 'vlsm') throw new Error("Only VLSM plans can be exported as a plan file.");
+    const plan = createPlanDocument(source.payload, source.result, { name: `VLSM plan for ${source.result.baseNetwork}` });
+    return {
+      filename: `VLSM_Plan_${source.result.baseNetwork.replace(/[./]/g, '_')}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify(plan, null, 2),
+    };
+  },
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { bigIntToIp, blockSize, formatIpv4Range, ipToBigInt, maskToCidr, parseCidrNotation, parseIpv4Range, parseMask, prefixToMask, rangeToCidrs, validateIpFormat } from './ipv4';
+
+describe('validateIpFormat', () => {
+  it('accepts well-formed addresses', () => {
+    expect(validateIpFormat('0.0.0.0')).toBeNull();
+    expect(validateIpFormat('255.255.255.255')).toBeNull();
+  });
+
+  it.each(['1.2.3', '1.2.3.4.5', '256.0.0.1', '01.2.3.4', '1.2.3.a', '1..3.4'])('rejects %s', (ip) => {
+    expect(validateIpFormat(ip)).not.toBeNull();
+  });
+
+  it('round-trips every 32-bit value through the integer form', () => {
+    fc.assert(fc.property(fc.bigInt({ min: 0n, max: 0xffffffffn }), (value) => {
+      const ip = bigIntToIp(value);
+      expect(validateIpFormat(ip)).toBeNull();
+      expect(ipToBigInt(ip)).toBe(value);
+    }));
+  });
+});
+
+describe('parseMask', () => {
+  it('accepts CIDR and dotted-quad forms', () => {
+    expect(parseMask('/26')).toBe(26);
+    expect(parseMask('26')).toBe(26);
+    expect(parseMask('255.255.255.192')).toBe(26);
+    expect(parseMask('0.0.0.0')).toBe(0);
+  });
+
+  it('rejects leading zeros like the UI validation does', () => {
+    expect(() => parseMask('255.255.255.0192')).toThrow(/Invalid subnet mask format/);
+    expect(() => parseMask('255.255.255.00')).toThrow(/Invalid subnet mask format/);
+  });
+
+  it('rejects non-contiguous masks and out-of-range prefixes', () => {
+    expect(() => parseMask('255.0.255.0')).toThrow(/contiguous/);
+    expect(() => parseMask('/33')).toThrow(/between 0 and 32/);
+  });
+
+  it('inverts prefixToMask for every prefix length', () => {
+    for (let cidr = 0; cidr <= 32; cidr++) {
+      expect(maskToCidr(bigIntToIp(prefixToMask(cidr)))).toBe(cidr);
+    }
+  });
+});
+
+describe('parseCidrNotation', () => {
+  it('splits an address and prefix', () => {
+    expect(parseCidrNotation(' 10.20.0.0/20 ')).toEqual({ ipAddress: '10.20.0.0', cidr: 20 });
+    expect(parseCidrNotation('10.20.0.0')).toEqual({ ipAddress: '10.20.0.0' });
+  });
+
+  it('rejects malformed prefixes', () => {
+    expect(() => parseCidrNotation('10.0.0.0/33')).toThrow(/between 0 and 32/);
+    expect(() => parseCidrNotation('10.0.0.0/ab')).toThrow(/Invalid prefix length/);
+    expect(() => parseCidrNotation('10.0.0.0/8/9')).toThrow(/Invalid CIDR notation/);
+  });
+});
+
+describe('address ranges', () => {
+  it('parses blocks, inclusive ranges and single addresses', () => {
+    expect(parseIpv4Range('10.0.4.0/22')).toEqual({ start: ipToBigInt('10.0.4.0'), end: ipToBigInt('10.0.7.255') });
+    expect(parseIpv4Range(' 10.0.8.10 - 10.0.8.40 ')).toEqual({ start: ipToBigInt('10.0.8.10'), end: ipToBigInt('10.0.8.40') });
+    expect(parseIpv4Range('10.0.0.7')).toEqual({ start: ipToBigInt('10.0.0.7'), end: ipToBigInt('10.0.0.7') });
+  });
+
+  it('rejects malformed ranges', () => {
+    expect(() => parseIpv4Range('10.0.0.9 - 10.0.0.1')).toThrow(/must not be greater/);
+    expect(() => parseIpv4Range('10.0.0.5/24')).toThrow('10.0.0.5/24 is not a network address. Did you mean 10.0.0.0/24?');
+    expect(() => parseIpv4Range('10.0.0.1 - 10.0.0.2 - 10.0.0.3')).toThrow(/Use a CIDR block/);
+  });
+
+  it('formats aligned blocks as CIDR and everything else as a range', () => {
+    fc.assert(fc.property(fc.bigInt({ min: 0n, max: 0xffffffffn }), fc.bigInt({ min: 0n, max: 0xffffffffn }), (a, b) => {
+      const [start, end] = a <= b ? [a, b] : [b, a];
+      expect(parseIpv4Range(formatIpv4Range(start, end))).toEqual({ start, end });
+    }));
+    expect(formatIpv4Range(ipToBigInt('10.0.4.0'), ipToBigInt('10.0.7.255'))).toBe('10.0.4.0/22');
+    expect(formatIpv4Range(ipToBigInt('10.0.4.1'), ipToBigInt('10.0.4.2'))).toBe('10.0.4.1 - 10.0.4.2');
+  });
+
+  it('splits a range into the fewest aligned blocks', () => {
+    const blocks = rangeToCidrs(ipToBigInt('10.0.0.148'), ipToBigInt('10.0.0.255'));
+    expect(blocks.map(b => `${bigIntToIp(b.network)}/${b.cidr}`)).toEqual(['10.0.0.148/30', '10.0.0.152/29', '10.0.0.160/27', '10.0.0.192/26']);
+    expect(rangeToCidrs(0n, 0xffffffffn)).toEqual([{ network: 0n, cidr: 0 }]);
+
+    fc.assert(fc.property(fc.bigInt({ min: 0n, max: 0xffffffffn }), fc.bigInt({ min: 0n, max: 0xffffffffn }), (a, b) => {
+      const [start, end] = a <= b ? [a, b] : [b, a];
+      let next = start;
+      rangeToCidrs(start, end).forEach((block, i, all) => {
+        expect(block.network).toBe(next);
+        expect(block.network % blockSize(block.cidr)).toBe(0n);
+        // Two equal neighbours that form an aligned pair should have been one block.
+        const previous = all[i - 1];
+        if (previous && previous.cidr === block.cidr) {
+          expect(previous.network % blockSize(block.cidr - 1)).not.toBe(0n);
+        }
+        next = block.network + blockSize(block.cidr);
+      });
+      expect(next).toBe(end + 1n);
+    }));
+  });
+});
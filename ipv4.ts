@@ -0,0 +1,185 @@
+// Typed IPv4 core shared by the UI validation and the calculation worker.
+// Addresses are handled as unsigned 32-bit BigInts so range math never overflows.
+
+export const IPV4_BITS = 32;
+const ALL_ONES = 0xffffffffn;
+
+export interface IpClassInfo {
+  class: 'A' | 'B' | 'C' | 'D' | 'E';
+  defaultMaskBits?: number;
+  hostBits?: number;
+}
+
+// Helper functions for validation
+export const validateIpFormat = (ip: string): string | null => {
+    const octets = ip.split('.');
+    if (octets.length !== 4) {
+        return "Invalid IPv4 format. Must have 4 octets separated by dots.";
+    }
+    for (const octet of octets) {
+        const num = parseInt(octet, 10);
+        // Disallow non-numeric, values not matching parsed int (e.g. "01"), or out of range
+        if (!/^\d+$/.test(octet) || String(num) !== octet || num < 0 || num > 255) {
+            return "Invalid IPv4 format. Octets must be numbers between 0 and 255 without leading zeros.";
+        }
+    }
+    return null;
+};
+
+// Class by the leading bits of the first octet, so 0.x.x.x and 127.x.x.x are Class A even though
+// classful addressing reserves them.
+export const getIpClassInfo = (ip: string): IpClassInfo => {
+  const firstOctet = parseInt(ip.split('.')[0], 10);
+  if (firstOctet >= 0 && firstOctet <= 127) return { class: 'A', defaultMaskBits: 8, hostBits: 24 };
+  if (firstOctet >= 128 && firstOctet <= 191) return { class: 'B', defaultMaskBits: 16, hostBits: 16 };
+  if (firstOctet >= 192 && firstOctet <= 223) return { class: 'C', defaultMaskBits: 24, hostBits: 8 };
+  if (firstOctet >= 224 && firstOctet <= 239) return { class: 'D' };
+  return { class: 'E' };
+};
+
+// Converts a dotted-quad string to its integer value. Assumes the input is well formed.
+export const ipToBigInt = (ip: string): bigint => {
+    return ip.split('.').reduce((acc, octet) => (acc << 8n) + BigInt(parseInt(octet, 10)), 0n);
+};
+
+export const bigIntToIp = (ipInt: bigint): string => {
+    return Array.from({ length: 4 }, (_, i) => (ipInt >> BigInt(8 * (3 - i))) & 255n).join('.');
+};
+
+// Validating variant of ipToBigInt for untrusted input.
+export const parseIp = (ip: string): bigint => {
+    const error = validateIpFormat(ip);
+    if (error) throw new Error(`${error} Received: ${ip}`);
+    return ipToBigInt(ip);
+};
+
+export const prefixToMask = (cidr: number): bigint => (ALL_ONES << BigInt(IPV4_BITS - cidr)) & ALL_ONES;
+
+export const blockSize = (cidr: number): bigint => 1n << BigInt(IPV4_BITS - cidr);
+
+export const networkAddress = (ipInt: bigint, cidr: number): bigint => ipInt & prefixToMask(cidr);
+
+export const broadcastAddress = (ipInt: bigint, cidr: number): bigint => networkAddress(ipInt, cidr) + blockSize(cidr) - 1n;
+
+// First and last usable address of a block, excluding its network and broadcast addresses; null
+// when none is left. With pointToPoint a /31 uses both of its addresses (RFC 3021) and a /32 is a
+// single host route.
+export const usableHostBounds = (networkInt: bigint, cidr: number, pointToPoint = false): { first: bigint; last: bigint } | null => {
+    if (pointToPoint && cidr >= IPV4_BITS - 1) return { first: networkInt, last: networkInt + blockSize(cidr) - 1n };
+    const first = networkInt + 1n;
+    const last = networkInt + blockSize(cidr) - 2n;
+    return first > last ? null : { first, last };
+};
+
+// Usable range of a block as text, e.g. "10.0.0.1 - 10.0.0.254", or a single address for a /32.
+export const usableHostRange = (networkInt: bigint, cidr: number, pointToPoint = false): string => {
+    const bounds = usableHostBounds(networkInt, cidr, pointToPoint);
+    if (!bounds) return 'N/A';
+    return bounds.first === bounds.last ? bigIntToIp(bounds.first) : `${bigIntToIp(bounds.first)} - ${bigIntToIp(bounds.last)}`;
+};
+
+// Number of usable addresses in a block, matching usableHostRange.
+export const usableHostCount = (cidr: number, pointToPoint = false): number => {
+    const size = Number(blockSize(cidr));
+    if (cidr >= IPV4_BITS - 1) return pointToPoint ? size : 0;
+    return size - 2;
+};
+
+// Number of host bits needed for a subnet holding `hosts` usable addresses. With pointToPoint,
+// two hosts fit a /31 and a single host a /32.
+export const hostBitsForHosts = (hosts: number, pointToPoint = false): number => (
+    pointToPoint && hosts <= 2 ? Math.max(0, Math.ceil(Math.log2(hosts))) : Math.ceil(Math.log2(hosts + 2))
+);
+
+export const maskToCidr = (mask: string): number => {
+    const maskInt = ipToBigInt(mask);
+    const binaryString = maskInt.toString(2).padStart(32, '0');
+    if (binaryString.includes('01')) {
+      throw new Error(`Invalid subnet mask: ${mask}. Must have contiguous 1s followed by 0s.`);
+    }
+    const cidr = binaryString.indexOf('0');
+    return cidr === -1 ? 32 : cidr;
+};
+
+export const parseMask = (maskValue: string): number => {
+    let cleanMaskValue = maskValue.trim();
+    if (cleanMaskValue.startsWith('/')) {
+      cleanMaskValue = cleanMaskValue.substring(1);
+    }
+    if (!isNaN(parseInt(cleanMaskValue, 10)) && !cleanMaskValue.includes('.')) {
+        const cidr = parseInt(cleanMaskValue, 10);
+        if (cidr < 0 || cidr > 32) {
+            throw new Error(`Invalid CIDR value: /${cidr}. Must be between 0 and 32.`);
+        }
+        return cidr;
+    } else if (cleanMaskValue.includes('.')) {
+        const ipFormatError = validateIpFormat(cleanMaskValue);
+        if (ipFormatError) throw new Error(`Invalid subnet mask format: ${cleanMaskValue}.`);
+        return maskToCidr(cleanMaskValue);
+    }
+    throw new Error(`Unrecognized mask format: ${maskValue}.`);
+};
+
+export const parseCidrNotation = (value: string): { ipAddress: string; cidr?: number } => {
+    const [ipAddress, prefix, ...rest] = value.trim().split('/');
+    if (rest.length > 0) {
+        throw new Error(`Invalid CIDR notation: ${value}.`);
+    }
+    if (prefix === undefined) {
+        return { ipAddress };
+    }
+    if (!/^\d+$/.test(prefix)) {
+        throw new Error(`Invalid prefix length: /${prefix}. Must be a number between 0 and 32.`);
+    }
+    const cidr = parseInt(prefix, 10);
+    if (cidr > 32) {
+        throw new Error(`Invalid CIDR value: /${cidr}. Must be between 0 and 32.`);
+    }
+    return { ipAddress, cidr };
+};
+
+// Parses a block ("10.0.4.0/22"), an inclusive range ("10.0.8.10 - 10.0.8.40") or a single
+// address into inclusive start/end integers.
+export const parseIpv4Range = (value: string): { start: bigint; end: bigint } => {
+    const parts = value.split('-').map(part => part.trim());
+    if (parts.length === 2) {
+        const start = parseIp(parts[0]);
+        const end = parseIp(parts[1]);
+        if (start > end) {
+            throw new Error(`Invalid range: ${value.trim()}. The first address must not be greater than the last.`);
+        }
+        return { start, end };
+    }
+    if (parts.length > 2) {
+        throw new Error(`Invalid range: ${value.trim()}. Use a CIDR block or 'first - last'.`);
+    }
+    const { ipAddress, cidr } = parseCidrNotation(parts[0]);
+    const ipInt = parseIp(ipAddress);
+    if (cidr === undefined) return { start: ipInt, end: ipInt };
+    if (networkAddress(ipInt, cidr) !== ipInt) {
+        throw new Error(`${parts[0]} is not a network address. Did you mean ${bigIntToIp(networkAddress(ipInt, cidr))}/${cidr}?`);
+    }
+    return { start: ipInt, end: ipInt + blockSize(cidr) - 1n };
+};
+
+// Inverse of parseIpv4Range: CIDR notation when the range is exactly one aligned block.
+export const formatIpv4Range = (start: bigint, end: bigint): string => {
+    const size = end - start + 1n;
+    const isBlock = (size & (size - 1n)) === 0n && start % size === 0n;
+    if (isBlock) return `${bigIntToIp(start)}/${IPV4_BITS - (size.toString(2).length - 1)}`;
+    return `${bigIntToIp(start)} - ${bigIntToIp(end)}`;
+};
+
+// Splits an inclusive range into the fewest aligned CIDR blocks that cover it exactly, in address order.
+export const rangeToCidrs = (start: bigint, end: bigint): { network: bigint; cidr: number }[] => {
+    const blocks: { network: bigint; cidr: number }[] = [];
+    let current = start;
+    while (current <= end) {
+        let cidr = IPV4_BITS;
+        // Widen the block while it stays aligned at `current` and inside the range.
+        while (cidr > 0 && current % blockSize(cidr - 1) === 0n && current + blockSize(cidr - 1) - 1n <= end) cidr--;
+        blocks.push({ network: current, cidr });
+        current += blockSize(cidr);
+    }
+    return blocks;
+};
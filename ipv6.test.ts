@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { bigIntToIpv6, ipv6ToBigInt, parseIpv6Cidr, validateIpv6Format } from './ipv6';
+
+describe('IPv6 parsing', () => {
+  it.each([
+    ['::', 0n],
+    ['::1', 1n],
+    ['2001:db8::', 0x20010db8n << 96n],
+    ['2001:DB8:0:0:0:0:0:1', (0x20010db8n << 96n) + 1n],
+    ['::ffff:192.0.2.1', (0xffffn << 32n) + 0xc0000201n],
+  ])('parses %s', (ip, value) => {
+    expect(validateIpv6Format(ip)).toBeNull();
+    expect(ipv6ToBigInt(ip)).toBe(value);
+  });
+
+  it.each(['1:2:3:4:5:6:7', '1::2::3', '12345::', 'g::1', '1:2:3:4:5:6:7:8:9', '1.2.3.4::', 'fe80::1%eth0', ':1::'])('rejects %s', (ip) => {
+    expect(validateIpv6Format(ip)).not.toBeNull();
+  });
+
+  it('requires a prefix in CIDR notation', () => {
+    expect(parseIpv6Cidr('2001:db8::/48')).toEqual({ ipAddress: '2001:db8::', cidr: 48 });
+    expect(() => parseIpv6Cidr('2001:db8::')).toThrow(/CIDR notation/);
+    expect(() => parseIpv6Cidr('2001:db8::/129')).toThrow(/between 0 and 128/);
+  });
+});
+
+describe('RFC 5952 formatting', () => {
+  it.each([
+    ['2001:0db8:0000:0000:0000:0000:0000:0001', '2001:db8::1'],
+    ['2001:db8:0:1:0:0:0:1', '2001:db8:0:1::1'],
+    ['2001:db8:0:0:1:0:0:1', '2001:db8::1:0:0:1'],
+    ['2001:db8:0:1:1:1:1:1', '2001:db8:0:1:1:1:1:1'],
+    ['0:0:0:0:0:0:0:0', '::'],
+    ['1:0:0:0:0:0:0:0', '1::'],
+  ])('formats %s as %s', (input, expected) => {
+    expect(bigIntToIpv6(ipv6ToBigInt(input))).toBe(expected);
+  });
+
+  it('round-trips every 128-bit value', () => {
+    fc.assert(fc.property(fc.bigInt({ min: 0n, max: (1n << 128n) - 1n }), (value) => {
+      const text = bigIntToIpv6(value);
+      expect(text).toBe(text.toLowerCase());
+      expect(ipv6ToBigInt(text)).toBe(value);
+    }));
+  });
+});
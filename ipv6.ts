@@ -0,0 +1,123 @@
+// Typed IPv6 core. Addresses are handled as unsigned 128-bit BigInts, mirroring ipv4.ts.
+import { ipToBigInt, validateIpFormat } from './ipv4';
+
+export const IPV6_BITS = 128;
+const ALL_ONES = (1n << 128n) - 1n;
+
+const parseGroups = (part: string, allowEmbeddedIpv4: boolean): number[] | null => {
+    if (part === '') return [];
+    const groups = part.split(':');
+    const values: number[] = [];
+    for (let i = 0; i < groups.length; i++) {
+        const group = groups[i];
+        if (allowEmbeddedIpv4 && i === groups.length - 1 && group.includes('.')) {
+            if (validateIpFormat(group)) return null;
+            const value = Number(ipToBigInt(group));
+            values.push(value >>> 16, value & 0xffff);
+        } else if (/^[0-9a-fA-F]{1,4}$/.test(group)) {
+            values.push(parseInt(group, 16));
+        } else {
+            return null;
+        }
+    }
+    return values;
+};
+
+// Expands any valid textual form (including "::" and a trailing dotted quad) to eight 16-bit groups.
+const expandIpv6 = (ip: string): number[] | null => {
+    const halves = ip.split('::');
+    if (halves.length > 2) return null;
+    if (halves.length === 1) {
+        const groups = parseGroups(ip, true);
+        return groups && groups.length === 8 ? groups : null;
+    }
+    const head = parseGroups(halves[0], false);
+    const tail = parseGroups(halves[1], true);
+    if (!head || !tail || head.length + tail.length > 7) return null;
+    return [...head, ...new Array(8 - head.length - tail.length).fill(0), ...tail];
+};
+
+export const validateIpv6Format = (ip: string): string | null => {
+    if (ip.includes('%')) {
+        return "Zone identifiers (e.g. %eth0) are not supported.";
+    }
+    if (!expandIpv6(ip)) {
+        return "Invalid IPv6 format. Use eight groups of up to four hex digits, optionally compressed with '::'.";
+    }
+    return null;
+};
+
+export const ipv6ToBigInt = (ip: string): bigint => {
+    const groups = expandIpv6(ip);
+    if (!groups) throw new Error(`Invalid IPv6 address: ${ip}.`);
+    return groups.reduce((acc, group) => (acc << 16n) + BigInt(group), 0n);
+};
+
+// Formats an address in the RFC 5952 canonical form: lowercase, no leading zeros,
+// and the longest run of two or more zero groups (leftmost on ties) replaced by "::".
+export const bigIntToIpv6 = (ipInt: bigint): string => {
+    const groups = Array.from({ length: 8 }, (_, i) => Number((ipInt >> BigInt(16 * (7 - i))) & 0xffffn));
+
+    let bestStart = -1;
+    let bestLength = 0;
+    for (let i = 0; i < 8;) {
+        if (groups[i] !== 0) {
+            i++;
+            continue;
+        }
+        let j = i;
+        while (j < 8 && groups[j] === 0) j++;
+        if (j - i > bestLength) {
+            bestStart = i;
+            bestLength = j - i;
+        }
+        i = j;
+    }
+
+    const hex = groups.map(g => g.toString(16));
+    if (bestLength < 2) return hex.join(':');
+    const head = hex.slice(0, bestStart).join(':');
+    const tail = hex.slice(bestStart + bestLength).join(':');
+    return `${head}::${tail}`;
+};
+
+export const prefixToMask6 = (cidr: number): bigint => (ALL_ONES << BigInt(IPV6_BITS - cidr)) & ALL_ONES;
+
+export const blockSize6 = (cidr: number): bigint => 1n << BigInt(IPV6_BITS - cidr);
+
+export const networkAddress6 = (ipInt: bigint, cidr: number): bigint => ipInt & prefixToMask6(cidr);
+
+// IPv6 counterpart of rangeToCidrs: the fewest aligned prefixes covering an inclusive range.
+export const rangeToCidrs6 = (start: bigint, end: bigint): { network: bigint; cidr: number }[] => {
+    const blocks: { network: bigint; cidr: number }[] = [];
+    let current = start;
+    while (current <= end) {
+        let cidr = IPV6_BITS;
+        while (cidr > 0 && current % blockSize6(cidr - 1) === 0n && current + blockSize6(cidr - 1) - 1n <= end) cidr--;
+        blocks.push({ network: current, cidr });
+        current += blockSize6(cidr);
+    }
+    return blocks;
+};
+
+export const parsePrefixLength6 = (value: string): number => {
+    const clean = value.trim().replace(/^\//, '');
+    if (!/^\d+$/.test(clean)) {
+        throw new Error(`Invalid prefix length: ${value}. Must be a number between 0 and 128.`);
+    }
+    const cidr = parseInt(clean, 10);
+    if (cidr > IPV6_BITS) {
+        throw new Error(`Invalid prefix length: /${cidr}. Must be between 0 and 128.`);
+    }
+    return cidr;
+};
+
+export const parseIpv6Cidr = (value: string): { ipAddress: string; cidr: number } => {
+    const [ipAddress, prefix, ...rest] = value.trim().split('/');
+    if (rest.length > 0 || prefix === undefined) {
+        throw new Error("Enter the network in CIDR notation, e.g. 2001:db8::/48.");
+    }
+    const formatError = validateIpv6Format(ipAddress);
+    if (formatError) throw new Error(formatError);
+    return { ipAddress, cidr: parsePrefixLength6(prefix) };
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateIpv6Subnetting, calculateIpv6Vlsm } from './ipv6Calculations';
+import { blockSize6, ipv6ToBigInt } from './ipv6';
+import { CalculationMode } from './types';
+
+describe('calculateIpv6Subnetting', () => {
+  it('splits a /48 into /64s by prefix length', () => {
+    const result = calculateIpv6Subnetting({
+      calculationMode: CalculationMode.MASK,
+      ipAddress: '2001:db8:abcd::',
+      parentCidr: 48,
+      mask: '/64',
+    });
+    expect(result.totalSubnets).toBe(65536);
+    expect(result.addressesPerSubnet).toBe((1n << 64n).toString());
+    expect(result.subnets[1]).toEqual({
+      id: 2,
+      networkAddress: '2001:db8:abcd:1::',
+      usableHostRange: '2001:db8:abcd:1:: - 2001:db8:abcd:1:ffff:ffff:ffff:ffff',
+      broadcastAddress: '2001:db8:abcd:1:ffff:ffff:ffff:ffff',
+    });
+  });
+
+  it('reports progress while generating subnets', () => {
+    const done: number[] = [];
+    calculateIpv6Subnetting({ calculationMode: CalculationMode.MASK, ipAddress: '2001:db8::', parentCidr: 48, mask: '/60' }, p => done.push(p.done));
+    expect(done).toEqual([1024, 2048, 3072, 4096]);
+  });
+
+  it('rounds subnet counts up to a nibble boundary when requested', () => {
+    const payload = { calculationMode: CalculationMode.SUBNETS as const, ipAddress: '2001:db8::', parentCidr: 48, requiredSubnets: 20 };
+    expect(calculateIpv6Subnetting(payload).cidr).toBe(53);
+    const nibble = calculateIpv6Subnetting({ ...payload, nibbleAligned: true });
+    expect(nibble.cidr).toBe(56);
+    expect(nibble.subnets[255].networkAddress).toBe('2001:db8:0:ff00::');
+  });
+
+  it('rejects prefixes shorter than the parent and oversize splits', () => {
+    expect(() => calculateIpv6Subnetting({
+      calculationMode: CalculationMode.MASK, ipAddress: '2001:db8::', parentCidr: 48, mask: '/40',
+    })).toThrow('Provided prefix /40 is shorter than the parent prefix /48.');
+    expect(() => calculateIpv6Subnetting({
+      calculationMode: CalculationMode.MASK, ipAddress: '2001:db8::', parentCidr: 32, mask: '/64',
+    })).toThrow(/over 100,000 subnets/);
+  });
+});
+
+describe('calculateIpv6Vlsm', () => {
+  it('allocates /56 and /64 blocks largest first', () => {
+    const result = calculateIpv6Vlsm({
+      ipAddress: '2001:db8::',
+      cidr: 48,
+      subnets: [
+        { id: 'v', name: 'VLANs', prefixLength: 64, count: 2 },
+        { id: 's', name: 'Sites', prefixLength: 56, count: 2 },
+      ],
+    });
+    expect(result.allocatedSubnets.map(s => `${s.networkAddress}/${s.cidr}`)).toEqual([
+      '2001:db8::/56', '2001:db8:0:100::/56', '2001:db8:0:200::/64', '2001:db8:0:201::/64',
+    ]);
+    expect(result.unallocatedRanges.slice(0, 3).map(r => `${r.networkAddress}/${r.cidr}`)).toEqual([
+      '2001:db8:0:202::/63', '2001:db8:0:204::/62', '2001:db8:0:208::/61',
+    ]);
+  });
+
+  it('reports progress while placing allocations', () => {
+    const progress: { label: string; done: number; total: number }[] = [];
+    calculateIpv6Vlsm({
+      ipAddress: '2001:db8::', cidr: 48, subnets: [{ id: 'a', name: 'A', prefixLength: 64, count: 3 }],
+    }, p => progress.push(p));
+    expect(progress.map(p => p.done)).toEqual([1, 2, 3]);
+    expect(progress[0]).toMatchObject({ label: 'allocations placed', total: 3 });
+  });
+
+  it('rejects a non-network base address and exhausted space', () => {
+    expect(() => calculateIpv6Vlsm({
+      ipAddress: '2001:db8::1', cidr: 48, subnets: [{ id: 'a', name: 'A', prefixLength: 64, count: 1 }],
+    })).toThrow(/Please use 2001:db8::\./);
+    expect(() => calculateIpv6Vlsm({
+      ipAddress: '2001:db8::', cidr: 62, subnets: [{ id: 'a', name: 'A', prefixLength: 64, count: 5 }],
+    })).toThrow(/^Not enough address space/);
+  });
+
+  it('never overlaps and stays aligned inside the base block', () => {
+    const groups = fc.array(fc.record({ prefixLength: fc.integer({ min: 56, max: 64 }), count: fc.integer({ min: 1, max: 8 }) }), { minLength: 1, maxLength: 5 });
+    fc.assert(fc.property(groups, (raw) => {
+      const subnets = raw.map((g, i) => ({ id: `g${i}`, name: `G${i}`, ...g }));
+      const result = calculateIpv6Vlsm({ ipAddress: 'fd00::', cidr: 48, subnets });
+      const base = ipv6ToBigInt('fd00::');
+      let previousEnd = base;
+      result.allocatedSubnets.forEach(s => {
+        const start = ipv6ToBigInt(s.networkAddress);
+        const size = blockSize6(s.cidr);
+        expect(start % size).toBe(0n);
+        expect(start >= previousEnd).toBe(true);
+        previousEnd = start + size;
+      });
+      expect(previousEnd <= base + blockSize6(48)).toBe(true);
+    }));
+  });
+});
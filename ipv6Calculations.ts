@@ -0,0 +1,176 @@
+import {
+  CalculationMode,
+  Ipv6CalculationPayload,
+  Ipv6CalculationResult,
+  Ipv6VlsmCalculationPayload,
+  Ipv6VlsmCalculationResult,
+  Ipv6VlsmSubnetResult,
+  ProgressCallback,
+  Subnet,
+  UnallocatedRange,
+} from './types';
+import {
+  IPV6_BITS,
+  bigIntToIpv6,
+  blockSize6,
+  ipv6ToBigInt,
+  networkAddress6,
+  parsePrefixLength6,
+  rangeToCidrs6,
+  validateIpv6Format,
+} from './ipv6';
+
+// IPv6 results list every subnet, so a split is capped at 2^16 of them.
+const MAX_SUBNET_BITS = 16;
+
+// Subnets generated between progress reports.
+const PROGRESS_INTERVAL = 1024;
+
+const parseAddress = (ipAddress: string): bigint => {
+  const formatError = validateIpv6Format(ipAddress);
+  if (formatError) throw new Error(`${formatError} Received: ${ipAddress}`);
+  return ipv6ToBigInt(ipAddress);
+};
+
+const assertPrefixLength = (cidr: number, label: string) => {
+  if (!Number.isInteger(cidr) || cidr < 0 || cidr > IPV6_BITS) {
+    throw new Error(`${label} must be between /0 and /128.`);
+  }
+};
+
+export const calculateIpv6Subnetting = (payload: Ipv6CalculationPayload, onProgress?: ProgressCallback): Ipv6CalculationResult => {
+  const { ipAddress, parentCidr, calculationMode } = payload;
+  const ipInt = parseAddress(ipAddress);
+  assertPrefixLength(parentCidr, 'The parent prefix length');
+
+  let newCidr = 0;
+  if (calculationMode === CalculationMode.SUBNETS) {
+    const requiredSubnets = payload.requiredSubnets || 1;
+    if (requiredSubnets <= 0) throw new Error("Number of subnets must be a positive number.");
+    let subnetBits = Math.ceil(Math.log2(requiredSubnets));
+    if (payload.nibbleAligned) {
+      subnetBits = Math.ceil(subnetBits / 4) * 4;
+    }
+    newCidr = parentCidr + subnetBits;
+    if (newCidr > IPV6_BITS) {
+      throw new Error(`A /${parentCidr} network does not have enough bits to support ${requiredSubnets.toLocaleString()} subnets.`);
+    }
+  } else { // MASK
+    if (typeof payload.mask !== 'string') throw new Error("Prefix length must be a string.");
+    newCidr = parsePrefixLength6(payload.mask);
+    if (newCidr < parentCidr) {
+      throw new Error(`Provided prefix /${newCidr} is shorter than the parent prefix /${parentCidr}.`);
+    }
+  }
+
+  const subnetBits = newCidr - parentCidr;
+  if (subnetBits > MAX_SUBNET_BITS) {
+    throw new Error(`This calculation would generate over 100,000 subnets (2^${subnetBits}), which is too large for this tool.`);
+  }
+
+  const baseNetworkInt = networkAddress6(ipInt, parentCidr);
+  const increment = blockSize6(newCidr);
+  const totalSubnets = Math.pow(2, subnetBits);
+  const subnets: Subnet[] = [];
+
+  for (let i = 0; i < totalSubnets; i++) {
+    const networkInt = baseNetworkInt + BigInt(i) * increment;
+    const lastInt = networkInt + increment - 1n;
+    subnets.push({
+      id: i + 1,
+      networkAddress: bigIntToIpv6(networkInt),
+      usableHostRange: `${bigIntToIpv6(networkInt)} - ${bigIntToIpv6(lastInt)}`,
+      broadcastAddress: bigIntToIpv6(lastInt),
+    });
+    if (onProgress && ((i + 1) % PROGRESS_INTERVAL === 0 || i + 1 === totalSubnets)) {
+      onProgress({ label: 'subnets generated', done: i + 1, total: totalSubnets });
+    }
+  }
+
+  return {
+    parentNetwork: `${bigIntToIpv6(baseNetworkInt)}/${parentCidr}`,
+    cidr: newCidr,
+    totalSubnets,
+    addressesPerSubnet: increment.toString(),
+    subnets,
+  };
+};
+
+export const calculateIpv6Vlsm = (payload: Ipv6VlsmCalculationPayload, onProgress?: ProgressCallback): Ipv6VlsmCalculationResult => {
+  const { ipAddress: baseIp, cidr: baseCidr, subnets: requestedSubnets } = payload;
+  if (requestedSubnets.length === 0) {
+    throw new Error("Please add at least one subnet group to calculate.");
+  }
+  assertPrefixLength(baseCidr, 'The base prefix length');
+
+  const baseIpInt = parseAddress(baseIp);
+  const baseNetworkInt = networkAddress6(baseIpInt, baseCidr);
+  if (baseNetworkInt !== baseIpInt) {
+    throw new Error(`The provided address (${baseIp}) is not the network address for the /${baseCidr} block. Please use ${bigIntToIpv6(baseNetworkInt)}.`);
+  }
+
+  const subnetsToAllocate: { id: string; name: string; cidr: number }[] = [];
+  requestedSubnets.forEach(group => {
+    const count = Number(group.count);
+    if (isNaN(count) || count <= 0) {
+      throw new Error(`Invalid number of subnets for group '${group.name}'. Must be a positive number.`);
+    }
+    if (!Number.isInteger(group.prefixLength) || group.prefixLength < baseCidr || group.prefixLength > IPV6_BITS) {
+      throw new Error(`Invalid prefix length /${group.prefixLength} for group '${group.name}'. Must be between /${baseCidr} and /128.`);
+    }
+    for (let i = 0; i < count; i++) {
+      subnetsToAllocate.push({
+        id: `${group.id}-${i}`,
+        name: count > 1 ? `${group.name} ${i + 1}` : group.name,
+        cidr: group.prefixLength,
+      });
+    }
+  });
+  // Largest blocks first keeps every allocation aligned without padding.
+  subnetsToAllocate.sort((a, b) => a.cidr - b.cidr);
+
+  const totalAddressesInBlock = blockSize6(baseCidr);
+  const endOfBlockInt = baseNetworkInt + totalAddressesInBlock;
+  let currentAddressInt = baseNetworkInt;
+  const allocatedSubnets: Ipv6VlsmSubnetResult[] = [];
+
+  for (const subnet of subnetsToAllocate) {
+    const size = blockSize6(subnet.cidr);
+    if (currentAddressInt + size > endOfBlockInt) {
+      throw new Error(`Not enough address space in the network ${bigIntToIpv6(baseNetworkInt)}/${baseCidr} to fit all requested subnets.`);
+    }
+    allocatedSubnets.push({
+      id: subnet.id,
+      name: subnet.name,
+      networkAddress: bigIntToIpv6(currentAddressInt),
+      cidr: subnet.cidr,
+      firstAddress: bigIntToIpv6(currentAddressInt),
+      lastAddress: bigIntToIpv6(currentAddressInt + size - 1n),
+      addresses: size.toString(),
+    });
+    currentAddressInt += size;
+    onProgress?.({ label: 'allocations placed', done: allocatedSubnets.length, total: subnetsToAllocate.length });
+  }
+
+  const totalAllocatedAddresses = currentAddressInt - baseNetworkInt;
+  const unallocatedRanges: UnallocatedRange[] = [];
+  if (currentAddressInt < endOfBlockInt) {
+    for (const block of rangeToCidrs6(currentAddressInt, endOfBlockInt - 1n)) {
+      unallocatedRanges.push({
+        networkAddress: bigIntToIpv6(block.network),
+        cidr: block.cidr,
+        size: blockSize6(block.cidr).toString(),
+        usableHostRange: `${bigIntToIpv6(block.network)} - ${bigIntToIpv6(block.network + blockSize6(block.cidr) - 1n)}`,
+      });
+    }
+  }
+
+  return {
+    baseNetwork: `${bigIntToIpv6(baseNetworkInt)}/${baseCidr}`,
+    totalAddressesInBlock: totalAddressesInBlock.toString(),
+    totalAllocatedAddresses: totalAllocatedAddresses.toString(),
+    allocatedSubnets,
+    unallocatedRanges,
+    utilization: Number((totalAllocatedAddresses * 10000n) / totalAddressesInBlock) / 100,
+  };
+};
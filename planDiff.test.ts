@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { buildChangeReport, countPlanChanges, diffVlsmPlans, planChangeFields } from './planDiff';
+import { renderMarkdown } from './planReport';
+import { calculateVlsm } from './calculations';
+import { lockedBlocks } from './vlsmTree';
+
+const before = calculateVlsm({
+  ipAddress: '10.0.0.0',
+  cidr: 23,
+  subnets: [
+    { id: 'lan', name: 'LANs', hosts: 50, count: 2 },
+    { id: 'link', name: 'Links', hosts: 2, count: 2 },
+    { id: 'mgmt', name: 'Management', hosts: 10, count: 1 },
+  ],
+});
+
+const after = calculateVlsm({
+  ipAddress: '10.0.0.0',
+  cidr: 23,
+  subnets: [
+    { id: 'x', name: 'LANs', hosts: 50, count: 2 },
+    { id: 'y', name: 'Links', hosts: 5, count: 2 },
+    { id: 'z', name: 'Servers', hosts: 100, count: 1 },
+  ],
+  locked: lockedBlocks(before),
+});
+
+describe('diffVlsmPlans', () => {
+  it('matches subnets by path and classifies every change', () => {
+    const changes = diffVlsmPlans(before, after);
+    expect(changes.map(c => [c.kind, c.path, c.before?.networkAddress, c.after?.networkAddress])).toEqual([
+      ['unchanged', 'LANs 1', '10.0.0.0', '10.0.0.0'],
+      ['unchanged', 'LANs 2', '10.0.0.64', '10.0.0.64'],
+      ['re-addressed', 'Links 2', '10.0.0.148', '10.0.0.128'],
+      ['resized', 'Links 1', '10.0.0.144', '10.0.0.144'],
+      ['added', 'Servers', undefined, '10.0.1.0'],
+      ['removed', 'Management', '10.0.0.128', undefined],
+    ]);
+    expect(countPlanChanges(changes)).toEqual({ 'added': 1, 'removed': 1, 'resized': 1, 're-addressed': 1, 'unchanged': 2 });
+  });
+
+  it('reports no changes between identical plans', () => {
+    expect(diffVlsmPlans(before, before).every(c => c.kind === 'unchanged')).toBe(true);
+  });
+
+  it('marks the fields that changed', () => {
+    const changes = diffVlsmPlans(before, after);
+    expect(planChangeFields(changes[2])).toEqual({
+      network: { text: '10.0.0.148 → 10.0.0.128', changed: true },
+      prefix: { text: '/30 → /29', changed: true },
+      hosts: { text: '2 → 6', changed: true },
+    });
+    expect(planChangeFields(changes[4])).toEqual({
+      network: { text: '10.0.1.0', changed: false },
+      prefix: { text: '/25', changed: false },
+      hosts: { text: '126', changed: false },
+    });
+  });
+});
+
+describe('buildChangeReport', () => {
+  it('summarizes the changed subnets for a change request', () => {
+    const report = buildChangeReport(diffVlsmPlans(before, after), after, { before: "Saved plan 'Q1'", after: 'Current plan' });
+    expect(report.fileStem).toBe('Plan_Changes_10_0_0_0_23');
+    expect(report.utilization).toEqual({ label: 'Subnets unchanged', percent: (2 / 6) * 100 });
+    expect(renderMarkdown(report)).toBe(`# Plan Changes for 10.0.0.0/23
+
+| Property | Value |
+| --- | --- |
+| Before | Saved plan 'Q1' |
+| After | Current plan |
+| Added | 1 |
+| Removed | 1 |
+| Resized | 1 |
+| Re-addressed | 1 |
+| Unchanged | 2 |
+| Subnets unchanged | 33.33% |
+
+## Changed Subnets
+
+| Change | Subnet | Network Address | CIDR | Allocated Hosts |
+| --- | --- | --- | --- | --- |
+| Re-addressed | Links 2 | 10.0.0.148 → 10.0.0.128 | /30 → /29 | 2 → 6 |
+| Resized | Links 1 | 10.0.0.144 | /30 → /29 | 2 → 6 |
+| Added | Servers | 10.0.1.0 | /25 | 126 |
+| Removed | Management | 10.0.0.128 | /28 | 14 |
+`);
+  });
+});
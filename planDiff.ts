@@ -0,0 +1,99 @@
+// Subnet-by-subnet comparison of two IPv4 VLSM plans. Subnets are matched by their name path,
+// since ids are regenerated whenever a form is seeded again.
+import { VlsmCalculationResult, VlsmSubnetResult } from './types';
+import { PlanReport } from './planReport';
+import { subnetPaths } from './vlsmTree';
+
+export type PlanChangeKind = 'added' | 'removed' | 'resized' | 're-addressed' | 'unchanged';
+
+export interface PlanChange {
+  kind: PlanChangeKind;
+  path: string;
+  // Absent for added subnets.
+  before?: VlsmSubnetResult;
+  // Absent for removed subnets.
+  after?: VlsmSubnetResult;
+}
+
+export const PLAN_CHANGE_LABELS: Record<PlanChangeKind, string> = {
+  'added': 'Added',
+  'removed': 'Removed',
+  'resized': 'Resized',
+  're-addressed': 'Re-addressed',
+  'unchanged': 'Unchanged',
+};
+
+// Subnets of `after` in plan order, followed by those only `before` has. A subnet that keeps its
+// network address with another prefix is resized; one at a different address is re-addressed.
+export const diffVlsmPlans = (before: VlsmCalculationResult, after: VlsmCalculationResult): PlanChange[] => {
+  const beforeById = new Map(before.allocatedSubnets.map(s => [s.id, s]));
+  const previous = new Map<string, VlsmSubnetResult>();
+  subnetPaths(before).forEach((path, id) => previous.set(path, beforeById.get(id)!));
+
+  const afterById = new Map(after.allocatedSubnets.map(s => [s.id, s]));
+  const changes: PlanChange[] = [];
+  subnetPaths(after).forEach((path, id) => {
+    const subnet = afterById.get(id)!;
+    const old = previous.get(path);
+    previous.delete(path);
+    if (!old) {
+      changes.push({ kind: 'added', path, after: subnet });
+      return;
+    }
+    const kind = old.networkAddress !== subnet.networkAddress ? 're-addressed' : old.cidr !== subnet.cidr ? 'resized' : 'unchanged';
+    changes.push({ kind, path, before: old, after: subnet });
+  });
+  previous.forEach((subnet, path) => changes.push({ kind: 'removed', path, before: subnet }));
+  return changes;
+};
+
+export const countPlanChanges = (changes: PlanChange[]): Record<PlanChangeKind, number> => {
+  const counts: Record<PlanChangeKind, number> = { 'added': 0, 'removed': 0, 'resized': 0, 're-addressed': 0, 'unchanged': 0 };
+  changes.forEach(change => counts[change.kind]++);
+  return counts;
+};
+
+// One compared property of a subnet: the value on each side and whether it changed. Added and
+// removed subnets only have one side.
+export interface PlanChangeField {
+  text: string;
+  changed: boolean;
+}
+
+const field = (before: string | undefined, after: string | undefined): PlanChangeField => (
+  before !== undefined && after !== undefined && before !== after
+    ? { text: `${before} → ${after}`, changed: true }
+    : { text: (after ?? before)!, changed: false }
+);
+
+export const planChangeFields = ({ before, after }: PlanChange): Record<'network' | 'prefix' | 'hosts', PlanChangeField> => ({
+  network: field(before?.networkAddress, after?.networkAddress),
+  prefix: field(before && `/${before.cidr}`, after && `/${after.cidr}`),
+  hosts: field(before && String(before.allocatedHosts), after && String(after.allocatedHosts)),
+});
+
+const KIND_ORDER: PlanChangeKind[] = ['added', 'removed', 'resized', 're-addressed', 'unchanged'];
+
+// Change summary for a change request, rendered with the report renderers of planReport.ts.
+// Only changed subnets are listed; unchanged ones are counted in the summary.
+export const buildChangeReport = (changes: PlanChange[], after: VlsmCalculationResult, labels: { before: string; after: string }): PlanReport => {
+  const counts = countPlanChanges(changes);
+  return {
+    title: `Plan Changes for ${after.baseNetwork}`,
+    fileStem: `Plan_Changes_${after.baseNetwork.replace(/[./]/g, '_')}`,
+    summary: [
+      ['Before', labels.before],
+      ['After', labels.after],
+      ...KIND_ORDER.map((kind): [string, string] => [PLAN_CHANGE_LABELS[kind], counts[kind].toLocaleString('en-US')]),
+    ],
+    tables: [{
+      title: 'Changed Subnets',
+      columns: ['Change', 'Subnet', 'Network Address', 'CIDR', 'Allocated Hosts'],
+      rows: changes.filter(c => c.kind !== 'unchanged').map(change => {
+        const { network, prefix, hosts } = planChangeFields(change);
+        return [PLAN_CHANGE_LABELS[change.kind], change.path, network.text, prefix.text, hosts.text];
+      }),
+    }],
+    utilization: { label: 'Subnets unchanged', percent: changes.length > 0 ? (counts.unchanged / changes.length) * 100 : 100 },
+  };
+};
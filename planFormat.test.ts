@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import { PLAN_SCHEMA_VERSION, createPlanDocument, parsePlanDocument } from './planFormat';
+import { calculateVlsm } from './calculations';
+import { createPlan } from './planLibrary';
+import { VlsmCalculationPayload } from './types';
+
+const payload: VlsmCalculationPayload = {
+  ipAddress: '10.0.0.0',
+  cidr: 22,
+  subnets: [
+    { id: 'group-0', name: 'LANs', hosts: 50, count: 2 },
+    { id: 'group-1', name: 'Links', hosts: 2, count: 3, growth: 50 },
+  ],
+  strategy: 'best-fit',
+};
+
+const nested: VlsmCalculationPayload = {
+  ipAddress: '10.0.0.0',
+  cidr: 20,
+  subnets: [
+    {
+      id: 'site', name: 'Site', hosts: 0, count: 2, growth: 100, children: [
+        { id: 'users', name: 'Users', hosts: 100, count: 2 },
+        { id: 'lab', name: 'Lab', hosts: 0, count: 1, children: [{ id: 'bench', name: 'Bench', hosts: 10, count: 2 }] },
+      ],
+    },
+    { id: 'wan', name: 'WAN', hosts: 2, count: 1 },
+  ],
+  strategy: 'largest-first',
+};
+
+const exported = () => JSON.parse(JSON.stringify(createPlanDocument(payload, calculateVlsm(payload), { name: 'Branch' })));
+
+describe('plan format', () => {
+  it('round-trips a calculated plan', () => {
+    const result = calculateVlsm(payload);
+    const imported = parsePlanDocument(JSON.stringify(createPlanDocument(payload, result, { name: 'Branch', description: 'Rollout' })));
+
+    expect(imported.payload).toEqual(payload);
+    expect(imported.result).toEqual(result);
+    expect(imported.metadata.name).toBe('Branch');
+    expect(imported.metadata.description).toBe('Rollout');
+  });
+
+  it('round-trips point-to-point links and loopbacks', () => {
+    const links: VlsmCalculationPayload = {
+      ...payload,
+      subnets: [...payload.subnets, { id: 'group-2', name: 'Loopbacks', hosts: 1, count: 4, kind: 'loopback' }, { id: 'group-3', name: 'Uplinks', hosts: 2, count: 2, kind: 'p2p' }],
+    };
+    const result = calculateVlsm(links);
+    const doc = JSON.parse(JSON.stringify(createPlanDocument(links, result, { name: 'Branch' })));
+    expect(doc.groups.map((g: { kind?: string }) => g.kind)).toEqual([undefined, undefined, 'loopback', 'p2p']);
+    expect(parsePlanDocument(JSON.stringify(doc))).toMatchObject({ payload: links, result });
+
+    const loopback = doc.allocations.findIndex((a: { kind?: string }) => a.kind === 'loopback');
+    delete doc.allocations[loopback].kind;
+    expect(() => parsePlanDocument(JSON.stringify(doc))).toThrow(`allocations[${loopback}].network is a /32, which has no usable hosts unless kind is 'p2p' or 'loopback'.`);
+    doc.allocations[loopback].kind = 'p2p';
+    expect(() => parsePlanDocument(JSON.stringify(doc))).toThrow(`allocations[${loopback}].network must be a /31 for a p2p allocation.`);
+  });
+
+  it('round-trips a /31 or /32 base network holding a point-to-point link or loopback', () => {
+    const bases: VlsmCalculationPayload[] = [
+      { ipAddress: '10.9.0.0', cidr: 31, subnets: [{ id: 'group-0', name: 'WAN', hosts: 2, count: 1, kind: 'p2p' }], strategy: 'largest-first' },
+      { ipAddress: '10.9.0.7', cidr: 32, subnets: [{ id: 'group-0', name: 'Router ID', hosts: 1, count: 1, kind: 'loopback' }], strategy: 'largest-first' },
+    ];
+    for (const base of bases) {
+      const result = calculateVlsm(base);
+      const text = JSON.stringify(createPlanDocument(base, result, { name: 'Link' }));
+      expect(parsePlanDocument(text)).toMatchObject({ payload: base, result });
+    }
+
+    const lan = { ...bases[0], subnets: [{ id: 'group-0', name: 'LAN', hosts: 2, count: 1 }] };
+    expect(() => parsePlanDocument(JSON.stringify(createPlanDocument(lan, null, { name: 'LAN' }))))
+      .toThrow('baseNetwork must have a prefix length between /1 and /30.');
+  });
+
+  it('keeps reservations and rejects allocations on top of them', () => {
+    const reserved: VlsmCalculationPayload = { ...payload, reservations: [{ name: 'Servers', range: '10.0.0.0 - 10.0.0.99' }] };
+    const result = calculateVlsm(reserved);
+    const doc = JSON.parse(JSON.stringify(createPlanDocument(reserved, result, { name: 'Branch' })));
+
+    const imported = parsePlanDocument(JSON.stringify(doc));
+    expect(imported.payload).toEqual(reserved);
+    expect(imported.result).toEqual(result);
+
+    doc.allocations[0].network = '10.0.0.64/26';
+    expect(() => parsePlanDocument(JSON.stringify(doc))).toThrow('allocations[0].network overlaps reservations[0].');
+  });
+
+  it('migrates version 1 CIDR reservations', () => {
+    const doc = { ...exported(), schemaVersion: 1, reservations: [{ name: 'Servers', cidr: '10.0.3.0/24' }] };
+    const imported = parsePlanDocument(JSON.stringify(doc));
+    expect(imported.payload.reservations).toEqual([{ name: 'Servers', range: '10.0.3.0/24' }]);
+    expect(imported.result?.reservedRanges?.[0].lastAddress).toBe('10.0.3.255');
+  });
+
+  it('migrates version 2 plans as largest-first', () => {
+    const doc = exported();
+    delete doc.strategy;
+    const imported = parsePlanDocument(JSON.stringify({ ...doc, schemaVersion: 2 }));
+    expect(imported.payload.strategy).toBe('largest-first');
+    expect(imported.result?.strategy).toBe('largest-first');
+
+    expect(() => parsePlanDocument(JSON.stringify({ ...exported(), strategy: 'random' }))).toThrow("strategy must be one of 'largest-first'");
+  });
+
+  it('round-trips a hierarchical plan', () => {
+    const result = calculateVlsm(nested);
+    const doc = JSON.parse(JSON.stringify(createPlanDocument(nested, result, { name: 'Campus' })));
+    expect(doc.groups[0].hosts).toBeUndefined();
+    expect(doc.containers.map((c: { id: string; parentId?: string }) => [c.id, c.parentId])).toEqual([
+      ['site-0', undefined], ['site-0/lab-0', 'site-0'], ['site-1', undefined], ['site-1/lab-0', 'site-1'],
+    ]);
+
+    const imported = parsePlanDocument(JSON.stringify(doc));
+    expect(imported.payload).toEqual(nested);
+    expect(imported.result).toEqual(result);
+
+    // Version 3 files have no containers; their flat plans import unchanged.
+    const flat = exported();
+    delete flat.containers;
+    expect(parsePlanDocument(JSON.stringify({ ...flat, schemaVersion: 3 })).result?.containers).toBeUndefined();
+  });
+
+  it('rejects inconsistent hierarchies', () => {
+    const hierarchical = () => JSON.parse(JSON.stringify(createPlanDocument(nested, calculateVlsm(nested), { name: 'Campus' })));
+
+    const escaped = hierarchical();
+    escaped.allocations[0].network = '10.0.4.0/25';
+    expect(() => parsePlanDocument(JSON.stringify(escaped))).toThrow(`allocations[0].network must lie inside its container ${escaped.containers[0].network}.`);
+
+    const orphan = hierarchical();
+    orphan.allocations[0].parentId = 'nowhere';
+    expect(() => parsePlanDocument(JSON.stringify(orphan))).toThrow("allocations[0].parentId 'nowhere' does not name a container listed before it.");
+
+    const crowded = hierarchical();
+    crowded.allocations[1].network = crowded.allocations[0].network;
+    expect(() => parsePlanDocument(JSON.stringify(crowded))).toThrow('allocations[1].network overlaps allocations[0].');
+
+    const both = hierarchical();
+    both.groups[0].hosts = 10;
+    expect(() => parsePlanDocument(JSON.stringify(both))).toThrow("groups[0] cannot have both 'hosts' and 'children'.");
+
+    const empty = hierarchical();
+    empty.groups[0].children[1].children = [];
+    expect(() => parsePlanDocument(JSON.stringify(empty))).toThrow('groups[0].children[1].children must contain at least one group.');
+  });
+
+  it('imports requirements without allocations', () => {
+    const doc = exported();
+    doc.allocations = [];
+    expect(parsePlanDocument(JSON.stringify(doc)).result).toBeNull();
+  });
+
+  it('reports the path of invalid fields', () => {
+    const doc = exported();
+    doc.groups[1].hosts = -4;
+    expect(() => parsePlanDocument(JSON.stringify(doc))).toThrow('groups[1].hosts must be a positive integer.');
+
+    const shrunk = exported();
+    shrunk.allocations[2].plannedHosts = 7;
+    expect(() => parsePlanDocument(JSON.stringify(shrunk))).toThrow('allocations[2].plannedHosts must lie between requiredHosts and the 6 usable hosts of a /29.');
+
+    const extra = { ...exported(), notes: 'x' };
+    expect(() => parsePlanDocument(JSON.stringify(extra))).toThrow("unknown field 'notes'");
+
+    const missing = exported();
+    delete missing.metadata.name;
+    expect(() => parsePlanDocument(JSON.stringify(missing))).toThrow("metadata is missing the required field 'name'.");
+  });
+
+  it('rejects inconsistent allocations', () => {
+    const outside = exported();
+    outside.allocations[0].network = '10.0.8.0/26';
+    expect(() => parsePlanDocument(JSON.stringify(outside))).toThrow('allocations[0].network must lie inside the base network');
+
+    const overlapping = exported();
+    overlapping.allocations[1].network = overlapping.allocations[0].network;
+    expect(() => parsePlanDocument(JSON.stringify(overlapping))).toThrow('allocations[1].network overlaps allocations[0].');
+
+    const misaligned = exported();
+    misaligned.allocations[0].network = '10.0.0.32/26';
+    expect(() => parsePlanDocument(JSON.stringify(misaligned))).toThrow('Did you mean 10.0.0.0/26?');
+
+    const wrongSize = exported();
+    wrongSize.allocations[0].allocatedHosts = 64;
+    expect(() => parsePlanDocument(JSON.stringify(wrongSize))).toThrow('allocations[0].allocatedHosts must be 62 for a /26.');
+  });
+
+  it('rejects files that are not plans', () => {
+    expect(() => parsePlanDocument('{oops')).toThrow('not valid JSON');
+    expect(() => parsePlanDocument('[]')).toThrow('expected a JSON object');
+    expect(() => parsePlanDocument(JSON.stringify({ ...exported(), format: 'other' }))).toThrow("Unknown file format 'other'");
+  });
+
+  it('rejects documents from a newer schema version', () => {
+    const doc = { ...exported(), schemaVersion: PLAN_SCHEMA_VERSION + 1 };
+    expect(() => parsePlanDocument(JSON.stringify(doc))).toThrow('newer than the supported version');
+  });
+
+  it('migrates unversioned saved plan entries', () => {
+    const result = calculateVlsm(payload);
+    const legacy = createPlan('Legacy', { calculator: 'vlsm', payload }, result);
+    const imported = parsePlanDocument(JSON.stringify(legacy));
+
+    expect(imported.metadata.name).toBe('Legacy');
+    expect(imported.metadata.createdAt).toBe(legacy.createdAt);
+    expect(imported.payload).toEqual(payload);
+    expect(imported.result).toEqual(result);
+  });
+});
@@ -0,0 +1,450 @@
+// Versioned JSON interchange format for IPv4 VLSM plans. The JSON Schema lives in
+// schemas/plan.v4.schema.json; bump PLAN_SCHEMA_VERSION and add a migration below for
+// every incompatible change so files exported by older releases keep importing.
+import { FIXED_KIND_HOSTS, VLSM_ALLOCATION_STRATEGIES, resolveReservations, summarizeVlsmAllocations } from './calculations';
+import { bigIntToIp, blockSize, ipToBigInt, networkAddress, parseCidrNotation, parseIpv4Range, prefixToMask, usableHostCount, usableHostRange, validateIpFormat } from './ipv4';
+import {
+  VlsmAllocationStrategy,
+  VlsmCalculationPayload,
+  VlsmCalculationResult,
+  VlsmContainerResult,
+  VlsmReservation,
+  VlsmSubnetRequest,
+  VlsmSubnetResult,
+} from './types';
+
+export const PLAN_FORMAT = 'subnet-plan';
+export const PLAN_SCHEMA_VERSION = 4;
+
+export interface PlanMetadata {
+  name: string;
+  description?: string;
+  createdAt: string;
+  exportedAt: string;
+  generator: string;
+}
+
+export interface PlanGroup {
+  id: string;
+  name: string;
+  // Leaf groups only; containers are sized by their children.
+  hosts?: number;
+  count: number;
+  growth?: number;
+  // Absent for LANs.
+  kind?: 'p2p' | 'loopback';
+  children?: PlanGroup[];
+}
+
+export interface PlanContainer {
+  id: string;
+  name: string;
+  parentId?: string;
+  network: string;
+}
+
+export interface PlanAllocation {
+  id: string;
+  name: string;
+  parentId?: string;
+  requiredHosts: number;
+  plannedHosts?: number;
+  allocatedHosts: number;
+  kind?: 'p2p' | 'loopback';
+  network: string;
+}
+
+export interface PlanDocument {
+  format: typeof PLAN_FORMAT;
+  schemaVersion: typeof PLAN_SCHEMA_VERSION;
+  metadata: PlanMetadata;
+  baseNetwork: string;
+  strategy: VlsmAllocationStrategy;
+  groups: PlanGroup[];
+  reservations: VlsmReservation[];
+  // Container blocks of hierarchical plans, each listed before anything inside it.
+  containers: PlanContainer[];
+  allocations: PlanAllocation[];
+}
+
+export interface ImportedPlan {
+  metadata: PlanMetadata;
+  payload: VlsmCalculationPayload;
+  // Rebuilt from the stored allocations; null when the file only carries requirements.
+  result: VlsmCalculationResult | null;
+}
+
+const GENERATOR = 'IPv4 Subnet Calculator';
+
+const toPlanGroup = ({ id, name, hosts, count, growth, kind, children }: VlsmSubnetRequest): PlanGroup => (children && children.length > 0
+  ? { id, name, count, ...(growth ? { growth } : {}), children: children.map(toPlanGroup) }
+  : { id, name, hosts, count, ...(growth ? { growth } : {}), ...(kind && kind !== 'lan' ? { kind } : {}) });
+
+const toPlanContainer = (c: VlsmContainerResult): PlanContainer => ({
+  id: c.id,
+  name: c.name,
+  ...(c.parentId !== undefined ? { parentId: c.parentId } : {}),
+  network: `${c.networkAddress}/${c.cidr}`,
+});
+
+const toPlanAllocation = (s: VlsmSubnetResult): PlanAllocation => ({
+  id: s.id,
+  name: s.name,
+  ...(s.parentId !== undefined ? { parentId: s.parentId } : {}),
+  requiredHosts: s.requiredHosts,
+  ...(s.plannedHosts !== undefined ? { plannedHosts: s.plannedHosts } : {}),
+  allocatedHosts: s.allocatedHosts,
+  ...(s.kind !== undefined ? { kind: s.kind } : {}),
+  network: `${s.networkAddress}/${s.cidr}`,
+});
+
+export const createPlanDocument = (
+  payload: VlsmCalculationPayload,
+  result: VlsmCalculationResult | null,
+  metadata: { name: string; description?: string; createdAt?: string },
+): PlanDocument => {
+  const now = new Date().toISOString();
+  return {
+    format: PLAN_FORMAT,
+    schemaVersion: PLAN_SCHEMA_VERSION,
+    metadata: {
+      name: metadata.name,
+      ...(metadata.description ? { description: metadata.description } : {}),
+      createdAt: metadata.createdAt ?? now,
+      exportedAt: now,
+      generator: GENERATOR,
+    },
+    baseNetwork: `${payload.ipAddress}/${payload.cidr}`,
+    strategy: payload.strategy ?? 'largest-first',
+    groups: payload.subnets.map(toPlanGroup),
+    reservations: (payload.reservations ?? []).map(({ name, range }) => ({ name, range })),
+    containers: (result?.containers ?? []).map(toPlanContainer),
+    allocations: (result?.allocatedSubnets ?? []).map(toPlanAllocation),
+  };
+};
+
+// --- Migrations -------------------------------------------------------------------------
+// Each entry upgrades a document from the keyed version to the next one.
+// Version 0 is the unversioned plan entry written by the saved plan library.
+
+type RawDocument = Record<string, unknown>;
+
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  0: (doc) => {
+    const request = doc.request as RawDocument | undefined;
+    if (!request || request.calculator !== 'vlsm') {
+      throw new Error("Only IPv4 VLSM plans can be imported as a plan file.");
+    }
+    const payload = request.payload as RawDocument;
+    const result = doc.result as RawDocument | null | undefined;
+    const allocated = Array.isArray(result?.allocatedSubnets) ? result.allocatedSubnets as unknown as VlsmSubnetResult[] : [];
+    const containers = Array.isArray(result?.containers) ? result.containers as unknown as VlsmContainerResult[] : [];
+    // Library entries saved since strategies, growth and hierarchies exist carry them along;
+    // the later migrations keep them.
+    return {
+      format: PLAN_FORMAT,
+      schemaVersion: 1,
+      metadata: {
+        name: doc.name,
+        createdAt: doc.createdAt ?? new Date().toISOString(),
+        exportedAt: doc.updatedAt ?? new Date().toISOString(),
+        generator: GENERATOR,
+      },
+      baseNetwork: `${payload.ipAddress}/${payload.cidr}`,
+      ...(payload.strategy !== undefined ? { strategy: payload.strategy } : {}),
+      groups: Array.isArray(payload.subnets) ? (payload.subnets as VlsmSubnetRequest[]).map(toPlanGroup) : payload.subnets,
+      reservations: Array.isArray(payload.reservations)
+        ? (payload.reservations as RawDocument[]).map(r => ({ name: r.name, cidr: r.range }))
+        : [],
+      ...(containers.length > 0 ? { containers: containers.map(toPlanContainer) } : {}),
+      allocations: allocated.map(toPlanAllocation),
+    };
+  },
+  // Version 2 allows arbitrary address ranges as reservations, so `cidr` became `range`.
+  1: (doc) => ({
+    ...doc,
+    schemaVersion: 2,
+    reservations: Array.isArray(doc.reservations)
+      ? (doc.reservations as unknown[]).map(r => {
+        if (!isRecord(r)) return r;
+        const { cidr, ...rest } = r;
+        return { ...rest, range: cidr };
+      })
+      : doc.reservations,
+  }),
+  // Version 3 records the allocation strategy; everything before it was packed largest first.
+  2: (doc) => ({ ...doc, schemaVersion: 3, strategy: doc.strategy ?? 'largest-first' }),
+  // Version 4 adds hierarchical plans: nested groups and the container blocks they get.
+  3: (doc) => ({ ...doc, schemaVersion: 4, containers: doc.containers ?? [] }),
+};
+
+const detectVersion = (doc: RawDocument): number => {
+  if ('schemaVersion' in doc) {
+    if (doc.format !== PLAN_FORMAT) throw new Error(`Unknown file format '${String(doc.format)}'. Expected '${PLAN_FORMAT}'.`);
+    if (!Number.isInteger(doc.schemaVersion)) throw new Error("schemaVersion must be an integer.");
+    return doc.schemaVersion as number;
+  }
+  if ('request' in doc && 'name' in doc) return 0;
+  throw new Error("The file is not a subnet plan: it has no 'format' and 'schemaVersion'.");
+};
+
+export const migratePlanDocument = (doc: RawDocument): RawDocument => {
+  let version = detectVersion(doc);
+  if (version > PLAN_SCHEMA_VERSION) {
+    throw new Error(`This plan uses schema version ${version}, which is newer than the supported version ${PLAN_SCHEMA_VERSION}. Please update the app.`);
+  }
+  let current = doc;
+  while (version < PLAN_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`Schema version ${version} is no longer supported.`);
+    current = migrate(current);
+    version++;
+  }
+  return current;
+};
+
+// --- Validation -------------------------------------------------------------------------
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fail = (path: string, message: string): never => {
+  throw new Error(`Invalid plan: ${path} ${message}`);
+};
+
+const expectKeys = (value: RawDocument, path: string, required: string[], optional: string[] = []) => {
+  for (const key of required) {
+    if (!(key in value)) fail(path, `is missing the required field '${key}'.`);
+  }
+  for (const key of Object.keys(value)) {
+    if (!required.includes(key) && !optional.includes(key)) fail(path, `has an unknown field '${key}'.`);
+  }
+};
+
+const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string' || !value.trim()) fail(path, 'must be a non-empty string.');
+  return (value as string).trim();
+};
+
+const expectPositiveInteger = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) fail(path, 'must be a positive integer.');
+  return value as number;
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) fail(path, 'must be an array.');
+  return value as unknown[];
+};
+
+const expectNetwork = (value: unknown, path: string): { networkInt: bigint; cidr: number } => {
+  const text = expectString(value, path);
+  let parsed: { ipAddress: string; cidr?: number };
+  try {
+    parsed = parseCidrNotation(text);
+  } catch (e) {
+    return fail(path, `is not valid CIDR notation (${(e as Error).message})`);
+  }
+  if (parsed.cidr === undefined || validateIpFormat(parsed.ipAddress)) fail(path, `must be an IPv4 network in CIDR notation, e.g. 10.0.0.0/22. Received '${text}'.`);
+  const ipInt = ipToBigInt(parsed.ipAddress);
+  const cidr = parsed.cidr as number;
+  if (networkAddress(ipInt, cidr) !== ipInt) {
+    fail(path, `'${text}' is not a network address. Did you mean ${bigIntToIp(networkAddress(ipInt, cidr))}/${cidr}?`);
+  }
+  return { networkInt: ipInt, cidr };
+};
+
+// Prefix length of every point-to-point link and loopback allocation.
+const FIXED_KIND_CIDRS = { p2p: 31, loopback: 32 } as const;
+
+const expectKind = (value: unknown, path: string): 'p2p' | 'loopback' => {
+  if (value !== 'p2p' && value !== 'loopback') fail(path, "must be 'p2p' or 'loopback'.");
+  return value as 'p2p' | 'loopback';
+};
+
+const validatePlanDocument = (doc: RawDocument): ImportedPlan => {
+  expectKeys(doc, 'document', ['format', 'schemaVersion', 'metadata', 'baseNetwork', 'strategy', 'groups', 'reservations', 'containers', 'allocations'], ['$schema']);
+
+  if (!isRecord(doc.metadata)) fail('metadata', 'must be an object.');
+  const meta = doc.metadata as RawDocument;
+  expectKeys(meta, 'metadata', ['name', 'createdAt', 'exportedAt', 'generator'], ['description']);
+  const metadata: PlanMetadata = {
+    name: expectString(meta.name, 'metadata.name'),
+    createdAt: expectString(meta.createdAt, 'metadata.createdAt'),
+    exportedAt: expectString(meta.exportedAt, 'metadata.exportedAt'),
+    generator: expectString(meta.generator, 'metadata.generator'),
+  };
+  if (meta.description !== undefined) {
+    if (typeof meta.description !== 'string') fail('metadata.description', 'must be a string.');
+    metadata.description = meta.description as string;
+  }
+
+  const base = expectNetwork(doc.baseNetwork, 'baseNetwork');
+  const baseEnd = base.networkInt + blockSize(base.cidr);
+
+  const strategy = doc.strategy as VlsmAllocationStrategy;
+  if (!VLSM_ALLOCATION_STRATEGIES.includes(strategy)) {
+    fail('strategy', `must be one of ${VLSM_ALLOCATION_STRATEGIES.map(s => `'${s}'`).join(', ')}.`);
+  }
+
+  // Names are unique among siblings; containers have children instead of a host count.
+  const validateGroups = (list: unknown[], parentPath: string): VlsmSubnetRequest[] => {
+    const names = new Set<string>();
+    return list.map((raw, i): VlsmSubnetRequest => {
+      const path = `${parentPath}[${i}]`;
+      if (!isRecord(raw)) return fail(path, 'must be an object.');
+      expectKeys(raw, path, ['id', 'name', 'count'], ['hosts', 'growth', 'kind', 'children']);
+      const name = expectString(raw.name, `${path}.name`);
+      if (names.has(name)) fail(`${path}.name`, `'${name}' is used by more than one group.`);
+      names.add(name);
+      if (raw.growth !== undefined && (typeof raw.growth !== 'number' || !(raw.growth >= 0))) {
+        fail(`${path}.growth`, 'must be a percentage of zero or more.');
+      }
+      const group = {
+        id: expectString(raw.id, `${path}.id`),
+        name,
+        count: expectPositiveInteger(raw.count, `${path}.count`),
+        ...(raw.growth ? { growth: raw.growth as number } : {}),
+      };
+      if (raw.children === undefined) {
+        if (raw.hosts === undefined) fail(path, "needs either 'hosts' or 'children'.");
+        const hosts = expectPositiveInteger(raw.hosts, `${path}.hosts`);
+        if (raw.kind === undefined) return { ...group, hosts };
+        const kind = expectKind(raw.kind, `${path}.kind`);
+        if (hosts > FIXED_KIND_HOSTS[kind]) fail(`${path}.hosts`, `must be at most ${FIXED_KIND_HOSTS[kind]} for a ${kind} group.`);
+        if (group.growth) fail(`${path}.growth`, `must be absent for a ${kind} group.`);
+        return { ...group, hosts, kind };
+      }
+      if (raw.hosts !== undefined) fail(path, "cannot have both 'hosts' and 'children'.");
+      if (raw.kind !== undefined) fail(path, "cannot have both 'kind' and 'children'.");
+      const children = validateGroups(expectArray(raw.children, `${path}.children`), `${path}.children`);
+      if (children.length === 0) fail(`${path}.children`, 'must contain at least one group.');
+      return { ...group, hosts: 0, children };
+    });
+  };
+  const groups = validateGroups(expectArray(doc.groups, 'groups'), 'groups');
+  if (groups.length === 0) fail('groups', 'must contain at least one group.');
+  // A /31 or /32 base network only holds point-to-point links or loopbacks.
+  const hasKinds = (list: VlsmSubnetRequest[]): boolean => list.some(g => g.kind !== undefined || (g.children !== undefined && hasKinds(g.children)));
+  const maxBaseCidr = hasKinds(groups) ? 32 : 30;
+  if (base.cidr < 1 || base.cidr > maxBaseCidr) fail('baseNetwork', `must have a prefix length between /1 and /${maxBaseCidr}.`);
+
+  // Overlaps are checked among blocks sharing a parent. Reservations belong to the top level,
+  // so allocations cannot sit on top of them.
+  const scopes = new Map<string | undefined, { start: bigint; end: bigint; path: string }[]>([[undefined, []]]);
+  const reservations = expectArray(doc.reservations, 'reservations').map((raw, i): VlsmReservation => {
+    const path = `reservations[${i}]`;
+    if (!isRecord(raw)) return fail(path, 'must be an object.');
+    expectKeys(raw, path, ['name', 'range']);
+    const text = expectString(raw.range, `${path}.range`);
+    let range: { start: bigint; end: bigint };
+    try {
+      range = parseIpv4Range(text);
+    } catch (e) {
+      return fail(`${path}.range`, `is not a valid address range (${(e as Error).message})`);
+    }
+    if (range.start < base.networkInt || range.end >= baseEnd) {
+      fail(`${path}.range`, `must lie inside the base network ${doc.baseNetwork}.`);
+    }
+    scopes.get(undefined)!.push({ start: range.start, end: range.end + 1n, path });
+    return { name: expectString(raw.name, `${path}.name`), range: text };
+  });
+
+  // Places a block inside its parent container (or the base network) and returns its network.
+  const containerBlocks = new Map<string, { start: bigint; end: bigint; network: string }>();
+  const place = (raw: RawDocument, path: string) => {
+    const { networkInt, cidr } = expectNetwork(raw.network, `${path}.network`);
+    const start = networkInt;
+    const end = networkInt + blockSize(cidr);
+    let parentId: string | undefined;
+    if (raw.parentId === undefined) {
+      if (start < base.networkInt || end > baseEnd) fail(`${path}.network`, `must lie inside the base network ${doc.baseNetwork}.`);
+    } else {
+      parentId = expectString(raw.parentId, `${path}.parentId`);
+      const parent = containerBlocks.get(parentId);
+      if (!parent) fail(`${path}.parentId`, `'${parentId}' does not name a container listed before it.`);
+      if (start < parent!.start || end > parent!.end) fail(`${path}.network`, `must lie inside its container ${parent!.network}.`);
+    }
+    const siblings = scopes.get(parentId) ?? [];
+    const clash = siblings.find(o => start < o.end && o.start < end);
+    if (clash) fail(`${path}.network`, `overlaps ${clash.path}.`);
+    siblings.push({ start, end, path });
+    scopes.set(parentId, siblings);
+    return { networkInt, cidr, start, end, parentId };
+  };
+
+  const containers = expectArray(doc.containers, 'containers').map((raw, i): VlsmContainerResult => {
+    const path = `containers[${i}]`;
+    if (!isRecord(raw)) return fail(path, 'must be an object.');
+    expectKeys(raw, path, ['id', 'name', 'network'], ['parentId']);
+    const id = expectString(raw.id, `${path}.id`);
+    if (containerBlocks.has(id)) fail(`${path}.id`, `'${id}' is used by more than one container.`);
+    const { networkInt, cidr, start, end, parentId } = place(raw, path);
+    containerBlocks.set(id, { start, end, network: raw.network as string });
+    return {
+      id,
+      name: expectString(raw.name, `${path}.name`),
+      ...(parentId !== undefined ? { parentId } : {}),
+      networkAddress: bigIntToIp(networkInt),
+      cidr,
+      subnetMask: bigIntToIp(prefixToMask(cidr)),
+      lastAddress: bigIntToIp(end - 1n),
+    };
+  });
+
+  const allocatedSubnets = expectArray(doc.allocations, 'allocations').map((raw, i): VlsmSubnetResult => {
+    const path = `allocations[${i}]`;
+    if (!isRecord(raw)) return fail(path, 'must be an object.');
+    expectKeys(raw, path, ['id', 'name', 'requiredHosts', 'allocatedHosts', 'network'], ['plannedHosts', 'kind', 'parentId']);
+    const { networkInt, cidr, end, parentId } = place(raw, path);
+
+    const kind = raw.kind === undefined ? undefined : expectKind(raw.kind, `${path}.kind`);
+    if (kind !== undefined && cidr !== FIXED_KIND_CIDRS[kind]) fail(`${path}.network`, `must be a /${FIXED_KIND_CIDRS[kind]} for a ${kind} allocation.`);
+    const pointToPoint = kind !== undefined;
+    const requiredHosts = expectPositiveInteger(raw.requiredHosts, `${path}.requiredHosts`);
+    const allocatedHosts = expectPositiveInteger(raw.allocatedHosts, `${path}.allocatedHosts`);
+    const capacity = usableHostCount(cidr, pointToPoint);
+    if (capacity === 0) fail(`${path}.network`, `is a /${cidr}, which has no usable hosts unless kind is 'p2p' or 'loopback'.`);
+    if (allocatedHosts !== capacity) fail(`${path}.allocatedHosts`, `must be ${capacity} for a /${cidr}.`);
+    if (requiredHosts > allocatedHosts) fail(`${path}.requiredHosts`, `exceeds the ${allocatedHosts} usable hosts of a /${cidr}.`);
+    const plannedHosts = raw.plannedHosts === undefined ? undefined : expectPositiveInteger(raw.plannedHosts, `${path}.plannedHosts`);
+    if (plannedHosts !== undefined && (plannedHosts < requiredHosts || plannedHosts > allocatedHosts)) {
+      fail(`${path}.plannedHosts`, `must lie between requiredHosts and the ${allocatedHosts} usable hosts of a /${cidr}.`);
+    }
+
+    return {
+      id: expectString(raw.id, `${path}.id`),
+      name: expectString(raw.name, `${path}.name`),
+      ...(parentId !== undefined ? { parentId } : {}),
+      requiredHosts,
+      ...(plannedHosts !== undefined ? { plannedHosts } : {}),
+      allocatedHosts,
+      ...(kind !== undefined ? { kind } : {}),
+      networkAddress: bigIntToIp(networkInt),
+      cidr,
+      subnetMask: bigIntToIp(prefixToMask(cidr)),
+      usableHostRange: usableHostRange(networkInt, cidr, pointToPoint),
+      broadcastAddress: bigIntToIp(end - 1n),
+    };
+  });
+
+  const baseIp = bigIntToIp(base.networkInt);
+  const reservedRanges = resolveReservations(reservations, base.networkInt, base.cidr);
+  return {
+    metadata,
+    payload: { ipAddress: baseIp, cidr: base.cidr, subnets: groups, ...(reservations.length > 0 ? { reservations } : {}), strategy },
+    result: allocatedSubnets.length > 0
+      ? { ...summarizeVlsmAllocations(baseIp, base.cidr, allocatedSubnets, reservedRanges, containers), strategy }
+      : null,
+  };
+};
+
+export const parsePlanDocument = (text: string): ImportedPlan => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`The file is not valid JSON: ${(e as Error).message}`);
+  }
+  if (!isRecord(parsed)) throw new Error("The file is not a subnet plan: expected a JSON object.");
+  return validatePlanDocument(migratePlanDocument(parsed));
+};
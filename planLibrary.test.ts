@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { createPlan, duplicatePlan, exportLibrary, loadPlans, mergePlans, parseLibrary, savePlans } from './planLibrary';
+import { calculateVlsm } from './calculations';
+import { AddressingMode, CalculationMode, CalculationResult, VlsmCalculationPayload, VlsmCalculationResult, WorkerRequest } from './types';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+};
+
+const payload: VlsmCalculationPayload = {
+  ipAddress: '10.0.0.0',
+  cidr: 22,
+  subnets: [{ id: 'group-0', name: 'LANs', hosts: 50, count: 2 }],
+};
+const request: WorkerRequest = { calculator: 'vlsm', payload };
+
+describe('plan library', () => {
+  it('persists plans with their inputs and last result', () => {
+    const storage = memoryStorage();
+    const plan = createPlan('  Branch rollout ', request, calculateVlsm(payload));
+    savePlans([plan], storage);
+
+    const [loaded] = loadPlans(storage).plans;
+    expect(loaded.name).toBe('Branch rollout');
+    expect(loaded.request).toEqual(request);
+    expect(loaded.result).toEqual(plan.result);
+  });
+
+  it('drops stored results that do not hold up, so the plan is recalculated', () => {
+    const plan = createPlan('Campus', request, calculateVlsm(payload));
+    const result = plan.result as VlsmCalculationResult;
+    const broken = [
+      { ...result, allocatedSubnets: undefined },
+      { ...result, allocatedSubnets: result.allocatedSubnets.map(s => ({ ...s, networkAddress: 42 })) },
+      { ...result, allocatedSubnets: [...result.allocatedSubnets, result.allocatedSubnets[0]] },
+    ];
+    for (const bad of broken) {
+      const [imported] = parseLibrary(exportLibrary([{ ...plan, result: bad as unknown as VlsmCalculationResult }]));
+      expect(imported.request).toEqual(request);
+      expect(imported.result).toBeNull();
+    }
+
+    const standard = createPlan('Split', { calculator: 'standard', payload: { calculationMode: CalculationMode.SUBNETS, addressingMode: AddressingMode.CLASSLESS, ipAddress: '10.0.0.0', parentCidr: 8, requiredSubnets: 4 } }, null);
+    expect(parseLibrary(exportLibrary([{ ...standard, result: { cidr: 'ten' } as unknown as CalculationResult }]))[0].result).toBeNull();
+  });
+
+  it('treats corrupt storage as an unreadable empty library', () => {
+    const storage = memoryStorage();
+    storage.setItem('subnet-calculator.saved-plans', '{not json');
+    expect(loadPlans(storage)).toMatchObject({ plans: [], skipped: [], readable: false });
+  });
+
+  it('skips invalid entries without losing them or the valid plans', () => {
+    const storage = memoryStorage();
+    const plan = createPlan('Branch rollout', request, null);
+    const broken = { name: 'Broken', request: { calculator: 'vlsm', payload: {} } };
+    storage.setItem('subnet-calculator.saved-plans', JSON.stringify([plan, broken]));
+
+    const library = loadPlans(storage);
+    expect(library).toEqual({ plans: [plan], skipped: [broken], errors: ["Plan 'Broken' has unrecognized calculation inputs."], readable: true });
+
+    const added = createPlan('Campus', request, null);
+    savePlans([...library.plans, added], storage, library.skipped);
+    expect(loadPlans(storage)).toMatchObject({ plans: [plan, added], skipped: [broken] });
+  });
+
+  it('names duplicates distinctly', () => {
+    const plan = createPlan('Campus', request, null);
+    const copy = duplicatePlan(plan, [plan]);
+    const secondCopy = duplicatePlan(plan, [plan, copy]);
+    expect(copy.id).not.toBe(plan.id);
+    expect(copy.name).toBe('Campus (copy)');
+    expect(secondCopy.name).toBe('Campus (copy 2)');
+  });
+
+  it('round-trips the library file and merges without overwriting', () => {
+    const plan = createPlan('Campus', request, null);
+    const imported = parseLibrary(exportLibrary([plan]));
+    expect(imported).toEqual([plan]);
+
+    const merged = mergePlans([plan], imported);
+    expect(merged).toHaveLength(2);
+    expect(merged[1].id).not.toBe(plan.id);
+    expect(merged[1].name).toBe('Campus (copy)');
+  });
+
+  it.each([
+    ['not json', /not valid JSON/],
+    ['{"plans": []}', /not a saved plan library/],
+    ['{"format": "subnet-calculator-library", "version": 9, "plans": []}', /Unsupported library version: 9/],
+    ['{"format": "subnet-calculator-library", "version": 1, "plans": [{"name": "X", "request": {"calculator": "vlsm", "payload": {}}}]}', /Plan 'X' has unrecognized calculation inputs/],
+  ])('rejects invalid library %s', (text, message) => {
+    expect(() => parseLibrary(text)).toThrow(message);
+  });
+});
@@ -0,0 +1,201 @@
+import { CalculationResultUnion, WorkerRequest } from './types';
+import { decodeRequest, encodeRequest } from './urlState';
+import { CIDR_SET_OPERATION_LABELS } from './cidrSets';
+import { parsePlanDocument } from './planFormat';
+
+export interface SavedPlan {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  request: WorkerRequest;
+  // Last computed result; null when it was too large to keep or did not pass validation and must
+  // be recalculated on open.
+  result: CalculationResultUnion | null;
+}
+
+interface LibraryFile {
+  format: 'subnet-calculator-library';
+  version: 1;
+  exportedAt: string;
+  plans: SavedPlan[];
+}
+
+type PlanStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const STORAGE_KEY = 'subnet-calculator.saved-plans';
+// Large standard splits (tens of thousands of rows) would exhaust the localStorage quota.
+const MAX_STORED_RESULT_CHARS = 500_000;
+
+const newPlanId = () => `plan-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A stored result is kept only when it passes the plan file checks, which rebuild a VLSM result
+// from its allocations. Anything else is dropped, and the plan is recalculated from its request
+// when it is opened.
+const validResult = (name: string, request: WorkerRequest, result: unknown): CalculationResultUnion | null => {
+  if (request.calculator !== 'vlsm' || !isRecord(result)) return null;
+  try {
+    return parsePlanDocument(JSON.stringify({ name, request, result })).result;
+  } catch {
+    return null;
+  }
+};
+
+// Validates one plan from storage or an imported file; the request is checked by round-tripping it
+// through the URL codec, which rejects anything that is not a well-formed calculation.
+const parsePlan = (value: unknown, index: number): SavedPlan => {
+  if (!isRecord(value)) throw new Error(`Plan #${index + 1} is not an object.`);
+  const { id, name, createdAt, updatedAt, request, result } = value;
+  if (typeof name !== 'string' || !name.trim()) throw new Error(`Plan #${index + 1} is missing a name.`);
+  if (!isRecord(request) || typeof request.calculator !== 'string' || !isRecord(request.payload)) {
+    throw new Error(`Plan '${name}' has no calculation inputs.`);
+  }
+  let decoded: WorkerRequest | null = null;
+  try {
+    decoded = decodeRequest(encodeRequest(request as unknown as WorkerRequest));
+  } catch {
+    decoded = null;
+  }
+  if (!decoded || decoded.calculator !== request.calculator) {
+    throw new Error(`Plan '${name}' has unrecognized calculation inputs.`);
+  }
+  const now = new Date().toISOString();
+  return {
+    id: typeof id === 'string' && id ? id : newPlanId(),
+    name: name.trim(),
+    createdAt: typeof createdAt === 'string' ? createdAt : now,
+    updatedAt: typeof updatedAt === 'string' ? updatedAt : now,
+    request: decoded,
+    result: validResult(name, decoded, result),
+  };
+};
+
+export const describeRequest = (request: WorkerRequest): string => {
+  switch (request.calculator) {
+    case 'standard': {
+      const { ipAddress, parentCidr } = request.payload;
+      return `IPv4 Standard · ${parentCidr === undefined ? ipAddress : `${ipAddress}/${parentCidr}`}`;
+    }
+    case 'vlsm':
+      return `IPv4 VLSM · ${request.payload.ipAddress}/${request.payload.cidr} · ${request.payload.subnets.length} groups`;
+    case 'standard6':
+      return `IPv6 Standard · ${request.payload.ipAddress}/${request.payload.parentCidr}`;
+    case 'vlsm6':
+      return `IPv6 VLSM · ${request.payload.ipAddress}/${request.payload.cidr} · ${request.payload.subnets.length} groups`;
+    case 'summarize':
+      return `IPv4 Summarization · ${request.payload.networks.length} networks`;
+    case 'cidrset':
+      return `IPv4 CIDR Sets · ${CIDR_SET_OPERATION_LABELS[request.payload.operation]}`;
+    case 'audit':
+      return `IPv4 Audit · ${request.payload.subnets.length} subnets`;
+  }
+};
+
+export interface LoadedLibrary {
+  plans: SavedPlan[];
+  // Stored entries that failed validation, kept as they are so saving the library does not drop them.
+  skipped: unknown[];
+  // Why each skipped entry was rejected, e.g. "Plan 'Campus' has unrecognized calculation inputs."
+  errors: string[];
+  // False when storage holds something other than a list of plans; nothing may be saved over it.
+  readable: boolean;
+}
+
+export const loadPlans = (storage: PlanStorage = window.localStorage): LoadedLibrary => {
+  const library: LoadedLibrary = { plans: [], skipped: [], errors: [], readable: true };
+  const raw = storage.getItem(STORAGE_KEY);
+  if (!raw) return library;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    // A corrupt library should not take the whole app down.
+    return { ...library, errors: [`Saved plans are not valid JSON: ${(e as Error).message}`], readable: false };
+  }
+  if (!Array.isArray(parsed)) return { ...library, errors: ['Saved plans are not a list of plans.'], readable: false };
+  // One bad entry must not hide (and, once saved, delete) the others.
+  parsed.forEach((entry, i) => {
+    try {
+      library.plans.push(parsePlan(entry, i));
+    } catch (e) {
+      library.skipped.push(entry);
+      library.errors.push((e as Error).message);
+    }
+  });
+  return library;
+};
+
+// `skipped` are the unreadable entries of the loaded library, which are written back unchanged.
+export const savePlans = (plans: SavedPlan[], storage: PlanStorage = window.localStorage, skipped: unknown[] = []) => {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify([...plans, ...skipped]));
+  } catch {
+    throw new Error("Browser storage is full. Delete or export some saved plans and try again.");
+  }
+};
+
+export const createPlan = (name: string, request: WorkerRequest, result: CalculationResultUnion | null): SavedPlan => {
+  const now = new Date().toISOString();
+  const storedResult = result && JSON.stringify(result).length <= MAX_STORED_RESULT_CHARS ? result : null;
+  return { id: newPlanId(), name: name.trim(), createdAt: now, updatedAt: now, request, result: storedResult };
+};
+
+// Picks "<name> (copy)", "<name> (copy 2)", ... so duplicated plans stay distinguishable.
+export const uniquePlanName = (name: string, plans: SavedPlan[]): string => {
+  const taken = new Set(plans.map(p => p.name));
+  if (!taken.has(name)) return name;
+  let candidate = `${name} (copy)`;
+  for (let i = 2; taken.has(candidate); i++) {
+    candidate = `${name} (copy ${i})`;
+  }
+  return candidate;
+};
+
+export const duplicatePlan = (plan: SavedPlan, plans: SavedPlan[]): SavedPlan => {
+  const now = new Date().toISOString();
+  return { ...plan, id: newPlanId(), name: uniquePlanName(plan.name, plans), createdAt: now, updatedAt: now };
+};
+
+export const exportLibrary = (plans: SavedPlan[]): string => {
+  const file: LibraryFile = {
+    format: 'subnet-calculator-library',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    plans,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseLibrary = (text: string): SavedPlan[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== 'subnet-calculator-library') {
+    throw new Error("The selected file is not a saved plan library.");
+  }
+  if (parsed.version !== 1) {
+    throw new Error(`Unsupported library version: ${String(parsed.version)}.`);
+  }
+  if (!Array.isArray(parsed.plans)) {
+    throw new Error("The library file does not contain a list of plans.");
+  }
+  return parsed.plans.map(parsePlan);
+};
+
+// Imported plans never overwrite local ones: clashing ids get fresh ids and clashing names a suffix.
+export const mergePlans = (existing: SavedPlan[], imported: SavedPlan[]): SavedPlan[] => {
+  const merged = [...existing];
+  const ids = new Set(existing.map(p => p.id));
+  for (const plan of imported) {
+    const id = ids.has(plan.id) ? newPlanId() : plan.id;
+    ids.add(id);
+    merged.push({ ...plan, id, name: uniquePlanName(plan.name, merged) });
+  }
+  return merged;
+};
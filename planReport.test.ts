@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { buildPlanReport, renderCsv, renderHtmlReport, renderMarkdown } from './planReport';
+import { calculateSubnetting, calculateVlsm } from './calculations';
+import { summarizeNetworks } from './summarization';
+import { calculateCidrSet } from './cidrSets';
+import { auditAddressPlan } from './addressAudit';
+import { AddressingMode, CalculationMode, CalculationPayload, VlsmCalculationPayload } from './types';
+
+const vlsmPayload: VlsmCalculationPayload = {
+  ipAddress: '10.0.0.0',
+  cidr: 24,
+  subnets: [
+    { id: 'group-0', name: 'LANs', hosts: 50, count: 2 },
+    { id: 'group-1', name: 'Links, "core"', hosts: 2, count: 1 },
+  ],
+};
+const vlsmReport = () => buildPlanReport({ calculator: 'vlsm', payload: vlsmPayload, result: calculateVlsm(vlsmPayload) });
+
+describe('plan report', () => {
+  it('summarizes a standard split', () => {
+    const payload: CalculationPayload = {
+      calculationMode: CalculationMode.SUBNETS, addressingMode: AddressingMode.CLASSLESS,
+      ipAddress: '192.168.1.0', parentCidr: 24, requiredSubnets: 4,
+    };
+    const report = buildPlanReport({ calculator: 'standard', payload, result: calculateSubnetting(payload) });
+
+    expect(report.fileStem).toBe('IPv4_Subnet_Plan_192_168_1_0_26');
+    expect(report.tables[0].rows[1]).toEqual(['Subnet 2', '192.168.1.64', '192.168.1.65 - 192.168.1.126', '192.168.1.127']);
+    expect(report.utilization.percent).toBeCloseTo((4 * 62 / 256) * 100);
+    expect(report.summary.map(([label]) => label)).not.toContain('Subnets Listed');
+  });
+
+  it('lists the first page of a split into millions of subnets', () => {
+    const payload: CalculationPayload = {
+      calculationMode: CalculationMode.MASK, addressingMode: AddressingMode.CLASSLESS,
+      ipAddress: '10.0.0.0', parentCidr: 8, mask: '/30',
+    };
+    const report = buildPlanReport({ calculator: 'standard', payload, result: calculateSubnetting(payload) });
+
+    expect(report.tables[0].rows).toHaveLength(65536);
+    expect(report.summary).toContainEqual(['Subnets Listed', 'First 65,536 of 4,194,304']);
+  });
+
+  it('includes allocations, free ranges and block utilization for VLSM', () => {
+    const report = vlsmReport();
+    expect(report.tables.map(t => t.title)).toEqual(['Allocated Subnets', 'Free Ranges']);
+    expect(report.tables[1].rows).toEqual([
+      ['10.0.0.132/30', '4', '10.0.0.133 - 10.0.0.134'],
+      ['10.0.0.136/29', '8', '10.0.0.137 - 10.0.0.142'],
+      ['10.0.0.144/28', '16', '10.0.0.145 - 10.0.0.158'],
+      ['10.0.0.160/27', '32', '10.0.0.161 - 10.0.0.190'],
+      ['10.0.0.192/26', '64', '10.0.0.193 - 10.0.0.254'],
+    ]);
+    expect(report.utilization.percent).toBeCloseTo((132 / 256) * 100);
+    expect(report.summary).toContainEqual(['Allocation Strategy', 'Largest first']);
+    expect(report.summary).toContainEqual(['Free Space Fragmentation', `${((1 - 64 / 124) * 100).toFixed(2)}%`]);
+  });
+
+  it('lists hierarchical plans by path with container rows', () => {
+    const payload: VlsmCalculationPayload = {
+      ipAddress: '10.0.0.0',
+      cidr: 23,
+      subnets: [{ id: 'site', name: 'Site', hosts: 0, count: 1, children: [{ id: 'lan', name: 'LAN', hosts: 100, count: 2 }] }],
+    };
+    const table = buildPlanReport({ calculator: 'vlsm', payload, result: calculateVlsm(payload) }).tables[0];
+    expect(table.columns.slice(0, 3)).toEqual(['Path', 'Type', 'Required Hosts']);
+    expect(table.rows.map(row => [...row.slice(0, 3), row[4]])).toEqual([
+      ['Site', 'Container', '', '10.0.0.0'],
+      ['Site / LAN 1', 'Subnet', '100', '10.0.0.0'],
+      ['Site / LAN 2', 'Subnet', '100', '10.0.0.128'],
+    ]);
+  });
+
+  it('reports route summaries with their aggregates', () => {
+    const payload = { networks: ['10.1.0.0/24', '10.1.1.0/24', '10.1.3.0/24'], singleRoute: true };
+    const report = buildPlanReport({ calculator: 'summarize', payload, result: summarizeNetworks(payload) });
+    expect(report.fileStem).toBe('Route_Summary_10_1_0_0_2');
+    expect(report.tables[0].rows).toEqual([
+      ['10.1.0.0/23', '255.255.254.0', '10.1.0.0', '10.1.1.255', '512'],
+      ['10.1.3.0/24', '255.255.255.0', '10.1.3.0', '10.1.3.255', '256'],
+    ]);
+    expect(report.summary).toContainEqual(['Single Summary Route', '10.1.0.0/22']);
+    expect(report.summary).toContainEqual(['Extra Addresses in Summary Route', '256']);
+    expect(report.utilization.percent).toBe(75);
+  });
+
+  it('lists CIDR set results', () => {
+    const payload = { operation: 'difference' as const, listA: ['10.0.0.0/23'], listB: ['10.0.0.0/24'] };
+    const report = buildPlanReport({ calculator: 'cidrset', payload, result: calculateCidrSet(payload) });
+    expect(report.title).toBe('CIDR Difference (A − B)');
+    expect(report.tables[0].rows).toEqual([['1', '10.0.1.0/24', '255.255.255.0', '10.0.1.1 - 10.0.1.254', '10.0.1.255', '256']]);
+    expect(report.utilization).toEqual({ label: 'List A in result', percent: 50 });
+  });
+
+  it('lists audit issues and the audited subnets', () => {
+    const payload = { subnets: [{ name: 'Site', network: '10.0.0.0/23' }, { name: 'Users', network: '10.0.1.1/24' }, { name: 'Bad', network: 'x' }] };
+    const report = buildPlanReport({ calculator: 'audit', payload, result: auditAddressPlan(payload) });
+    expect(report.summary).toEqual([['Subnets', '3'], ['Errors', '2'], ['Warnings', '1']]);
+    expect(report.tables[0].rows.map(row => row.slice(0, 3).concat(row[4]))).toEqual([
+      ['Error', 'Host address', 'Users', '10.0.1.0/24'],
+      ['Error', 'Invalid entry', 'Bad', ''],
+      ['Warning', 'Containment', 'Site, Users', ''],
+    ]);
+    expect(report.tables[1].rows[1]).toEqual(['2', 'Users', '10.0.1.1/24', '10.0.1.0/24', '10.0.1.0', '10.0.1.255', '256', 'Site', 'Error']);
+    expect(report.utilization.percent).toBeCloseTo(100 / 3);
+  });
+
+  it('quotes CSV cells that need it', () => {
+    const lines = renderCsv(vlsmReport()).trimEnd().split('\r\n');
+    expect(lines[0]).toBe('Subnet Name,Required Hosts,Allocated Hosts,Network Address,Subnet Mask,CIDR,Usable Host Range,Broadcast Address');
+    expect(lines[3]).toBe('"Links, ""core""",2,2,10.0.0.128,255.255.255.252,/30,10.0.0.129 - 10.0.0.130,10.0.0.131');
+  });
+
+  it('renders Markdown tables', () => {
+    const markdown = renderMarkdown(vlsmReport());
+    expect(markdown).toContain('# VLSM Plan for 10.0.0.0/24');
+    expect(markdown).toContain('| Block allocated | 51.56% |');
+    expect(markdown).toContain('## Free Ranges\n\n| Prefix | Addresses | Usable Host Range |');
+  });
+
+  it('escapes report content and draws the utilization bar', () => {
+    const html = renderHtmlReport(vlsmReport(), new Date(0));
+    expect(html).toContain('Links, &quot;core&quot;');
+    expect(html).toContain('<span style="width: 51.56%"></span>');
+    expect(html).toContain('@media print');
+  });
+});
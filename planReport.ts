@@ -0,0 +1,304 @@
+// Format-neutral view of an IPv4 result (summary, tables, utilization) and the text renderers
+// built on it. The exporter registry in exporters.ts wraps these as downloadable files.
+import { AddressingMode, ExportSource, VlsmCalculationResult, VlsmSubnetResult } from './types';
+import { IPV4_BITS } from './ipv4';
+import { SUBNET_PAGE_SIZE, VLSM_STRATEGY_LABELS, standardSubnetPage } from './calculations';
+import { CIDR_SET_OPERATION_LABELS } from './cidrSets';
+import { AUDIT_ISSUE_LABELS } from './addressAudit';
+import { buildVlsmTree, flattenVlsmTree, formatPath, isHierarchical } from './vlsmTree';
+
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: string[][];
+}
+
+export interface PlanReport {
+  title: string;
+  // Base for generated file names, e.g. "VLSM_Plan_10_0_0_0_22".
+  fileStem: string;
+  summary: [string, string][];
+  tables: ReportTable[];
+  utilization: { label: string; percent: number };
+}
+
+export type ReportSource = Extract<ExportSource, { calculator: 'standard' | 'vlsm' | 'summarize' | 'cidrset' | 'audit' }>;
+
+export const isReportSource = (source: ExportSource): source is ReportSource =>
+  source.calculator !== 'standard6' && source.calculator !== 'vlsm6';
+
+const addresses = (cidr: number) => Math.pow(2, IPV4_BITS - cidr);
+
+const subnetCells = (s: VlsmSubnetResult) => [
+  String(s.requiredHosts), String(s.allocatedHosts), s.networkAddress, s.subnetMask, `/${s.cidr}`, s.usableHostRange, s.broadcastAddress,
+];
+
+const SUBNET_COLUMNS = ['Required Hosts', 'Allocated Hosts', 'Network Address', 'Subnet Mask', 'CIDR', 'Usable Host Range', 'Broadcast Address'];
+
+// Hierarchical plans list containers and subnets depth-first with their full path, so the
+// nesting survives in flat formats such as CSV.
+const allocationTable = (result: VlsmCalculationResult): ReportTable => {
+  if (!isHierarchical(result)) {
+    return {
+      title: 'Allocated Subnets',
+      columns: ['Subnet Name', ...SUBNET_COLUMNS],
+      rows: result.allocatedSubnets.map(s => [s.name, ...subnetCells(s)]),
+    };
+  }
+  return {
+    title: 'Allocated Subnets',
+    columns: ['Path', 'Type', ...SUBNET_COLUMNS],
+    rows: flattenVlsmTree(buildVlsmTree(result)).map(node => (node.kind === 'subnet'
+      ? [formatPath(node.path), 'Subnet', ...subnetCells(node.block)]
+      : [formatPath(node.path), 'Container', '', '', node.block.networkAddress, node.block.subnetMask, `/${node.block.cidr}`, '', ''])),
+  };
+};
+
+export const buildPlanReport = (source: ReportSource): PlanReport => {
+  if (source.calculator === 'standard') {
+    const { result, payload } = source;
+    const classful = result.addressingMode === AddressingMode.CLASSFUL;
+    const parentSize = result.totalSubnets * addresses(result.cidr);
+    // Splits into millions of subnets list the first page; the rest follow from the layout.
+    const subnets = standardSubnetPage(result, 0, SUBNET_PAGE_SIZE);
+    return {
+      title: `Subnet Plan for ${classful ? payload.ipAddress : result.parentNetwork}`,
+      fileStem: `IPv4_Subnet_Plan_${payload.ipAddress.replace(/\./g, '_')}_${result.cidr}`,
+      summary: [
+        ['Original IP Address', payload.ipAddress],
+        classful ? ['IP Class', result.ipClass] : ['Parent Network', result.parentNetwork],
+        classful ? ['Default Mask', result.defaultMask] : ['Parent Mask', result.parentMask],
+        ['Subnet Mask', result.subnetMask],
+        ['CIDR Notation', `/${result.cidr}`],
+        ['Total Subnets', result.totalSubnets.toLocaleString('en-US')],
+        ['Usable Hosts per Subnet', result.hostsPerSubnet.toLocaleString('en-US')],
+        ...(subnets.length < result.totalSubnets
+          ? [['Subnets Listed', `First ${subnets.length.toLocaleString('en-US')} of ${result.totalSubnets.toLocaleString('en-US')}`]] as [string, string][]
+          : []),
+      ],
+      tables: [{
+        title: 'Subnets',
+        columns: ['Subnet', 'Network Address', 'Usable Host Range', 'Broadcast Address'],
+        rows: subnets.map(s => [`Subnet ${s.id}`, s.networkAddress, s.usableHostRange, s.broadcastAddress]),
+      }],
+      utilization: {
+        label: 'Usable host addresses',
+        percent: parentSize > 0 ? (result.totalSubnets * result.hostsPerSubnet / parentSize) * 100 : 0,
+      },
+    };
+  }
+
+  if (source.calculator === 'summarize') {
+    const { result } = source;
+    const route = result.summaryRoute;
+    const count = (value: number) => value.toLocaleString('en-US');
+    return {
+      title: `Route Summary of ${result.inputs.length} Networks`,
+      fileStem: `Route_Summary_${result.aggregates[0].networkAddress.replace(/\./g, '_')}_${result.aggregates.length}`,
+      summary: [
+        ['Input Networks', count(result.inputs.length)],
+        ['Aggregate Prefixes', count(result.aggregates.length)],
+        ['Addresses Covered', count(result.coveredAddresses)],
+        ...(route ? [
+          ['Single Summary Route', `${route.networkAddress}/${route.cidr}`],
+          ['Extra Addresses in Summary Route', count(route.extraAddresses)],
+        ] as [string, string][] : []),
+      ],
+      tables: [
+        {
+          title: 'Aggregate Prefixes',
+          columns: ['Prefix', 'Subnet Mask', 'First Address', 'Last Address', 'Addresses'],
+          rows: result.aggregates.map(a => [`${a.networkAddress}/${a.cidr}`, a.subnetMask, a.networkAddress, a.lastAddress, count(a.addresses)]),
+        },
+        {
+          title: 'Input Networks',
+          columns: ['Network', 'First Address', 'Last Address'],
+          rows: result.inputs.map(i => [i.entry, i.firstAddress, i.lastAddress]),
+        },
+      ],
+      // Without a summary route the aggregates cover exactly the inputs.
+      utilization: route
+        ? { label: 'Summary route covered by inputs', percent: (result.coveredAddresses / route.addresses) * 100 }
+        : { label: 'Aggregates covered by inputs', percent: 100 },
+    };
+  }
+
+  if (source.calculator === 'cidrset') {
+    const { result } = source;
+    const count = (value: number) => value.toLocaleString('en-US');
+    const combined = result.addressesB !== undefined;
+    return {
+      title: `CIDR ${CIDR_SET_OPERATION_LABELS[result.operation]}`,
+      fileStem: `CIDR_${result.operation}_${result.prefixes.length}_prefixes`,
+      summary: [
+        ['Operation', CIDR_SET_OPERATION_LABELS[result.operation]],
+        ['Addresses in List A', count(result.addressesA)],
+        ...(combined ? [['Addresses in List B', count(result.addressesB!)]] as [string, string][] : []),
+        ['Result Prefixes', count(result.prefixes.length)],
+        ['Result Addresses', count(result.totalAddresses)],
+      ],
+      tables: [{
+        title: 'Result Prefixes',
+        columns: ['#', 'Prefix', 'Subnet Mask', 'Usable Host Range', 'Broadcast Address', 'Addresses'],
+        rows: result.prefixes.map(p => [String(p.id), `${p.networkAddress}/${p.cidr}`, p.subnetMask, p.usableHostRange, p.broadcastAddress, count(p.addresses)]),
+      }],
+      // How much of list A survives an intersection or difference; the whole result otherwise.
+      utilization: result.operation === 'intersection' || result.operation === 'difference'
+        ? { label: 'List A in result', percent: result.addressesA > 0 ? (result.totalAddresses / result.addressesA) * 100 : 0 }
+        : { label: 'Result covered by prefixes', percent: 100 },
+    };
+  }
+
+  if (source.calculator === 'audit') {
+    const { result } = source;
+    const count = (value: number) => value.toLocaleString('en-US');
+    const clean = result.subnets.filter(s => s.status !== 'error').length;
+    return {
+      title: `Address Plan Audit of ${result.subnets.length} Subnets`,
+      fileStem: `Address_Audit_${result.subnets.length}_subnets`,
+      summary: [
+        ['Subnets', count(result.subnets.length)],
+        ['Errors', count(result.errorCount)],
+        ['Warnings', count(result.warningCount)],
+      ],
+      tables: [
+        {
+          title: 'Issues',
+          columns: ['Severity', 'Issue', 'Subnets', 'Details', 'Suggestion'],
+          rows: result.issues.map(i => [
+            i.severity === 'error' ? 'Error' : 'Warning',
+            AUDIT_ISSUE_LABELS[i.kind],
+            i.subnets.map(index => result.subnets[index].name).join(', '),
+            i.message,
+            i.suggestion ?? '',
+          ]),
+        },
+        {
+          title: 'Audited Subnets',
+          columns: ['#', 'Name', 'Entered', 'Block', 'First Address', 'Last Address', 'Addresses', 'Inside', 'Status'],
+          rows: result.subnets.map(s => [
+            String(s.index + 1), s.name, s.entered, s.block ?? '', s.firstAddress ?? '', s.lastAddress ?? '',
+            s.addresses !== undefined ? count(s.addresses) : '',
+            s.parentIndex !== undefined ? result.subnets[s.parentIndex].name : '',
+            s.status === 'ok' ? 'OK' : s.status === 'error' ? 'Error' : 'Warning',
+          ]),
+        },
+      ],
+      utilization: { label: 'Subnets without errors', percent: (clean / result.subnets.length) * 100 },
+    };
+  }
+
+  const { result } = source;
+  const baseCidr = parseInt(result.baseNetwork.split('/')[1], 10);
+  const allocated = result.allocatedSubnets.reduce((sum, s) => sum + addresses(s.cidr), 0);
+  const reserved = result.reservedRanges ?? [];
+  return {
+    title: `VLSM Plan for ${result.baseNetwork}`,
+    fileStem: `VLSM_Plan_${result.baseNetwork.replace(/[./]/g, '_')}`,
+    summary: [
+      ['Base Network', result.baseNetwork],
+      ['Total Hosts in Block', result.totalHostsInBlock.toLocaleString('en-US')],
+      ['Total Required Hosts', result.totalRequiredHosts.toLocaleString('en-US')],
+      ['Total Allocated Hosts', result.totalAllocatedHosts.toLocaleString('en-US')],
+      ['Address Utilization Efficiency', `${result.efficiency.toFixed(2)}%`],
+      ...(result.strategy ? [['Allocation Strategy', VLSM_STRATEGY_LABELS[result.strategy]] as [string, string]] : []),
+      ...(result.fragmentation !== undefined ? [['Free Space Fragmentation', `${result.fragmentation.toFixed(2)}%`] as [string, string]] : []),
+    ],
+    tables: [
+      allocationTable(result),
+      ...(reserved.length > 0 ? [{
+        title: 'Reserved Ranges',
+        columns: ['Name', 'Range', 'First Address', 'Last Address', 'Addresses'],
+        rows: reserved.map(r => [r.name, r.range, r.firstAddress, r.lastAddress, Number(r.size).toLocaleString('en-US')]),
+      }] : []),
+      {
+        title: 'Free Ranges',
+        columns: ['Prefix', 'Addresses', 'Usable Host Range'],
+        rows: result.unallocatedRanges.map(r => [`${r.networkAddress}/${r.cidr}`, Number(r.size).toLocaleString('en-US'), r.usableHostRange]),
+      },
+    ],
+    utilization: { label: 'Block allocated', percent: (allocated / addresses(baseCidr)) * 100 },
+  };
+};
+
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// CSV carries the main table only so it loads straight into spreadsheets and scripts.
+export const renderCsv = (report: PlanReport): string => {
+  const [table] = report.tables;
+  return [table.columns, ...table.rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const markdownCell = (value: string) => value.replace(/\|/g, '\\|');
+
+const markdownTable = (columns: string[], rows: string[][]) => [
+  `| ${columns.map(markdownCell).join(' | ')} |`,
+  `| ${columns.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+].join('\n');
+
+export const renderMarkdown = (report: PlanReport): string => {
+  const sections = [
+    `# ${report.title}`,
+    markdownTable(['Property', 'Value'], [...report.summary, [report.utilization.label, `${report.utilization.percent.toFixed(2)}%`]]),
+  ];
+  for (const table of report.tables) {
+    sections.push(`## ${table.title}`, table.rows.length > 0 ? markdownTable(table.columns, table.rows) : '_None_');
+  }
+  return sections.join('\n\n') + '\n';
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlTable = (columns: string[], rows: string[][]) => `<table>
+<thead><tr>${columns.map(c => `<th>${escapeHtml(c)}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.map(row => `<tr>${row.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`;
+
+// Standalone page laid out for A4/Letter; the browser's "Save as PDF" produces the PDF.
+export const renderHtmlReport = (report: PlanReport, generatedAt: Date = new Date()): string => {
+  const percent = Math.min(100, Math.max(0, report.utilization.percent));
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(report.title)}</title>
+<style>
+  @page { margin: 15mm; }
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111827; margin: 2rem; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  .meta { color: #6b7280; margin: 0 0 16px; }
+  .summary { display: grid; grid-template-columns: repeat(auto-fill, minmax(170px, 1fr)); gap: 8px; }
+  .summary div { border: 1px solid #d1d5db; border-radius: 4px; padding: 6px 8px; }
+  .summary dt { color: #6b7280; font-size: 10px; text-transform: uppercase; }
+  .summary dd { margin: 2px 0 0; font-family: ui-monospace, Menlo, Consolas, monospace; }
+  .bar { height: 14px; background: #e5e7eb; border-radius: 7px; overflow: hidden; }
+  .bar span { display: block; height: 100%; background: #2563eb; }
+  .bar, .bar span { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; }
+  td { font-family: ui-monospace, Menlo, Consolas, monospace; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+  .no-print { margin-bottom: 16px; }
+  @media print { body { margin: 0; } .no-print { display: none; } }
+</style>
+</head>
+<body>
+<button class="no-print" onclick="window.print()">Print / Save as PDF</button>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">Generated ${escapeHtml(generatedAt.toLocaleString('en-US'))}</p>
+<dl class="summary">
+${report.summary.map(([label, value]) => `<div><dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd></div>`).join('\n')}
+</dl>
+<h2>${escapeHtml(report.utilization.label)}: ${report.utilization.percent.toFixed(2)}%</h2>
+<div class="bar"><span style="width: ${percent.toFixed(2)}%"></span></div>
+${report.tables.map(table => `<h2>${escapeHtml(table.title)}</h2>\n${table.rows.length > 0 ? htmlTable(table.columns, table.rows) : '<p>None</p>'}`).join('\n')}
+</body>
+</html>
+`;
+};
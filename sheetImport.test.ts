@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { columnLabel, guessColumnMapping, looksLikeHeader, mapRequirementRows } from './sheetImport';
+
+describe('sheet import', () => {
+  it('labels columns like a spreadsheet', () => {
+    expect(columnLabel(0)).toBe('A');
+    expect(columnLabel(25)).toBe('Z');
+    expect(columnLabel(26)).toBe('AA');
+    expect(columnLabel(701)).toBe('ZZ');
+  });
+
+  it('maps columns from a recognisable header in any order', () => {
+    const header = ['Subnets', 'Site', 'Notes', 'Hosts'];
+    const mapping = guessColumnMapping(header);
+    expect(mapping).toEqual({ name: 1, hosts: 3, count: 0 });
+    expect(looksLikeHeader(header, mapping)).toBe(true);
+  });
+
+  it('falls back to name, hosts, count order without a header', () => {
+    const firstRow = ['LANs', '50', '2'];
+    const mapping = guessColumnMapping(firstRow);
+    expect(mapping).toEqual({ name: 0, hosts: 1, count: 2 });
+    expect(looksLikeHeader(firstRow, mapping)).toBe(false);
+    expect(guessColumnMapping(['LANs', '50']).count).toBeNull();
+  });
+
+  it('validates rows with the VLSM form rules', () => {
+    const rows = [
+      ['Name', 'Hosts', 'Count'],
+      ['LANs', '50', '2'],
+      ['', '10', '1'],
+      ['LANs', 'many', '0'],
+    ];
+    const preview = mapRequirementRows(rows, { name: 0, hosts: 1, count: 2 }, true);
+
+    expect(preview.map(r => r.rowNumber)).toEqual([2, 3, 4]);
+    expect(preview[0].errors).toEqual({});
+    expect(preview[0].group).toMatchObject({ name: 'LANs', hosts: '50', count: '2' });
+    expect(preview[1].errors).toEqual({ name: 'Name is required.' });
+    expect(preview[2].errors).toEqual({ name: 'Group names must be unique.', hosts: 'Must be > 0.', count: 'Must be > 0.' });
+  });
+
+  it('defaults the count to one when no column is mapped', () => {
+    const preview = mapRequirementRows([['Office', '25']], { name: 0, hosts: 1, count: null }, false);
+    expect(preview).toEqual([{ rowNumber: 1, group: { id: 'row-1', name: 'Office', hosts: '25', count: '1' }, errors: {} }]);
+  });
+});
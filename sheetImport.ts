@@ -0,0 +1,93 @@
+// Reads VLSM subnet group requirements from CSV/XLSX sheets. Parsing is done by the SheetJS
+// global loaded in index.html; mapping and validation are plain functions over the cell grid.
+import { SubnetGroupInput, validateSubnetGroups } from './vlsmGroups';
+import { SheetWorkbook } from './types';
+
+declare const XLSX: any;
+
+export type RequirementField = 'name' | 'hosts' | 'count';
+
+// Column index per field; count is optional and defaults to one subnet per row.
+export interface ColumnMapping {
+  name: number;
+  hosts: number;
+  count: number | null;
+}
+
+export interface RequirementRow {
+  // 1-based row number in the sheet, as shown by spreadsheet applications.
+  rowNumber: number;
+  group: SubnetGroupInput;
+  errors: Partial<Record<RequirementField, string>>;
+}
+
+const HEADER_PATTERNS: Record<RequirementField, RegExp> = {
+  name: /name|site|group|vlan|department|description/i,
+  hosts: /host|users|devices|size/i,
+  count: /count|qty|quantity|subnets|number/i,
+};
+
+export const readSheetFile = async (file: File): Promise<string[][]> => {
+  if (typeof XLSX === 'undefined') throw new Error("The spreadsheet library failed to load. Check your connection and reload the page.");
+  const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+  let workbook: SheetWorkbook;
+  try {
+    workbook = isCsv
+      ? XLSX.read(await file.text(), { type: 'string' })
+      : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  } catch {
+    throw new Error(`'${file.name}' could not be read as a CSV or Excel file.`);
+  }
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error(`'${file.name}' does not contain any sheets.`);
+  const cells: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '', blankrows: false });
+  const rows = cells.map(row => row.map(cell => String(cell ?? '').trim()));
+  if (rows.length === 0) throw new Error(`The first sheet of '${file.name}' is empty.`);
+  return rows;
+};
+
+// Spreadsheet-style column label: 0 -> A, 25 -> Z, 26 -> AA.
+export const columnLabel = (index: number): string => {
+  let label = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+};
+
+// A first row whose hosts cell is not a number is taken to be a header.
+export const looksLikeHeader = (row: string[], mapping: ColumnMapping): boolean =>
+  isNaN(parseInt(row[mapping.hosts] ?? '', 10));
+
+export const guessColumnMapping = (firstRow: string[]): ColumnMapping => {
+  const find = (field: RequirementField, taken: number[]) =>
+    firstRow.findIndex((cell, i) => !taken.includes(i) && HEADER_PATTERNS[field].test(cell));
+
+  const hosts = find('hosts', []);
+  const count = find('count', [hosts]);
+  const name = find('name', [hosts, count]);
+  if (hosts !== -1 && name !== -1) {
+    return { name, hosts, count: count === -1 ? null : count };
+  }
+  // No recognisable header: assume the documented name, hosts, count column order.
+  return { name: 0, hosts: Math.min(1, firstRow.length - 1), count: firstRow.length > 2 ? 2 : null };
+};
+
+export const mapRequirementRows = (rows: string[][], mapping: ColumnMapping, hasHeader: boolean): RequirementRow[] => {
+  const offset = hasHeader ? 1 : 0;
+  const groups: SubnetGroupInput[] = rows.slice(offset).map((row, i) => ({
+    id: `row-${i + offset + 1}`,
+    name: row[mapping.name] ?? '',
+    hosts: row[mapping.hosts] ?? '',
+    count: mapping.count === null ? '1' : row[mapping.count] ?? '',
+  }));
+  const errors = validateSubnetGroups(groups);
+  return groups.map((group, i) => {
+    const rowErrors: RequirementRow['errors'] = {};
+    for (const field of ['name', 'hosts', 'count'] as const) {
+      const message = errors[`${field}-${group.id}`];
+      if (message) rowErrors[field] = message;
+    }
+    return { rowNumber: i + offset + 1, group, errors: rowErrors };
+  });
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { SPECIAL_PURPOSE_BLOCKS, describeAddressSpace } from './specialPurpose';
+import { parseIpv4Range } from './ipv4';
+
+describe('describeAddressSpace', () => {
+  it.each([
+    ['10.20.0.0/16', 'private'],
+    ['172.31.255.0/24', 'private'],
+    ['192.168.1.0/24', 'private'],
+    ['100.64.0.0/16', 'shared'],
+    ['169.254.10.0/24', 'link-local'],
+    ['198.19.0.0/24', 'benchmarking'],
+    ['239.1.1.1', 'multicast'],
+  ])('tags %s as %s', (network, category) => {
+    expect(describeAddressSpace(network).category).toBe(category);
+  });
+
+  it('uses private and CGNAT space without warnings', () => {
+    expect(describeAddressSpace('10.0.0.0/8')).toEqual({ blocks: [SPECIAL_PURPOSE_BLOCKS[1]], publicAddresses: 0, category: 'private', warnings: [] });
+    expect(describeAddressSpace('100.127.0.0/16').warnings).toEqual([]);
+  });
+
+  it('warns about public space', () => {
+    expect(describeAddressSpace('8.8.8.0/24')).toEqual({
+      blocks: [], publicAddresses: 256, category: 'public',
+      warnings: ['8.8.8.0/24 is public address space. Use it only if it is assigned to your organization.'],
+    });
+  });
+
+  it('warns when a plan straddles a special-purpose block', () => {
+    const info = describeAddressSpace('172.0.0.0/8');
+    expect(info.category).toBe('mixed');
+    expect(info.publicAddresses).toBe(2 ** 24 - 2 ** 20);
+    expect(info.warnings).toEqual([
+      '172.0.0.0/8 includes 15,728,640 public addresses outside the special-purpose ranges.',
+      '172.0.0.0/8 straddles the Private-Use block 172.16.0.0/12 (RFC 1918): only part of it lies inside.',
+    ]);
+  });
+
+  it('explains space that should not carry hosts', () => {
+    expect(describeAddressSpace('192.0.2.0/25').warnings).toEqual(['192.0.2.0/24 is reserved for examples and documentation (RFC 5737).']);
+    expect(describeAddressSpace('224.0.0.0/24').warnings).toEqual(['224.0.0.0/4 holds multicast groups, not host addresses (RFC 5771).']);
+  });
+
+  it('prefers the innermost of nested blocks', () => {
+    expect(describeAddressSpace('255.255.255.255').category).toBe('broadcast');
+    expect(describeAddressSpace('255.255.255.0/24').category).toBe('mixed');
+    expect(describeAddressSpace('250.0.0.0/8').category).toBe('reserved');
+  });
+
+  it('keeps the registry in address order', () => {
+    const starts = SPECIAL_PURPOSE_BLOCKS.map(b => parseIpv4Range(b.prefix).start);
+    starts.slice(1).forEach((start, i) => expect(start).toBeGreaterThan(starts[i]));
+    expect(describeAddressSpace('0.0.0.0/0').blocks).toEqual(SPECIAL_PURPOSE_BLOCKS);
+  });
+});
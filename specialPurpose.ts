@@ -0,0 +1,108 @@
+// IANA IPv4 special-purpose address registry (RFC 6890 and the RFCs it lists), for tagging
+// networks as private, shared, documentation, etc. and warning about plans in unusual space.
+import { formatIpv4Range, parseIpv4Range } from './ipv4';
+import { AddressRange, countAddresses, normalizeRanges, subtractRanges } from './cidrSets';
+
+export type SpecialPurposeCategory =
+  | 'this-network' | 'private' | 'shared' | 'loopback' | 'link-local' | 'protocol'
+  | 'documentation' | 'relay' | 'benchmarking' | 'multicast' | 'reserved' | 'broadcast';
+
+export interface SpecialPurposeBlock {
+  prefix: string;
+  name: string;
+  category: SpecialPurposeCategory;
+  rfc: string;
+}
+
+export const SPECIAL_PURPOSE_BLOCKS: SpecialPurposeBlock[] = [
+  { prefix: '0.0.0.0/8', name: '"This network"', category: 'this-network', rfc: 'RFC 791' },
+  { prefix: '10.0.0.0/8', name: 'Private-Use', category: 'private', rfc: 'RFC 1918' },
+  { prefix: '100.64.0.0/10', name: 'Shared Address Space (CGNAT)', category: 'shared', rfc: 'RFC 6598' },
+  { prefix: '127.0.0.0/8', name: 'Loopback', category: 'loopback', rfc: 'RFC 1122' },
+  { prefix: '169.254.0.0/16', name: 'Link-Local', category: 'link-local', rfc: 'RFC 3927' },
+  { prefix: '172.16.0.0/12', name: 'Private-Use', category: 'private', rfc: 'RFC 1918' },
+  { prefix: '192.0.0.0/24', name: 'IETF Protocol Assignments', category: 'protocol', rfc: 'RFC 6890' },
+  { prefix: '192.0.2.0/24', name: 'Documentation (TEST-NET-1)', category: 'documentation', rfc: 'RFC 5737' },
+  { prefix: '192.88.99.0/24', name: '6to4 Relay Anycast', category: 'relay', rfc: 'RFC 7526' },
+  { prefix: '192.168.0.0/16', name: 'Private-Use', category: 'private', rfc: 'RFC 1918' },
+  { prefix: '198.18.0.0/15', name: 'Benchmarking', category: 'benchmarking', rfc: 'RFC 2544' },
+  { prefix: '198.51.100.0/24', name: 'Documentation (TEST-NET-2)', category: 'documentation', rfc: 'RFC 5737' },
+  { prefix: '203.0.113.0/24', name: 'Documentation (TEST-NET-3)', category: 'documentation', rfc: 'RFC 5737' },
+  { prefix: '224.0.0.0/4', name: 'Multicast', category: 'multicast', rfc: 'RFC 5771' },
+  { prefix: '240.0.0.0/4', name: 'Reserved', category: 'reserved', rfc: 'RFC 1112' },
+  { prefix: '255.255.255.255/32', name: 'Limited Broadcast', category: 'broadcast', rfc: 'RFC 919' },
+];
+
+export const SPECIAL_PURPOSE_LABELS: Record<SpecialPurposeCategory | 'public', string> = {
+  'this-network': 'This network',
+  'private': 'Private',
+  'shared': 'CGNAT shared',
+  'loopback': 'Loopback',
+  'link-local': 'Link-local',
+  'protocol': 'IETF protocol',
+  'documentation': 'Documentation',
+  'relay': '6to4 relay',
+  'benchmarking': 'Benchmarking',
+  'multicast': 'Multicast',
+  'reserved': 'Reserved',
+  'broadcast': 'Broadcast',
+  'public': 'Public',
+};
+
+// Space that cannot hold an ordinary subnet of hosts, or should not appear in a live network.
+const CATEGORY_WARNINGS: Partial<Record<SpecialPurposeCategory, string>> = {
+  'this-network': 'cannot be used as a source or destination on a network',
+  'loopback': 'never leaves the host it is used on',
+  'link-local': 'is only valid on a single link and is not routed',
+  'protocol': 'is assigned to specific IETF protocols',
+  'documentation': 'is reserved for examples and documentation',
+  'relay': 'is deprecated 6to4 relay space',
+  'benchmarking': 'is reserved for network benchmarking',
+  'multicast': 'holds multicast groups, not host addresses',
+  'reserved': 'is reserved for future use and not routed',
+  'broadcast': 'is the limited broadcast address',
+};
+
+const REGISTRY = SPECIAL_PURPOSE_BLOCKS.map(block => ({ block, range: parseIpv4Range(block.prefix) }));
+
+export interface AddressSpaceInfo {
+  // Special-purpose blocks sharing addresses with the network, in address order.
+  blocks: SpecialPurposeBlock[];
+  // Addresses of the network outside every special-purpose block.
+  publicAddresses: number;
+  // Single category of the whole network, or 'mixed' when it spans several.
+  category: SpecialPurposeCategory | 'public' | 'mixed';
+  warnings: string[];
+}
+
+// Classifies a network, range or address in any form parseIpv4Range accepts.
+export const describeAddressSpace = (network: string): AddressSpaceInfo => {
+  const range: AddressRange = parseIpv4Range(network);
+  const label = formatIpv4Range(range.start, range.end);
+  const matches = REGISTRY.filter(({ range: r }) => r.start <= range.end && range.start <= r.end);
+  const publicAddresses = countAddresses(subtractRanges([range], normalizeRanges(matches.map(m => m.range))));
+
+  const blocks = matches.map(m => m.block);
+  // Blocks may nest (the limited broadcast address is part of 240.0.0.0/4); the innermost block
+  // holding the whole network decides, unless another block lies inside the network.
+  const within = matches.filter(({ range: r }) => r.start <= range.start && range.end <= r.end);
+  const innermost = within.sort((a, b) => (a.range.end - a.range.start < b.range.end - b.range.start ? -1 : 1))[0];
+  const category = innermost
+    ? (within.length === matches.length ? innermost.block.category : 'mixed')
+    : (matches.length === 0 ? 'public' : 'mixed');
+
+  const warnings: string[] = [];
+  if (category === 'public') {
+    warnings.push(`${label} is public address space. Use it only if it is assigned to your organization.`);
+  } else if (publicAddresses > 0) {
+    warnings.push(`${label} includes ${publicAddresses.toLocaleString('en-US')} public addresses outside the special-purpose ranges.`);
+  }
+  for (const { block, range: r } of matches) {
+    if (range.start < r.start || range.end > r.end) {
+      warnings.push(`${label} straddles the ${block.name} block ${block.prefix} (${block.rfc}): only part of it lies inside.`);
+    }
+    const note = CATEGORY_WARNINGS[block.category];
+    if (note) warnings.push(`${block.prefix} ${note} (${block.rfc}).`);
+  }
+  return { blocks, publicAddresses, category, warnings };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { summarizeNetworks } from './summarization';
+import { bigIntToIp, blockSize, ipToBigInt } from './ipv4';
+
+const prefixes = (networks: string[], singleRoute = false) => summarizeNetworks({ networks, singleRoute });
+
+describe('summarizeNetworks', () => {
+  it('merges contiguous networks into the fewest prefixes', () => {
+    const result = prefixes(['192.168.0.0/24', '192.168.1.0/24', '192.168.2.0/23', '192.168.4.0/24']);
+    expect(result.aggregates.map(a => `${a.networkAddress}/${a.cidr}`)).toEqual(['192.168.0.0/22', '192.168.4.0/24']);
+    expect(result.aggregates[0]).toMatchObject({ subnetMask: '255.255.252.0', lastAddress: '192.168.3.255', addresses: 1024 });
+    expect(result.coveredAddresses).toBe(1280);
+  });
+
+  it('accepts masks, ranges and single addresses and counts overlaps once', () => {
+    const result = prefixes(['10.0.0.0 255.255.255.0', '10.0.0.128/255.255.255.128', '10.0.1.0 - 10.0.1.255', '10.0.2.0']);
+    expect(result.inputs.map(i => i.lastAddress)).toEqual(['10.0.0.255', '10.0.0.255', '10.0.1.255', '10.0.2.0']);
+    expect(result.aggregates.map(a => `${a.networkAddress}/${a.cidr}`)).toEqual(['10.0.0.0/23', '10.0.2.0/32']);
+    expect(result.coveredAddresses).toBe(513);
+  });
+
+  it('reports how much a single summary route over-covers', () => {
+    const result = prefixes(['10.1.0.0/24', '10.1.3.0/24'], true);
+    expect(result.summaryRoute).toMatchObject({ networkAddress: '10.1.0.0', cidr: 22, extraAddresses: 512 });
+    expect(prefixes(['10.1.0.0/24', '10.1.1.0/24'], true).summaryRoute).toMatchObject({ cidr: 23, extraAddresses: 0 });
+    expect(prefixes(['10.1.0.0/24']).summaryRoute).toBeUndefined();
+    expect(prefixes(['0.0.0.1', '255.255.255.255'], true).summaryRoute).toMatchObject({ networkAddress: '0.0.0.0', cidr: 0, extraAddresses: 2 ** 32 - 2 });
+  });
+
+  it('names the entry that cannot be parsed', () => {
+    expect(() => prefixes([' '])).toThrow('Please enter at least one network to summarize.');
+    expect(() => prefixes(['10.0.0.0/24', '10.0.1.5/24'])).toThrow('Network 2 (10.0.1.5/24): 10.0.1.5/24 is not a network address. Did you mean 10.0.1.0/24?');
+  });
+
+  it('covers exactly the input addresses with aligned, unmergeable prefixes', () => {
+    const blockArbitrary = fc.tuple(fc.integer({ min: 0, max: 1023 }), fc.integer({ min: 22, max: 32 }))
+      .map(([offset, cidr]) => {
+        const size = blockSize(cidr);
+        const start = ((ipToBigInt('10.0.0.0') + BigInt(offset) * 4n) / size) * size;
+        return { start, end: start + size - 1n, text: `${bigIntToIp(start)}/${cidr}` };
+      });
+    fc.assert(fc.property(fc.array(blockArbitrary, { minLength: 1, maxLength: 12 }), (blocks) => {
+      const result = prefixes(blocks.map(b => b.text), true);
+      const covered = new Set<bigint>();
+      blocks.forEach(b => { for (let a = b.start; a <= b.end; a++) covered.add(a); });
+
+      let total = 0n;
+      result.aggregates.forEach((a, i) => {
+        const start = ipToBigInt(a.networkAddress);
+        const size = blockSize(a.cidr);
+        expect(start % size).toBe(0n);
+        for (let addr = start; addr < start + size; addr++) expect(covered.has(addr)).toBe(true);
+        total += size;
+        const next = result.aggregates[i + 1];
+        if (next) {
+          // Equal-sized neighbours that form an aligned pair would merge into one shorter prefix.
+          const nextStart = ipToBigInt(next.networkAddress);
+          expect(nextStart >= start + size).toBe(true);
+          const pairs = next.cidr === a.cidr && nextStart === start + size && start % (size * 2n) === 0n;
+          expect(pairs).toBe(false);
+        }
+      });
+      expect(total).toBe(BigInt(covered.size));
+      expect(result.coveredAddresses).toBe(covered.size);
+      expect(result.summaryRoute!.extraAddresses).toBe(result.summaryRoute!.addresses - covered.size);
+    }));
+  });
+});
@@ -0,0 +1,47 @@
+// Route summarization (supernetting): the reverse of subnetting, merging a list of networks into
+// the fewest prefixes that cover exactly the same addresses.
+import { SummarizationPayload, SummarizationResult, SummaryPrefix } from './types';
+import { IPV4_BITS, bigIntToIp, blockSize, networkAddress, prefixToMask, rangeToCidrs } from './ipv4';
+import { countAddresses, normalizeRanges, parseNetworkEntry } from './cidrSets';
+
+const toPrefix = (network: bigint, cidr: number): SummaryPrefix => ({
+  networkAddress: bigIntToIp(network),
+  cidr,
+  subnetMask: bigIntToIp(prefixToMask(cidr)),
+  lastAddress: bigIntToIp(network + blockSize(cidr) - 1n),
+  addresses: Number(blockSize(cidr)),
+});
+
+export const summarizeNetworks = (payload: SummarizationPayload): SummarizationResult => {
+  const entries = payload.networks.map(entry => entry.trim()).filter(entry => entry.length > 0);
+  if (entries.length === 0) {
+    throw new Error("Please enter at least one network to summarize.");
+  }
+
+  const ranges = entries.map((entry, i) => {
+    try {
+      return { entry, ...parseNetworkEntry(entry) };
+    } catch (e) {
+      throw new Error(`Network ${i + 1} (${entry}): ${(e as Error).message}`);
+    }
+  });
+
+  // Overlapping and adjacent ranges merge into runs; each run splits into aligned blocks.
+  const runs = normalizeRanges(ranges);
+  const covered = countAddresses(runs);
+
+  const result: SummarizationResult = {
+    inputs: ranges.map(({ entry, start, end }) => ({ entry, firstAddress: bigIntToIp(start), lastAddress: bigIntToIp(end) })),
+    aggregates: runs.flatMap(run => rangeToCidrs(run.start, run.end)).map(({ network, cidr }) => toPrefix(network, cidr)),
+    coveredAddresses: covered,
+  };
+
+  if (payload.singleRoute) {
+    const first = runs[0].start;
+    const last = runs[runs.length - 1].end;
+    let cidr = IPV4_BITS;
+    while (networkAddress(first, cidr) + blockSize(cidr) - 1n < last) cidr--;
+    result.summaryRoute = { ...toPrefix(networkAddress(first, cidr), cidr), extraAddresses: Number(blockSize(cidr)) - covered };
+  }
+  return result;
+};
@@ -4,12 +4,27 @@ export enum CalculationMode {
   MASK = 'mask',
 }
 
+export enum AddressFamily {
+  IPV4 = 'ipv4',
+  IPV6 = 'ipv6',
+}
+
+export enum AddressingMode {
+  CLASSLESS = 'classless',
+  CLASSFUL = 'classful',
+}
+
 export interface CalculationPayload {
   calculationMode: CalculationMode;
+  addressingMode: AddressingMode;
   ipAddress: string;
+  // Parent prefix length the subnets are carved from; required in classless mode.
+  parentCidr?: number;
   requiredSubnets?: number;
   requiredHosts?: number;
   mask?: string;
+  // Lets subnets shrink to /31 point-to-point links and /32 host routes, using every address.
+  pointToPoint?: boolean;
 }
 
 export interface Subnet {
@@ -19,36 +34,88 @@ export interface Subnet {
   broadcastAddress: string;
 }
 
+// Layout of an equal split; its subnets are generated by index (see standardSubnetPage), since a
+// split can have billions of them.
 export interface CalculationResult {
   subnetMask: string;
   cidr: number;
   totalSubnets: number;
   hostsPerSubnet: number;
-  subnets: Subnet[];
+  // Set when /31 and /32 subnets use every address.
+  pointToPoint?: boolean;
   ipClass: string;
   defaultMask: string;
+  addressingMode: AddressingMode;
+  parentNetwork: string;
+  parentMask: string;
 }
 
 
 // VLSM Types
+// What a VLSM subnet is for: a LAN loses its network and broadcast addresses, a point-to-point
+// link is a /31 with both addresses usable (RFC 3021) and a loopback a /32 host route.
+export type SubnetKind = 'lan' | 'p2p' | 'loopback';
+
 export interface VlsmSubnetRequest {
   id: string;
   name: string;
+  // Ignored (0) for containers.
   hosts: number;
   count: number;
+  // Headroom in percent added to `hosts` before the prefix is chosen, e.g. 50 for +50%.
+  // For a container it pads the space its children need.
+  growth?: number;
+  // Defaults to 'lan'. Point-to-point links and loopbacks have a fixed size and no growth.
+  kind?: SubnetKind;
+  // Makes the group a container, e.g. a site: each of its `count` blocks is sized to fit one
+  // copy of these groups, which are allocated inside it.
+  children?: VlsmSubnetRequest[];
+}
+
+// How the allocator orders and places subnets:
+// - largest-first: biggest subnets first, each in the lowest free aligned block (tightest packing)
+// - input-order: subnets in the order they were entered, each in the lowest free aligned block
+// - best-fit: biggest first, each in the smallest free gap it fits, keeping large gaps intact
+// - spread: biggest first, each with its adjacent block left free so it can double later
+export type VlsmAllocationStrategy = 'largest-first' | 'input-order' | 'best-fit' | 'spread';
+
+// Address space inside the base network that is already in use and must not be allocated.
+export interface VlsmReservation {
+  name: string;
+  // CIDR block ("10.0.4.0/22"), inclusive range ("10.0.8.10 - 10.0.8.40") or single address.
+  range: string;
+}
+
+// Block of an earlier plan that keeps its address when the plan is recalculated.
+export interface VlsmLockedBlock {
+  // Name path of the subnet or container, e.g. "Site 1 / Users 2"; blocks are matched by it.
+  path: string;
+  // CIDR block it was allocated, e.g. "10.0.1.0/25".
+  network: string;
 }
 
 export interface VlsmCalculationPayload {
   ipAddress: string;
   cidr: number;
   subnets: VlsmSubnetRequest[];
+  reservations?: VlsmReservation[];
+  // Defaults to 'largest-first'.
+  strategy?: VlsmAllocationStrategy;
+  // Allocations of a previous run to keep in place; only new or enlarged blocks are placed.
+  locked?: VlsmLockedBlock[];
 }
 
 export interface VlsmSubnetResult {
   id: string;
   name: string;
+  // Container block the subnet was allocated in; absent at the top level.
+  parentId?: string;
   requiredHosts: number;
+  // Required hosts including the group's growth headroom; absent when the group has none.
+  plannedHosts?: number;
   allocatedHosts: number;
+  // Set for point-to-point links and loopbacks; absent for LANs.
+  kind?: Exclude<SubnetKind, 'lan'>;
   networkAddress: string;
   cidr: number;
   subnetMask: string;
@@ -56,8 +123,31 @@ export interface VlsmSubnetResult {
   broadcastAddress: string;
 }
 
+export interface ReservedRange {
+    name: string;
+    // Normalized form of the reservation: CIDR when it is a single aligned block.
+    range: string;
+    firstAddress: string;
+    lastAddress: string;
+    size: string;
+}
+
+// Block allocated for a container group of a hierarchical plan; its subnets and nested
+// containers point back to it through `parentId`.
+export interface VlsmContainerResult {
+  id: string;
+  name: string;
+  parentId?: string;
+  networkAddress: string;
+  cidr: number;
+  subnetMask: string;
+  lastAddress: string;
+}
+
+// One aligned block of free space; a gap between allocations is reported as several of these.
 export interface UnallocatedRange {
     networkAddress: string;
+    cidr: number;
     size: string;
     usableHostRange: string;
 }
@@ -67,7 +157,242 @@ export interface VlsmCalculationResult {
   totalHostsInBlock: number;
   totalRequiredHosts: number;
   totalAllocatedHosts: number;
+  // Leaf subnets of the plan, including those nested in containers.
   allocatedSubnets: VlsmSubnetResult[];
+  // Present only for hierarchical plans.
+  containers?: VlsmContainerResult[];
+  // Absent in results saved before reservations were supported.
+  reservedRanges?: ReservedRange[];
   unallocatedRanges: UnallocatedRange[];
   efficiency: number;
-}
\ No newline at end of file
+  // Absent in results saved before allocation strategies were supported.
+  strategy?: VlsmAllocationStrategy;
+  // Share of the free space outside the largest free block, in percent: 0 when all free
+  // space is one block, approaching 100 as it splinters into small blocks.
+  fragmentation?: number;
+}
+
+// IPv6 Types
+export interface Ipv6CalculationPayload {
+  calculationMode: CalculationMode.SUBNETS | CalculationMode.MASK;
+  ipAddress: string;
+  parentCidr: number;
+  requiredSubnets?: number;
+  // Round the subnet bits up to a multiple of four so every prefix ends on a hex digit.
+  nibbleAligned?: boolean;
+  mask?: string;
+}
+
+export interface Ipv6CalculationResult {
+  parentNetwork: string;
+  cidr: number;
+  totalSubnets: number;
+  addressesPerSubnet: string;
+  // networkAddress is the compressed prefix, usableHostRange the full first-last span.
+  subnets: Subnet[];
+}
+
+export interface Ipv6VlsmSubnetRequest {
+  id: string;
+  name: string;
+  prefixLength: number;
+  count: number;
+}
+
+export interface Ipv6VlsmCalculationPayload {
+  ipAddress: string;
+  cidr: number;
+  subnets: Ipv6VlsmSubnetRequest[];
+}
+
+export interface Ipv6VlsmSubnetResult {
+  id: string;
+  name: string;
+  networkAddress: string;
+  cidr: number;
+  firstAddress: string;
+  lastAddress: string;
+  addresses: string;
+}
+
+export interface Ipv6VlsmCalculationResult {
+  baseNetwork: string;
+  totalAddressesInBlock: string;
+  totalAllocatedAddresses: string;
+  allocatedSubnets: Ipv6VlsmSubnetResult[];
+  unallocatedRanges: UnallocatedRange[];
+  utilization: number;
+}
+
+export interface SummarizationPayload {
+  // One network per entry: CIDR ("10.0.4.0/22"), address and mask ("10.0.4.0 255.255.252.0"),
+  // an inclusive range ("10.0.4.0 - 10.0.7.255") or a single address.
+  networks: string[];
+  // Also compute the one prefix covering all networks.
+  singleRoute?: boolean;
+}
+
+export interface SummaryPrefix {
+  networkAddress: string;
+  cidr: number;
+  subnetMask: string;
+  lastAddress: string;
+  addresses: number;
+}
+
+export interface SummarizedNetwork {
+  entry: string;
+  firstAddress: string;
+  lastAddress: string;
+}
+
+export interface SummarizationResult {
+  inputs: SummarizedNetwork[];
+  // The fewest prefixes covering exactly the addresses of the inputs, in address order.
+  aggregates: SummaryPrefix[];
+  // Distinct addresses covered by the inputs; overlaps are counted once.
+  coveredAddresses: number;
+  // Present when a single summary route was requested. `extraAddresses` it covers beyond the inputs.
+  summaryRoute?: SummaryPrefix & { extraAddresses: number };
+}
+
+export type CidrSetOperation = 'ranges' | 'union' | 'intersection' | 'difference';
+
+export interface CidrSetPayload {
+  // 'ranges' converts list A alone into prefixes; the others combine lists A and B.
+  operation: CidrSetOperation;
+  // Networks or ranges in any form the summarization tool accepts.
+  listA: string[];
+  listB: string[];
+}
+
+// A prefix of a set result; rows also fit ResultsTable.
+export interface CidrSetPrefix extends Subnet {
+  cidr: number;
+  subnetMask: string;
+  addresses: number;
+}
+
+export interface CidrSetResult {
+  operation: CidrSetOperation;
+  prefixes: CidrSetPrefix[];
+  totalAddresses: number;
+  addressesA: number;
+  // Absent for 'ranges'.
+  addressesB?: number;
+}
+
+export interface AuditSubnetInput {
+  name: string;
+  // A block in CIDR or mask notation (host bits allowed, they are reported), or an inclusive range.
+  network: string;
+}
+
+export interface AuditPayload {
+  subnets: AuditSubnetInput[];
+}
+
+export type AuditIssueKind = 'invalid' | 'host-address' | 'misaligned' | 'duplicate' | 'duplicate-name' | 'overlap' | 'containment';
+
+export interface AuditIssue {
+  kind: AuditIssueKind;
+  severity: 'error' | 'warning';
+  // Indexes into AuditResult.subnets; for containment the outer block comes first.
+  subnets: number[];
+  message: string;
+  // The network address the entry most likely meant, for host-address and misaligned entries.
+  suggestion?: string;
+}
+
+export interface AuditedSubnet {
+  index: number;
+  name: string;
+  entered: string;
+  status: 'ok' | 'warning' | 'error';
+  // The rest is absent when the entry could not be parsed. A block entered with host bits is
+  // audited as the block containing it.
+  block?: string;
+  firstAddress?: string;
+  lastAddress?: string;
+  addresses?: number;
+  // The smallest other entry containing this one.
+  parentIndex?: number;
+}
+
+export interface AuditResult {
+  subnets: AuditedSubnet[];
+  issues: AuditIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Worker message protocol
+export type WorkerRequest =
+  | { calculator: 'standard'; payload: CalculationPayload }
+  | { calculator: 'vlsm'; payload: VlsmCalculationPayload }
+  | { calculator: 'standard6'; payload: Ipv6CalculationPayload }
+  | { calculator: 'vlsm6'; payload: Ipv6VlsmCalculationPayload }
+  | { calculator: 'summarize'; payload: SummarizationPayload }
+  | { calculator: 'cidrset'; payload: CidrSetPayload }
+  | { calculator: 'audit'; payload: AuditPayload };
+
+// Subnets `offset` to `offset + limit - 1` (0-based) of a standard result, served by the worker on demand.
+export interface SubnetPagePayload {
+  result: CalculationResult;
+  offset: number;
+  limit: number;
+}
+
+export interface SubnetPage {
+  offset: number;
+  subnets: Subnet[];
+}
+
+// Jobs the worker runs: calculations, and pages of a standard result already on screen.
+export type WorkerMessage = WorkerRequest | { calculator: 'subnet-page'; payload: SubnetPagePayload };
+
+export type CalculationResultUnion =
+  | CalculationResult
+  | VlsmCalculationResult
+  | Ipv6CalculationResult
+  | Ipv6VlsmCalculationResult
+  | SummarizationResult
+  | CidrSetResult
+  | AuditResult;
+
+export interface CalculationProgress {
+  // What `done` counts, e.g. "subnets generated".
+  label: string;
+  done: number;
+  total: number;
+}
+
+export type ProgressCallback = (progress: CalculationProgress) => void;
+
+// Commands to the worker. Every job carries an id that the events about it repeat.
+export type WorkerCommand =
+  | { type: 'run'; id: number; job: WorkerMessage }
+  | { type: 'cancel'; id: number };
+
+export type WorkerEvent =
+  // `partial` holds the subnets generated since the previous event, for jobs that stream them.
+  | { type: 'progress'; id: number; progress: CalculationProgress; partial?: Subnet[] }
+  | { type: 'result'; id: number; result: CalculationResultUnion | SubnetPage }
+  | { type: 'error'; id: number; error: string }
+  | { type: 'cancelled'; id: number };
+
+// A result on screen together with the inputs behind it, as handed to the exporters.
+export type ExportSource =
+  | { calculator: 'standard'; payload: CalculationPayload; result: CalculationResult }
+  | { calculator: 'vlsm'; payload: VlsmCalculationPayload; result: VlsmCalculationResult }
+  | { calculator: 'standard6'; payload: Ipv6CalculationPayload; result: Ipv6CalculationResult }
+  | { calculator: 'vlsm6'; payload: Ipv6VlsmCalculationPayload; result: Ipv6VlsmCalculationResult }
+  | { calculator: 'summarize'; payload: SummarizationPayload; result: SummarizationResult }
+  | { calculator: 'cidrset'; payload: CidrSetPayload; result: CidrSetResult }
+  | { calculator: 'audit'; payload: AuditPayload; result: AuditResult };
+
+// The part of a SheetJS workbook the app reads; the library itself is an untyped CDN global.
+export interface SheetWorkbook {
+  SheetNames: string[];
+  Sheets: Record<string, unknown>;
+}
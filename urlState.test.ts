@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { decodeRequest, encodeRequest } from './urlState';
+import { AddressingMode, CalculationMode, WorkerRequest } from './types';
+
+describe('URL state', () => {
+  it('encodes VLSM groups readably', () => {
+    const request: WorkerRequest = {
+      calculator: 'vlsm',
+      payload: {
+        ipAddress: '10.0.0.0',
+        cidr: 22,
+        subnets: [
+          { id: 'group-0', name: 'LANs', hosts: 50, count: 2 },
+          { id: 'group-1', name: 'Offices & Labs', hosts: 25, count: 3 },
+          { id: 'group-2', name: 'WAN: core', hosts: 2, count: 4 },
+        ],
+      },
+    };
+    const hash = encodeRequest(request);
+    expect(hash).toBe('calc=vlsm&net=10.0.0.0%2F22&g=2x50%3ALANs&g=3x25%3AOffices+%26+Labs&g=4x2%3AWAN%3A+core');
+    expect(decodeRequest(`#${hash}`)).toEqual(request);
+  });
+
+  it('encodes growth headroom and the allocation strategy', () => {
+    const request: WorkerRequest = {
+      calculator: 'vlsm',
+      payload: { ipAddress: '10.0.0.0', cidr: 22, subnets: [{ id: 'group-0', name: 'LANs', hosts: 50, count: 2, growth: 25 }], strategy: 'best-fit' },
+    };
+    const hash = encodeRequest(request);
+    expect(hash).toBe('calc=vlsm&net=10.0.0.0%2F22&g=2x50%2B25%3ALANs&strategy=best-fit');
+    expect(decodeRequest(`#${hash}`)).toEqual(request);
+  });
+
+  it('encodes point-to-point links, loopbacks and the point-to-point option', () => {
+    const vlsm: WorkerRequest = {
+      calculator: 'vlsm',
+      payload: {
+        ipAddress: '10.0.0.0',
+        cidr: 24,
+        subnets: [
+          { id: 'group-0', name: 'Links', hosts: 2, count: 4, kind: 'p2p' },
+          { id: 'group-1', name: 'Loopbacks', hosts: 1, count: 2, kind: 'loopback' },
+          { id: 'group-2', name: 'Printers', hosts: 2, count: 1 },
+        ],
+      },
+    };
+    expect(encodeRequest(vlsm)).toBe('calc=vlsm&net=10.0.0.0%2F24&g=4xp2p%3ALinks&g=2xloopback%3ALoopbacks&g=1x2%3APrinters');
+    expect(decodeRequest(encodeRequest(vlsm))).toEqual(vlsm);
+    expect(decodeRequest('calc=vlsm6&net=2001:db8::/48&g=4xp2p:Links')).toBeNull();
+
+    const standard: WorkerRequest = {
+      calculator: 'standard',
+      payload: { calculationMode: CalculationMode.MASK, addressingMode: AddressingMode.CLASSLESS, ipAddress: '10.0.0.0', parentCidr: 24, mask: '/31', pointToPoint: true },
+    };
+    expect(decodeRequest(encodeRequest(standard))).toEqual(standard);
+  });
+
+  it('encodes locked allocations', () => {
+    const request: WorkerRequest = {
+      calculator: 'vlsm',
+      payload: {
+        ipAddress: '10.0.0.0',
+        cidr: 24,
+        subnets: [{ id: 'group-0', name: 'LANs', hosts: 50, count: 2 }],
+        locked: [{ path: 'LANs 1', network: '10.0.0.0/26' }, { path: 'Site: A / Users', network: '10.0.0.64/26' }],
+      },
+    };
+    const hash = encodeRequest(request);
+    expect(hash).toBe('calc=vlsm&net=10.0.0.0%2F24&g=2x50%3ALANs&l=10.0.0.0%2F26%3ALANs+1&l=10.0.0.64%2F26%3ASite%3A+A+%2F+Users');
+    expect(decodeRequest(hash)).toEqual(request);
+  });
+
+  it('encodes nested VLSM groups depth first', () => {
+    const request: WorkerRequest = {
+      calculator: 'vlsm',
+      payload: {
+        ipAddress: '10.0.0.0',
+        cidr: 16,
+        subnets: [
+          {
+            id: 'group-0', name: 'Site', hosts: 0, count: 2, growth: 25, children: [
+              { id: 'group-0', name: 'Floor', hosts: 0, count: 3, children: [{ id: 'group-0', name: 'Users', hosts: 50, count: 1 }] },
+              { id: 'group-1', name: 'Mgmt', hosts: 10, count: 1 },
+            ],
+          },
+          { id: 'group-1', name: 'WAN', hosts: 2, count: 4 },
+        ],
+      },
+    };
+    const hash = encodeRequest(request);
+    expect(new URLSearchParams(hash).getAll('g')).toEqual(['2x*+25:Site', '>3x*:Floor', '>>1x50:Users', '>1x10:Mgmt', '4x2:WAN']);
+    expect(decodeRequest(`#${hash}`)).toEqual(request);
+  });
+
+  it.each<WorkerRequest>([
+    { calculator: 'standard', payload: { calculationMode: CalculationMode.SUBNETS, addressingMode: AddressingMode.CLASSLESS, ipAddress: '10.20.0.0', parentCidr: 20, requiredSubnets: 8 } },
+    { calculator: 'standard', payload: { calculationMode: CalculationMode.MASK, addressingMode: AddressingMode.CLASSFUL, ipAddress: '192.168.1.0', mask: '255.255.255.192' } },
+    { calculator: 'standard6', payload: { calculationMode: CalculationMode.SUBNETS, ipAddress: '2001:db8::', parentCidr: 48, requiredSubnets: 20, nibbleAligned: true } },
+    { calculator: 'vlsm', payload: { ipAddress: '10.0.0.0', cidr: 16, subnets: [{ id: 'group-0', name: 'LANs', hosts: 200, count: 4 }], reservations: [{ name: 'DC: core', range: '10.0.0.0 - 10.0.3.255' }] } },
+    { calculator: 'vlsm', payload: { ipAddress: '10.0.0.0', cidr: 20, subnets: [{ id: 'group-0', name: 'LANs', hosts: 100, count: 2, growth: 50 }, { id: 'group-1', name: 'WAN', hosts: 2, count: 1 }], strategy: 'spread' } },
+    { calculator: 'vlsm6', payload: { ipAddress: '2001:db8::', cidr: 48, subnets: [{ id: 'group-0', name: 'Sites', prefixLength: 56, count: 4 }] } },
+    { calculator: 'summarize', payload: { networks: ['10.0.0.0/24', '10.0.1.0 255.255.255.0', '10.0.2.0 - 10.0.2.9'], singleRoute: true } },
+    { calculator: 'cidrset', payload: { operation: 'difference', listA: ['10.0.0.0/16'], listB: ['10.0.1.0/24', '10.0.4.5 - 10.0.4.9'] } },
+    { calculator: 'audit', payload: { subnets: [{ name: 'Site A / Users', network: '10.0.0.1/24' }, { name: '', network: '10.0.1.0 - 10.0.1.9' }] } },
+  ])('round-trips a $calculator calculation', (request) => {
+    const decoded = decodeRequest(encodeRequest(request));
+    expect(decoded?.calculator).toBe(request.calculator);
+    expect(decoded?.payload).toMatchObject(request.payload);
+  });
+
+  it.each(['', '#', '#calc=vlsm&net=10.0.0.0/22', '#calc=vlsm&net=10.0.0.0/22&g=bad', '#calc=vlsm&net=10.0.0.0/22&g=1x5:A&r=noname', '#calc=vlsm&net=10.0.0.0/22&g=1x5:A&strategy=random', '#calc=vlsm&net=10.0.0.0/22&g=1x*:A', '#calc=vlsm&net=10.0.0.0/22&g=1x5:A&g=>>1x5:B', '#calc=vlsm6&net=2001:db8::/48&g=1x*:A', '#calc=summarize', '#calc=cidrset&op=xor&a=10.0.0.0/8', '#calc=audit', '#calc=audit&s=10.0.0.0/24', '#calc=standard&net=10.0.0.0/8&mode=nope', '#calc=other&net=1.2.3.4/8'])(
+    'ignores malformed hash %s',
+    (hash) => {
+      expect(decodeRequest(hash)).toBeNull();
+    },
+  );
+});
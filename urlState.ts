@@ -0,0 +1,223 @@
+import { AddressingMode, CalculationMode, CidrSetOperation, VlsmAllocationStrategy, VlsmSubnetRequest, WorkerRequest } from './types';
+import { FIXED_KIND_HOSTS, VLSM_ALLOCATION_STRATEGIES } from './calculations';
+import { CIDR_SET_OPERATIONS } from './cidrSets';
+
+// Calculations are kept in the URL hash as readable query parameters, e.g.
+//   #calc=vlsm&net=10.0.0.0/22&g=2x50:LANs&g=3x25:Offices&g=4x2:WAN
+// Groups are encoded as "<count>x<hosts or prefix length>:<name>", with "+<growth %>" after the
+// hosts when a VLSM group has headroom; VLSM reservations as "r=<cidr or first-last>:<name>".
+// VLSM point-to-point links and loopbacks have "p2p" or "loopback" instead of the hosts, e.g. g=4xp2p:WAN.
+// Hierarchical VLSM plans list groups depth first: a container has "*" for its hosts and each of
+// its sub-groups follows it with one more leading ">", e.g. g=2x*:Site&g=>4x50:VLAN.
+// Route summarization lists its networks as "n=" parameters instead of a single "net", and CIDR set
+// operations their two lists as "a=" and "b=" with the operation in "op". Audited subnets are
+// "s=<network>:<name>" parameters, in the same form as reservations.
+
+const encodeGroup = (count: number, size: number | '*' | 'p2p' | 'loopback', name: string, growth?: number, depth = 0) =>
+  `${'>'.repeat(depth)}${count}x${size}${growth ? `+${growth}` : ''}:${name}`;
+
+const encodeVlsmGroups = (groups: VlsmSubnetRequest[], depth = 0): string[] =>
+  groups.flatMap(g => (g.children?.length
+    ? [encodeGroup(g.count, '*', g.name, g.growth, depth), ...encodeVlsmGroups(g.children, depth + 1)]
+    : [encodeGroup(g.count, g.kind && g.kind !== 'lan' ? g.kind : g.hosts, g.name, g.growth, depth)]));
+
+const decodeGroup = (value: string) => {
+  const match = /^(>*)(\d+)x(\d+|\*|p2p|loopback)(?:\+(\d+(?:\.\d+)?))?:(.+)$/.exec(value);
+  if (!match) return null;
+  const size = match[3];
+  const kind: 'p2p' | 'loopback' | undefined = size === 'p2p' || size === 'loopback' ? size : undefined;
+  return {
+    depth: match[1].length,
+    count: parseInt(match[2], 10),
+    // null for containers.
+    size: size === '*' ? null : kind ? FIXED_KIND_HOSTS[kind] : parseInt(size, 10),
+    ...(kind ? { kind } : {}),
+    ...(match[4] !== undefined ? { growth: Number(match[4]) } : {}),
+    name: match[5],
+  };
+};
+
+// Rebuilds the group tree; null when the nesting is inconsistent.
+const decodeVlsmGroups = (groups: NonNullable<ReturnType<typeof decodeGroup>>[]): VlsmSubnetRequest[] | null => {
+  const roots: VlsmSubnetRequest[] = [];
+  // stack[d] holds the sibling list that groups at depth d are appended to.
+  const stack: VlsmSubnetRequest[][] = [roots];
+  for (const g of groups) {
+    if (g.depth >= stack.length) return null;
+    stack.length = g.depth + 1;
+    const siblings = stack[g.depth];
+    const group: VlsmSubnetRequest = {
+      id: `group-${siblings.length}`, name: g.name, hosts: g.size ?? 0, count: g.count, ...(g.growth ? { growth: g.growth } : {}), ...(g.kind ? { kind: g.kind } : {}),
+    };
+    siblings.push(group);
+    if (g.size === null) {
+      group.children = [];
+      stack.push(group.children);
+    }
+  }
+  const complete = (list: VlsmSubnetRequest[]): boolean => list.every(g => !g.children || (g.children.length > 0 && complete(g.children)));
+  return complete(roots) ? roots : null;
+};
+
+const decodeReservation = (value: string) => {
+  const colon = value.indexOf(':');
+  if (colon <= 0) return null;
+  return { range: value.slice(0, colon), name: value.slice(colon + 1) };
+};
+
+const splitNetwork = (value: string | null) => {
+  if (!value) return null;
+  const slash = value.lastIndexOf('/');
+  if (slash === -1) return { ipAddress: value };
+  const cidr = Number(value.slice(slash + 1));
+  if (!Number.isInteger(cidr)) return null;
+  return { ipAddress: value.slice(0, slash), cidr };
+};
+
+const optionalNumber = (value: string | null) => {
+  if (value === null || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+};
+
+export const encodeRequest = (request: WorkerRequest): string => {
+  const params = new URLSearchParams();
+  params.set('calc', request.calculator);
+
+  if (request.calculator === 'standard') {
+    const { payload } = request;
+    params.set('mode', payload.calculationMode);
+    params.set('addressing', payload.addressingMode);
+    params.set('net', payload.parentCidr === undefined ? payload.ipAddress : `${payload.ipAddress}/${payload.parentCidr}`);
+    if (payload.requiredSubnets !== undefined) params.set('subnets', String(payload.requiredSubnets));
+    if (payload.requiredHosts !== undefined) params.set('hosts', String(payload.requiredHosts));
+    if (payload.mask !== undefined) params.set('mask', payload.mask);
+    if (payload.pointToPoint) params.set('p2p', '1');
+  } else if (request.calculator === 'vlsm') {
+    const { payload } = request;
+    params.set('net', `${payload.ipAddress}/${payload.cidr}`);
+    encodeVlsmGroups(payload.subnets).forEach(g => params.append('g', g));
+    payload.reservations?.forEach(r => params.append('r', `${r.range}:${r.name}`));
+    if (payload.strategy) params.set('strategy', payload.strategy);
+    payload.locked?.forEach(l => params.append('l', `${l.network}:${l.path}`));
+  } else if (request.calculator === 'standard6') {
+    const { payload } = request;
+    params.set('mode', payload.calculationMode);
+    params.set('net', `${payload.ipAddress}/${payload.parentCidr}`);
+    if (payload.requiredSubnets !== undefined) params.set('subnets', String(payload.requiredSubnets));
+    if (payload.nibbleAligned) params.set('nibble', '1');
+    if (payload.mask !== undefined) params.set('mask', payload.mask);
+  } else if (request.calculator === 'vlsm6') {
+    const { payload } = request;
+    params.set('net', `${payload.ipAddress}/${payload.cidr}`);
+    payload.subnets.forEach(g => params.append('g', encodeGroup(g.count, g.prefixLength, g.name)));
+  } else if (request.calculator === 'summarize') {
+    const { payload } = request;
+    payload.networks.forEach(n => params.append('n', n));
+    if (payload.singleRoute) params.set('single', '1');
+  } else if (request.calculator === 'cidrset') {
+    const { payload } = request;
+    params.set('op', payload.operation);
+    payload.listA.forEach(n => params.append('a', n));
+    payload.listB.forEach(n => params.append('b', n));
+  } else {
+    request.payload.subnets.forEach(s => params.append('s', `${s.network}:${s.name}`));
+  }
+
+  return params.toString();
+};
+
+// Returns null for anything that is not a well-formed calculation; semantic validation is left to the calculators.
+export const decodeRequest = (hash: string): WorkerRequest | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const calculator = params.get('calc');
+  if (calculator === 'summarize') {
+    const networks = params.getAll('n');
+    if (networks.length === 0) return null;
+    return { calculator, payload: { networks, ...(params.get('single') === '1' ? { singleRoute: true } : {}) } };
+  }
+  if (calculator === 'cidrset') {
+    const operation = params.get('op') as CidrSetOperation;
+    const listA = params.getAll('a');
+    if (!CIDR_SET_OPERATIONS.includes(operation) || listA.length === 0) return null;
+    return { calculator, payload: { operation, listA, listB: params.getAll('b') } };
+  }
+  if (calculator === 'audit') {
+    const subnets = params.getAll('s').map(decodeReservation);
+    if (subnets.length === 0 || subnets.some(s => s === null)) return null;
+    return { calculator, payload: { subnets: subnets.map(s => ({ network: s!.range, name: s!.name })) } };
+  }
+
+  const network = splitNetwork(params.get('net'));
+  if (!network) return null;
+
+  if (calculator === 'standard') {
+    const calculationMode = params.get('mode') as CalculationMode;
+    if (!Object.values(CalculationMode).includes(calculationMode)) return null;
+    const addressingMode = params.get('addressing') === AddressingMode.CLASSFUL ? AddressingMode.CLASSFUL : AddressingMode.CLASSLESS;
+    return {
+      calculator,
+      payload: {
+        calculationMode,
+        addressingMode,
+        ipAddress: network.ipAddress,
+        parentCidr: addressingMode === AddressingMode.CLASSLESS ? network.cidr : undefined,
+        requiredSubnets: optionalNumber(params.get('subnets')),
+        requiredHosts: optionalNumber(params.get('hosts')),
+        mask: params.get('mask') ?? undefined,
+        ...(params.get('p2p') === '1' ? { pointToPoint: true } : {}),
+      },
+    };
+  }
+
+  if (calculator === 'standard6') {
+    const calculationMode = params.get('mode');
+    if (network.cidr === undefined || (calculationMode !== CalculationMode.SUBNETS && calculationMode !== CalculationMode.MASK)) return null;
+    return {
+      calculator,
+      payload: {
+        calculationMode,
+        ipAddress: network.ipAddress,
+        parentCidr: network.cidr,
+        requiredSubnets: optionalNumber(params.get('subnets')),
+        nibbleAligned: params.get('nibble') === '1',
+        mask: params.get('mask') ?? undefined,
+      },
+    };
+  }
+
+  if (calculator === 'vlsm' || calculator === 'vlsm6') {
+    const groups = params.getAll('g').map(decodeGroup);
+    if (network.cidr === undefined || groups.length === 0 || groups.some(g => g === null)) return null;
+    const { ipAddress, cidr } = network;
+    if (calculator === 'vlsm') {
+      const reservations = params.getAll('r').map(decodeReservation);
+      const locked = params.getAll('l').map(decodeReservation);
+      const strategy = params.get('strategy') as VlsmAllocationStrategy | null;
+      const subnets = decodeVlsmGroups(groups.map(g => g!));
+      if (!subnets || [...reservations, ...locked].some(r => r === null) || (strategy !== null && !VLSM_ALLOCATION_STRATEGIES.includes(strategy))) return null;
+      return {
+        calculator,
+        payload: {
+          ipAddress,
+          cidr,
+          subnets,
+          ...(reservations.length > 0 ? { reservations: reservations.map(r => r!) } : {}),
+          ...(strategy ? { strategy } : {}),
+          ...(locked.length > 0 ? { locked: locked.map(l => ({ path: l!.name, network: l!.range })) } : {}),
+        },
+      };
+    }
+    if (groups.some(g => g!.depth > 0 || g!.size === null || g!.kind)) return null;
+    return {
+      calculator,
+      payload: {
+        ipAddress,
+        cidr,
+        subnets: groups.map((g, i) => ({ id: `group-${i}`, name: g!.name, prefixLength: g!.size!, count: g!.count })),
+      },
+    };
+  }
+
+  return null;
+};
@@ -0,0 +1,140 @@
+import { FIXED_KIND_HOSTS, hostsWithGrowth } from './calculations';
+import { hostBitsForHosts } from './ipv4';
+import { SubnetKind, VlsmSubnetRequest } from './types';
+
+// Editable VLSM subnet groups as held by the form: values stay strings until submitted.
+export interface SubnetGroupInput {
+  id: string;
+  name: string;
+  // Unused by groups with children.
+  hosts: string;
+  count: string;
+  // Growth headroom in percent; empty or absent means none.
+  growth?: string;
+  // Absent means 'lan'. Point-to-point links and loopbacks ignore `hosts` and `growth`.
+  kind?: SubnetKind;
+  // Sub-groups allocated inside each block of this group, which makes it a container.
+  children?: SubnetGroupInput[];
+}
+
+export const isContainerGroup = (group: SubnetGroupInput): boolean => (group.children?.length ?? 0) > 0;
+
+// Hosts of a point-to-point link or loopback, which the form shows instead of the `hosts` input;
+// null for LANs.
+export const fixedHosts = (group: SubnetGroupInput): number | null =>
+  (group.kind && group.kind !== 'lan' ? FIXED_KIND_HOSTS[group.kind] : null);
+
+// Whether any group, at any depth, is a point-to-point link or loopback.
+export const hasFixedSizeGroups = (groups: SubnetGroupInput[]): boolean =>
+  groups.some(group => fixedHosts(group) !== null || (group.children !== undefined && hasFixedSizeGroups(group.children)));
+
+// Per-group rules of the VLSM form. Errors are keyed `<field>-<id>`, e.g. `hosts-subnet-3`.
+// Names must be unique among siblings only, so every site can have a "Users" VLAN.
+export const validateSubnetGroups = (groups: SubnetGroupInput[]): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const names = new Set();
+  groups.forEach((group) => {
+    if (!group.name.trim()) {
+      errors[`name-${group.id}`] = "Name is required.";
+    } else if (names.has(group.name.trim())) {
+      errors[`name-${group.id}`] = "Group names must be unique.";
+    }
+    names.add(group.name.trim());
+
+    if (isContainerGroup(group)) {
+      Object.assign(errors, validateSubnetGroups(group.children!));
+    } else if (fixedHosts(group) === null) {
+      const hostsNum = parseInt(group.hosts, 10);
+      if (isNaN(hostsNum) || hostsNum <= 0) {
+        errors[`hosts-${group.id}`] = "Must be > 0.";
+      }
+    }
+    const countNum = parseInt(group.count, 10);
+    if (isNaN(countNum) || countNum <= 0) {
+      errors[`count-${group.id}`] = "Must be > 0.";
+    }
+    if (group.growth?.trim() && fixedHosts(group) === null) {
+      const growthNum = Number(group.growth);
+      if (isNaN(growthNum) || growthNum < 0) {
+        errors[`growth-${group.id}`] = "Must be 0 or more.";
+      }
+    }
+  });
+  return errors;
+};
+
+// Addresses one block of the group needs, as a power of two; 0 while the input is incomplete.
+// Containers are estimated from their children's total, which packing can exceed only by alignment.
+export const groupBlockSize = (group: SubnetGroupInput): number => {
+  const growth = Number(group.growth) || 0;
+  if (isContainerGroup(group)) {
+    const childSpace = requiredAddresses(group.children!);
+    return childSpace === 0 ? 0 : Math.pow(2, Math.ceil(Math.log2(hostsWithGrowth(childSpace, growth))));
+  }
+  const fixed = fixedHosts(group);
+  if (fixed !== null) return Math.pow(2, hostBitsForHosts(fixed, true));
+  const hosts = parseInt(group.hosts, 10) || 0;
+  if (hosts === 0) return 0;
+  return Math.pow(2, hostBitsForHosts(hostsWithGrowth(hosts, growth)));
+};
+
+// Total addresses of all blocks of the groups, for the form's size check.
+export const requiredAddresses = (groups: SubnetGroupInput[]): number =>
+  groups.reduce((sum, group) => sum + groupBlockSize(group) * (parseInt(group.count, 10) || 0), 0);
+
+// Applies `change` to the group with the given id, wherever it is nested.
+export const updateSubnetGroup = (
+  groups: SubnetGroupInput[],
+  id: string,
+  change: (group: SubnetGroupInput) => SubnetGroupInput,
+): SubnetGroupInput[] =>
+  groups.map(group => {
+    if (group.id === id) return change(group);
+    return group.children ? { ...group, children: updateSubnetGroup(group.children, id, change) } : group;
+  });
+
+// Removes the group with the given id; a container left without children becomes a plain group again.
+export const removeSubnetGroup = (groups: SubnetGroupInput[], id: string): SubnetGroupInput[] =>
+  groups
+    .filter(group => group.id !== id)
+    .map(group => {
+      if (!group.children) return group;
+      const children = removeSubnetGroup(group.children, id);
+      return children.length > 0 ? { ...group, children } : { ...group, children: undefined };
+    });
+
+// Converts submitted form values into calculation requests; containers get 0 hosts.
+export const toSubnetRequests = (groups: SubnetGroupInput[]): VlsmSubnetRequest[] =>
+  groups.map(group => {
+    if (isContainerGroup(group)) {
+      return {
+        id: group.id,
+        name: group.name.trim(),
+        hosts: 0,
+        count: parseInt(group.count, 10),
+        ...(Number(group.growth) > 0 ? { growth: Number(group.growth) } : {}),
+        children: toSubnetRequests(group.children!),
+      };
+    }
+    const fixed = fixedHosts(group);
+    return {
+      id: group.id,
+      name: group.name.trim(),
+      hosts: fixed ?? parseInt(group.hosts, 10),
+      count: parseInt(group.count, 10),
+      ...(fixed === null && Number(group.growth) > 0 ? { growth: Number(group.growth) } : {}),
+      ...(fixed !== null ? { kind: group.kind } : {}),
+    };
+  });
+
+// Seeds the form from calculation requests, giving every group a fresh id built by `newId`.
+export const fromSubnetRequests = (requests: VlsmSubnetRequest[], newId: () => string): SubnetGroupInput[] =>
+  requests.map(request => ({
+    id: newId(),
+    name: request.name,
+    hosts: request.children?.length ? '' : String(request.hosts),
+    count: String(request.count),
+    growth: request.growth ? String(request.growth) : '',
+    ...(request.kind && request.kind !== 'lan' ? { kind: request.kind } : {}),
+    ...(request.children?.length ? { children: fromSubnetRequests(request.children, newId) } : {}),
+  }));
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { buildVlsmTree, flattenVlsmTree, isHierarchical, subnetPaths } from './vlsmTree';
+import { calculateVlsm } from './calculations';
+
+const result = calculateVlsm({
+  ipAddress: '10.0.0.0',
+  cidr: 16,
+  subnets: [
+    { id: 'core', name: 'Core', hosts: 2, count: 1 },
+    {
+      id: 'eu', name: 'EU', hosts: 0, count: 1, children: [
+        { id: 'site', name: 'Site', hosts: 0, count: 2, children: [{ id: 'users', name: 'Users', hosts: 200, count: 1 }] },
+        { id: 'dc', name: 'DC', hosts: 500, count: 1 },
+      ],
+    },
+  ],
+});
+
+describe('VLSM tree', () => {
+  it('nests containers and subnets in address order', () => {
+    const tree = buildVlsmTree(result);
+    expect(isHierarchical(result)).toBe(true);
+    expect(tree.map(n => n.block.name)).toEqual(['EU', 'Core']);
+    expect(flattenVlsmTree(tree).map(n => `${n.kind} ${n.path.join('/')} ${n.block.networkAddress}`)).toEqual([
+      'container EU 10.0.0.0',
+      'subnet EU/DC 10.0.0.0',
+      'container EU/Site 1 10.0.2.0',
+      'subnet EU/Site 1/Users 10.0.2.0',
+      'container EU/Site 2 10.0.3.0',
+      'subnet EU/Site 2/Users 10.0.3.0',
+      'subnet Core 10.0.4.0',
+    ]);
+  });
+
+  it('names subnets by their full path', () => {
+    const paths = subnetPaths(result);
+    expect(paths.get('eu-0/site-1/users-0')).toBe('EU / Site 2 / Users');
+    expect(paths.get('core-0')).toBe('Core');
+  });
+
+  it('treats flat plans as a single level', () => {
+    const flat = calculateVlsm({ ipAddress: '10.0.0.0', cidr: 24, subnets: [{ id: 'lan', name: 'LAN', hosts: 10, count: 2 }] });
+    expect(isHierarchical(flat)).toBe(false);
+    expect(buildVlsmTree(flat).map(n => n.kind)).toEqual(['subnet', 'subnet']);
+  });
+});
@@ -0,0 +1,56 @@
+// Rebuilds the hierarchy of a VLSM result from the `parentId` links of its containers and
+// subnets, for the tree view and for exports that keep the nesting.
+import { VlsmCalculationResult, VlsmContainerResult, VlsmLockedBlock, VlsmSubnetResult } from './types';
+import { ipToBigInt } from './ipv4';
+
+export type VlsmTreeNode =
+  | { kind: 'container'; block: VlsmContainerResult; path: string[]; children: VlsmTreeNode[] }
+  | { kind: 'subnet'; block: VlsmSubnetResult; path: string[] };
+
+export const isHierarchical = (result: VlsmCalculationResult): boolean => (result.containers?.length ?? 0) > 0;
+
+const byAddress = (a: VlsmTreeNode, b: VlsmTreeNode) => {
+  const delta = ipToBigInt(a.block.networkAddress) - ipToBigInt(b.block.networkAddress);
+  return delta < 0n ? -1 : delta > 0n ? 1 : 0;
+};
+
+// Top-level nodes of the plan; siblings are ordered by address.
+export const buildVlsmTree = (result: VlsmCalculationResult): VlsmTreeNode[] => {
+  const childrenOf = new Map<string | undefined, (VlsmContainerResult | VlsmSubnetResult)[]>();
+  for (const block of [...(result.containers ?? []), ...result.allocatedSubnets]) {
+    const siblings = childrenOf.get(block.parentId) ?? [];
+    siblings.push(block);
+    childrenOf.set(block.parentId, siblings);
+  }
+  const containerIds = new Set((result.containers ?? []).map(c => c.id));
+
+  const build = (parentId: string | undefined, parentPath: string[]): VlsmTreeNode[] =>
+    (childrenOf.get(parentId) ?? []).map((block): VlsmTreeNode => {
+      const path = [...parentPath, block.name];
+      return containerIds.has(block.id)
+        ? { kind: 'container', block: block as VlsmContainerResult, path, children: build(block.id, path) }
+        : { kind: 'subnet', block: block as VlsmSubnetResult, path };
+    }).sort(byAddress);
+
+  return build(undefined, []);
+};
+
+// Depth-first listing of the tree, each node directly followed by its contents.
+export const flattenVlsmTree = (nodes: VlsmTreeNode[]): VlsmTreeNode[] =>
+  nodes.flatMap(node => (node.kind === 'container' ? [node, ...flattenVlsmTree(node.children)] : [node]));
+
+export const formatPath = (path: string[]): string => path.join(' / ');
+
+// Full path of every subnet by id, e.g. "EU / Site 1 / Users"; just the name in flat plans.
+export const subnetPaths = (result: VlsmCalculationResult): Map<string, string> => {
+  const paths = new Map<string, string>();
+  for (const node of flattenVlsmTree(buildVlsmTree(result))) {
+    if (node.kind === 'subnet') paths.set(node.block.id, formatPath(node.path));
+  }
+  return paths;
+};
+
+// Every container and subnet of a plan with its block, to keep them in place when the plan is
+// recalculated with new or larger groups.
+export const lockedBlocks = (result: VlsmCalculationResult): VlsmLockedBlock[] =>
+  flattenVlsmTree(buildVlsmTree(result)).map(node => ({ path: formatPath(node.path), network: `${node.block.networkAddress}/${node.block.cidr}` }));
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWorkerClient } from './workerClient';
+import { CalculationResult, SubnetPage, WorkerCommand, WorkerEvent, WorkerMessage } from './types';
+
+class FakeWorker {
+  commands: WorkerCommand[] = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent<WorkerEvent>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  postMessage(command: WorkerCommand) {
+    this.commands.push(command);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  emit(event: WorkerEvent) {
+    this.onmessage?.({ data: event } as MessageEvent<WorkerEvent>);
+  }
+}
+
+const setup = () => {
+  const workers: FakeWorker[] = [];
+  const client = createWorkerClient(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  });
+  return { client, workers };
+};
+
+const standardJob = { calculator: 'standard', payload: {} } as WorkerMessage;
+const pageJob = { calculator: 'subnet-page', payload: { result: {} as CalculationResult, offset: 0, limit: 10 } } as WorkerMessage;
+const page: SubnetPage = { offset: 0, subnets: [] };
+
+const handlers = () => ({ onResult: vi.fn(), onError: vi.fn(), onProgress: vi.fn(), onCancelled: vi.fn() });
+
+describe('createWorkerClient', () => {
+  it('routes events to the job they belong to', () => {
+    const { client, workers } = setup();
+    const first = handlers();
+    const second = handlers();
+    const a = client.run(standardJob, first);
+    const b = client.run(pageJob, second);
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].commands).toEqual([{ type: 'run', id: a, job: standardJob }, { type: 'run', id: b, job: pageJob }]);
+
+    const progress = { label: 'subnets generated', done: 5, total: 10 };
+    workers[0].emit({ type: 'progress', id: b, progress, partial: [] });
+    workers[0].emit({ type: 'error', id: a, error: 'Bad input.' });
+    workers[0].emit({ type: 'result', id: b, result: page });
+
+    expect(first.onError).toHaveBeenCalledWith('Bad input.');
+    expect(second.onProgress).toHaveBeenCalledWith(progress, []);
+    expect(second.onResult).toHaveBeenCalledWith(page);
+    expect(first.onResult).not.toHaveBeenCalled();
+  });
+
+  it('asks the worker to stop generating a page', () => {
+    const { client, workers } = setup();
+    const job = handlers();
+    const id = client.run(pageJob, job);
+    client.cancel(id);
+
+    expect(workers[0].commands.at(-1)).toEqual({ type: 'cancel', id });
+    expect(workers[0].terminated).toBe(false);
+    expect(job.onCancelled).toHaveBeenCalledOnce();
+    // Chunks already on their way are dropped.
+    workers[0].emit({ type: 'result', id, result: page });
+    expect(job.onResult).not.toHaveBeenCalled();
+  });
+
+  it('replaces the worker to cancel a calculation and resubmits the jobs behind it', () => {
+    const { client, workers } = setup();
+    const cancelled = handlers();
+    const queued = handlers();
+    const a = client.run(standardJob, cancelled);
+    const b = client.run(pageJob, queued);
+    client.cancel(a);
+
+    expect(workers[0].terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+    expect(workers[1].commands).toEqual([{ type: 'run', id: b, job: pageJob }]);
+    expect(cancelled.onCancelled).toHaveBeenCalledOnce();
+
+    workers[1].emit({ type: 'result', id: b, result: page });
+    expect(queued.onResult).toHaveBeenCalledWith(page);
+  });
+
+  it('drops a queued calculation without restarting the page streaming ahead of it', () => {
+    const { client, workers } = setup();
+    const pageHandlers = handlers();
+    const queued = handlers();
+    const a = client.run(pageJob, pageHandlers);
+    const b = client.run(standardJob, queued);
+    workers[0].emit({ type: 'progress', id: a, progress: { label: 'subnets generated', done: 4, total: 10 }, partial: [] });
+    client.cancel(b);
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].terminated).toBe(false);
+    expect(workers[0].commands).toEqual([{ type: 'run', id: a, job: pageJob }, { type: 'run', id: b, job: standardJob }, { type: 'cancel', id: b }]);
+    expect(queued.onCancelled).toHaveBeenCalledOnce();
+
+    workers[0].emit({ type: 'result', id: a, result: page });
+    expect(pageHandlers.onProgress).toHaveBeenCalledOnce();
+    expect(pageHandlers.onResult).toHaveBeenCalledWith(page);
+  });
+
+  it('fails every pending job when the worker crashes and starts a new one for the next', () => {
+    const { client, workers } = setup();
+    const job = handlers();
+    client.run(standardJob, job);
+    workers[0].onerror?.({ message: 'out of memory' } as ErrorEvent);
+
+    expect(job.onError).toHaveBeenCalledWith('An unexpected error occurred: out of memory');
+    expect(workers[0].terminated).toBe(true);
+    client.run(standardJob, handlers());
+    expect(workers).toHaveLength(2);
+  });
+});
@@ -0,0 +1,98 @@
+// Runs jobs on one long-lived calculation worker (worker.ts) and routes its events to the caller of
+// each job by id.
+import { CalculationProgress, CalculationResultUnion, Subnet, SubnetPage, WorkerCommand, WorkerEvent, WorkerMessage } from './types';
+
+export interface JobHandlers<T> {
+  onResult: (result: T) => void;
+  onError: (message: string) => void;
+  // `partial` holds the subnets generated since the previous call, for jobs that stream them.
+  onProgress?: (progress: CalculationProgress, partial?: Subnet[]) => void;
+  onCancelled?: () => void;
+}
+
+export interface WorkerClient {
+  // Queues a job and returns its id.
+  run: <T extends CalculationResultUnion | SubnetPage>(job: WorkerMessage, handlers: JobHandlers<T>) => number;
+  cancel: (id: number) => void;
+  dispose: () => void;
+}
+
+type JobResult = CalculationResultUnion | SubnetPage;
+
+// Page generation checks for a cancel between chunks. Other jobs run in one go, so cancelling one
+// while it runs replaces the worker and resubmits the jobs queued behind it.
+const stopsOnCancel = (job: WorkerMessage) => job.calculator === 'subnet-page';
+
+export const createWorkerClient = (createWorker: () => Worker): WorkerClient => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  // Pending jobs in the order they were sent. The worker runs them in that order, so the first one
+  // is the job in progress.
+  const jobs = new Map<number, { job: WorkerMessage; handlers: JobHandlers<JobResult> }>();
+
+  const handleEvent = (event: MessageEvent<WorkerEvent>) => {
+    const data = event.data;
+    const entry = jobs.get(data.id);
+    // Events of a cancelled job that were already on their way are dropped.
+    if (!entry) return;
+    if (data.type === 'progress') {
+      entry.handlers.onProgress?.(data.progress, data.partial);
+      return;
+    }
+    jobs.delete(data.id);
+    if (data.type === 'result') entry.handlers.onResult(data.result);
+    else if (data.type === 'error') entry.handlers.onError(data.error);
+    else entry.handlers.onCancelled?.();
+  };
+
+  // An uncaught error ends every job on the worker; the next job starts a fresh one.
+  const handleCrash = (event: ErrorEvent) => {
+    const pending = [...jobs.values()];
+    jobs.clear();
+    worker?.terminate();
+    worker = null;
+    pending.forEach(({ handlers }) => handlers.onError(`An unexpected error occurred: ${event.message}`));
+  };
+
+  const send = (command: WorkerCommand) => {
+    if (!worker) {
+      worker = createWorker();
+      worker.onmessage = handleEvent;
+      worker.onerror = handleCrash;
+    }
+    worker.postMessage(command);
+  };
+
+  const run: WorkerClient['run'] = (job, handlers) => {
+    const id = nextId++;
+    // The worker answers each job with the result type of its calculator.
+    jobs.set(id, { job, handlers: handlers as JobHandlers<JobResult> });
+    send({ type: 'run', id, job });
+    return id;
+  };
+
+  const cancel = (id: number) => {
+    const entry = jobs.get(id);
+    if (!entry) return;
+    const inProgress = jobs.keys().next().value === id;
+    jobs.delete(id);
+    // Queued jobs are dropped by the worker without disturbing the one in progress, whose
+    // streamed chunks would start over if it were resubmitted.
+    if (!inProgress || stopsOnCancel(entry.job)) {
+      send({ type: 'cancel', id });
+    } else {
+      worker?.terminate();
+      worker = null;
+      jobs.forEach(({ job }, queuedId) => send({ type: 'run', id: queuedId, job }));
+    }
+    entry.handlers.onCancelled?.();
+  };
+
+  const dispose = () => {
+    worker?.terminate();
+    worker = null;
+    jobs.clear();
+  };
+
+  return { run, cancel, dispose };
+};